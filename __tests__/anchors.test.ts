@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  compileBundle,
+  compileSchema,
+  createSchemaStore,
+  getSchemaFileUri,
+  toTypes,
+  ToTypesConfig,
+} from "../src/index";
+import { indexAnchors, resolveRef } from "../src/resolution";
+import { JsonSchema } from "../src/types";
+
+const addressesSchema: JsonSchema = {
+  title: "Addresses",
+  $defs: {
+    PostalAddress: {
+      $anchor: "address",
+      type: "object",
+      properties: { street: { type: "string" } },
+    },
+  },
+};
+
+describe("Anchors and dynamic references", () => {
+  it("should index the anchors a schema declares", () => {
+    const schema: JsonSchema = {
+      $dynamicAnchor: "node",
+      definitions: {
+        Legacy: { $id: "#legacy" },
+        Address: { $anchor: "address" },
+      },
+    };
+
+    expect(Array.from(indexAnchors(schema))).toEqual([
+      ["node", "#"],
+      ["legacy", "#/definitions/Legacy"],
+      ["address", "#/definitions/Address"],
+    ]);
+    expect(resolveRef({ ref: "#address", rootSchema: schema })).toBe(
+      schema.definitions!.Address,
+    );
+  });
+
+  it("should name the schema an $anchor reference points at", () => {
+    const result = compileSchema({
+      title: "Order",
+      type: "object",
+      properties: {
+        shipping: { $ref: "#address" },
+        billing: { $ref: "#missing" },
+      },
+      $defs: addressesSchema.$defs,
+    });
+
+    expect(result.code).toContain("type OrderShipping = PostalAddress\n");
+    expect(result.diagnostics).toEqual([
+      {
+        severity: "warning",
+        code: "unresolved-ref",
+        message:
+          'Reference "#missing" does not point at a schema in this document',
+        pointer: "#missing",
+      },
+    ]);
+  });
+
+  it("should generate recursive types for $dynamicRef", () => {
+    const result = compileSchema({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      title: "Tree",
+      $dynamicAnchor: "node",
+      type: "object",
+      properties: {
+        value: { type: "string" },
+        children: { type: "array", items: { $dynamicRef: "#node" } },
+      },
+    });
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.code).toContain("type TreeChildren = TreeChildrenItem[]\n");
+    expect(result.code).toContain("type TreeChildrenItem = Tree\n");
+  });
+
+  it("should generate recursive types for $recursiveRef", () => {
+    const result = compileSchema({
+      title: "Category",
+      $recursiveAnchor: true,
+      type: "object",
+      properties: { parent: { $recursiveRef: "#" } },
+    });
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.code).toContain("type CategoryParent = Category\n");
+  });
+
+  it("should resolve anchors of other documents through the store", () => {
+    const store = createSchemaStore();
+    store.add(addressesSchema, getSchemaFileUri("common/addresses.json"));
+
+    expect(
+      store.resolve("../common/addresses.json#address", {
+        documentUri: getSchemaFileUri("api/order.json"),
+        pointer: "#",
+      }),
+    ).toEqual({
+      documentUri: getSchemaFileUri("common/addresses.json"),
+      pointer: "#/$defs/PostalAddress",
+    });
+  });
+
+  it("should bundle references to anchors of other documents", () => {
+    const { code, documents } = compileBundle([
+      {
+        id: "order.json",
+        schema: {
+          title: "Order",
+          type: "object",
+          properties: { shipping: { $ref: "./addresses.json#address" } },
+        },
+      },
+      { id: "addresses.json", schema: addressesSchema },
+    ]);
+
+    expect(documents[0].diagnostics).toEqual([]);
+    expect(code).toContain("type OrderShipping = PostalAddress\n");
+  });
+
+  describe("toTypes", () => {
+    let tempDir: string;
+    let config: ToTypesConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-anchors-"));
+      config = {
+        pathToJsonSchemas: path.join(tempDir, "schemas"),
+        pathToOutputDirectory: path.join(tempDir, "types"),
+        logLevel: "silent",
+      };
+      fs.mkdirSync(path.join(tempDir, "schemas"), { recursive: true });
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should import the type an anchor of another file names", async () => {
+      fs.writeFileSync(
+        path.join(tempDir, "schemas", "addresses.json"),
+        JSON.stringify(addressesSchema),
+      );
+      fs.writeFileSync(
+        path.join(tempDir, "schemas", "order.json"),
+        JSON.stringify({
+          title: "Order",
+          type: "object",
+          properties: { shipping: { $ref: "./addresses.json#address" } },
+        }),
+      );
+
+      const result = await toTypes(config);
+
+      expect(result.files.flatMap(({ diagnostics }) => diagnostics)).toEqual(
+        [],
+      );
+      expect(
+        fs.readFileSync(path.join(tempDir, "types", "order.d.ts"), "utf-8"),
+      ).toMatch(/^import type \{ PostalAddress \} from "\.\/addresses";\n/);
+    });
+  });
+});
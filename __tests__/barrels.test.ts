@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { pathToFileURL } from "url";
+import { toTypes, ToTypesConfig } from "../src/index";
+import { createBarrelFiles } from "../src/pipeline";
+
+const silentLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: vi.fn(),
+  error: () => {},
+};
+
+const modules = [
+  { outputPath: path.join("types", "user.d.ts"), exportedTypes: ["User"] },
+  {
+    outputPath: path.join("types", "offer.d.ts"),
+    exportedTypes: ["Offer", "Price"],
+  },
+  {
+    outputPath: path.join("types", "v2", "offer.d.ts"),
+    exportedTypes: ["Offer", "Price", "Discount"],
+  },
+];
+
+describe("Barrel files", () => {
+  describe("createBarrelFiles", () => {
+    it("should write one barrel per directory by default", () => {
+      const files = createBarrelFiles({
+        pathToOutputDirectory: "types",
+        modules,
+        options: {},
+        logger: silentLogger,
+      });
+
+      expect(Object.fromEntries(files)).toEqual({
+        [path.join("types", "index.d.ts")]:
+          'export * from "./offer";\nexport * from "./user";\n',
+        [path.join("types", "v2", "index.d.ts")]: 'export * from "./offer";\n',
+      });
+    });
+
+    it("should re-export clashing modules as namespaces in the root barrel", () => {
+      const files = createBarrelFiles({
+        pathToOutputDirectory: "types",
+        modules,
+        options: { root: true, directories: false },
+        logger: silentLogger,
+      });
+
+      expect(files.get(path.join("types", "index.d.ts"))).toBe(
+        [
+          'export * as Offer from "./offer";',
+          'export * from "./user";',
+          'export * as V2Offer from "./v2/offer";',
+          "",
+        ].join("\n"),
+      );
+      expect(files.size).toBe(1);
+    });
+
+    it("should prefix only the clashing names", () => {
+      const files = createBarrelFiles({
+        pathToOutputDirectory: "types",
+        modules,
+        options: { root: true, collisions: "prefix" },
+        logger: silentLogger,
+      });
+
+      expect(files.get(path.join("types", "index.d.ts"))).toBe(
+        [
+          'export type { Offer as OfferOffer, Price as OfferPrice } from "./offer";',
+          'export * from "./user";',
+          'export type { Offer as V2OfferOffer, Price as V2OfferPrice, Discount } from "./v2/offer";',
+          "",
+        ].join("\n"),
+      );
+      expect(files.has(path.join("types", "v2", "index.d.ts"))).toBe(true);
+    });
+
+    it("should not overwrite a generated module named index", () => {
+      const files = createBarrelFiles({
+        pathToOutputDirectory: "types",
+        modules: [
+          {
+            outputPath: path.join("types", "index.d.ts"),
+            exportedTypes: ["Index"],
+          },
+        ],
+        options: {},
+        logger: silentLogger,
+      });
+
+      expect(files.size).toBe(0);
+      expect(silentLogger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe("toTypes with barrels", () => {
+    let tempDir: string;
+    let config: ToTypesConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-barrels-"));
+      const inputDir = path.join(tempDir, "schemas");
+      fs.mkdirSync(path.join(inputDir, "v2"), { recursive: true });
+      fs.writeFileSync(
+        path.join(inputDir, "user.schema.json"),
+        JSON.stringify({ title: "User", type: "object" }),
+      );
+      fs.writeFileSync(
+        path.join(inputDir, "v2", "user.schema.json"),
+        JSON.stringify({ title: "User", type: "object" }),
+      );
+      config = {
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: path.join(tempDir, "types"),
+        generatedTypesExportsFormat: "ROOT_ONLY",
+        barrels: { root: true },
+        logLevel: "silent",
+      };
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should write barrels and report them as generated files", async () => {
+      const result = await toTypes(config);
+
+      const rootBarrel = path.join(tempDir, "types", "index.d.ts");
+      expect(result.generatedFiles).toContain(rootBarrel);
+      expect(fs.readFileSync(rootBarrel, "utf-8")).toBe(
+        'export * as User from "./user";\nexport * as V2User from "./v2/user";\n',
+      );
+      expect(
+        fs.readFileSync(
+          path.join(tempDir, "types", "v2", "index.d.ts"),
+          "utf-8",
+        ),
+      ).toBe('export * from "./user";\n');
+
+      const rerun = await toTypes(config);
+      expect(rerun.unchangedFiles).toContain(rootBarrel);
+    });
+
+    it("should only re-export runtime values from JavaScript barrels", async () => {
+      await toTypes({
+        ...config,
+        target: "js",
+        barrels: { root: true, collisions: "prefix" },
+      });
+
+      const typesDir = path.join(tempDir, "types");
+      expect(fs.readFileSync(path.join(typesDir, "index.d.ts"), "utf-8")).toBe(
+        [
+          'export type { User as UserUser } from "./user";',
+          'export { UserSchema as UserUserSchema } from "./user";',
+          'export type { User as V2UserUser } from "./v2/user";',
+          'export { UserSchema as V2UserUserSchema } from "./v2/user";',
+          "",
+        ].join("\n"),
+      );
+      const barrel = await import(
+        pathToFileURL(path.join(typesDir, "index.js")).href
+      );
+      expect(Object.keys(barrel).sort()).toEqual([
+        "UserUserSchema",
+        "V2UserUserSchema",
+      ]);
+      expect(barrel.UserUserSchema).toMatchObject({ title: "User" });
+    });
+
+    it("should compare barrels in check mode", async () => {
+      await toTypes({ ...config, barrels: false });
+
+      const result = await toTypes({ ...config, check: true });
+
+      expect(result.check?.missingFiles).toEqual([
+        path.join(tempDir, "types", "index.d.ts"),
+        path.join(tempDir, "types", "v2", "index.d.ts"),
+      ]);
+    });
+
+    it("should let clean remove barrels that are no longer generated", async () => {
+      await toTypes({ ...config, clean: true });
+
+      const result = await toTypes({ ...config, clean: true, barrels: false });
+
+      expect(result.deletedFiles.sort()).toEqual([
+        path.join(tempDir, "types", "index.d.ts"),
+        path.join(tempDir, "types", "v2", "index.d.ts"),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  compileBundle,
+  toTypes,
+  ToTypesConfig,
+  UnresolvedReferenceError,
+} from "../src/index";
+
+const addressSchema = {
+  $id: "https://example.com/address.json",
+  title: "Address",
+  type: "object",
+  properties: { street: { type: "string" } },
+};
+
+describe("Bundled output", () => {
+  describe("compileBundle", () => {
+    it("should declare a schema shared by relative path and $id once", () => {
+      const { code, documents } = compileBundle([
+        {
+          id: "api/user.json",
+          schema: {
+            title: "User",
+            type: "object",
+            properties: {
+              home: { $ref: "../common/address.json" },
+              work: { $ref: "https://example.com/address.json" },
+            },
+          },
+        },
+        { id: "common/address.json", schema: addressSchema },
+      ]);
+
+      expect(code.match(/interface Address /g)).toHaveLength(1);
+      expect(code).toContain("type UserHome = Address\n");
+      expect(code).toContain("type UserWork = Address\n");
+      expect(documents.map(({ types }) => types)).toEqual([
+        ["User", "UserHome", "UserWork"],
+        ["Address", "AddressStreet"],
+      ]);
+      expect(documents[0].diagnostics).toEqual([]);
+    });
+
+    it("should resolve name collisions across documents", () => {
+      const { code, documents } = compileBundle([
+        { id: "offer.json", schema: { title: "Offer", type: "object" } },
+        { id: "v2/offer.json", schema: { title: "Offer", type: "object" } },
+      ]);
+
+      expect(documents.map(({ types }) => types)).toEqual([
+        ["Offer"],
+        ["Offer_1"],
+      ]);
+      expect(code).toContain("export { \nOffer,\nOffer_1 \n};");
+    });
+
+    it("should wrap each document in a namespace and qualify references between them", () => {
+      const { code, documents } = compileBundle(
+        [
+          {
+            id: "v2/offer.schema.json",
+            schema: {
+              title: "Offer",
+              type: "object",
+              properties: { address: { $ref: "../address.json" } },
+            },
+          },
+          { id: "address.json", schema: addressSchema },
+        ],
+        { namespaces: true },
+      );
+
+      expect(documents.map(({ namespace }) => namespace)).toEqual([
+        "V2Offer",
+        "Address",
+      ]);
+      expect(code).toContain("export namespace V2Offer {\n");
+      expect(code).toContain("  export interface Offer {\n");
+      expect(code).toContain("  export type OfferAddress = Address.Address\n");
+    });
+
+    it("should leave out a schema whose $id is already bundled", () => {
+      const { documents } = compileBundle([
+        { id: "address.json", schema: addressSchema },
+        { id: "copy/address.json", schema: addressSchema },
+      ]);
+
+      expect(documents[1].types).toEqual([]);
+      expect(documents[1].diagnostics[0].code).toBe("duplicate-id");
+    });
+
+    it("should report unresolved references against the referencing document", () => {
+      const documents = [
+        {
+          id: "user.json",
+          schema: {
+            title: "User",
+            properties: { home: { $ref: "./address.json#/definitions/Home" } },
+          },
+        },
+        { id: "address.json", schema: addressSchema },
+      ];
+
+      const { documents: bundled } = compileBundle(documents);
+      expect(bundled[0].diagnostics).toEqual([
+        expect.objectContaining({
+          code: "unresolved-ref",
+          pointer: "#/properties/home",
+        }),
+      ]);
+
+      expect(() => compileBundle(documents, { strict: true })).toThrow(
+        UnresolvedReferenceError,
+      );
+    });
+
+    it("should emit references outside the bundle as unknown", () => {
+      const { code, documents } = compileBundle([
+        {
+          id: "user.json",
+          schema: {
+            title: "User",
+            type: "object",
+            properties: {
+              team: { $ref: "./team.json" },
+              owner: { $ref: "https://example.com/owner.json" },
+            },
+          },
+        },
+      ]);
+
+      expect(code).toContain("type UserTeam = unknown\n");
+      expect(code).toContain("type UserOwner = unknown\n");
+      expect(documents[0].diagnostics).toEqual([
+        {
+          severity: "warning",
+          code: "external-ref",
+          message:
+            'External reference "./team.json" is not resolved and is emitted as unknown',
+        },
+        {
+          severity: "warning",
+          code: "external-ref",
+          message:
+            'External reference "https://example.com/owner.json" is not resolved and is emitted as unknown',
+        },
+      ]);
+    });
+  });
+
+  describe("toTypes with bundle", () => {
+    let tempDir: string;
+    let config: ToTypesConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-bundle-"));
+      const inputDir = path.join(tempDir, "schemas");
+      fs.mkdirSync(inputDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(inputDir, "address.json"),
+        JSON.stringify(addressSchema),
+      );
+      fs.writeFileSync(
+        path.join(inputDir, "user.json"),
+        JSON.stringify({
+          title: "User",
+          type: "object",
+          properties: { address: { $ref: "./address.json" } },
+        }),
+      );
+      config = {
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: path.join(tempDir, "types"),
+        generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+        bundle: true,
+        logLevel: "silent",
+      };
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should write a single file for every schema", async () => {
+      const result = await toTypes(config);
+
+      const bundlePath = path.join(tempDir, "types", "schemas.d.ts");
+      expect(fs.readdirSync(path.join(tempDir, "types"))).toEqual([
+        "schemas.d.ts",
+      ]);
+      expect(result.generatedFiles).toEqual([bundlePath]);
+      expect(result.files.map(({ outputPath }) => outputPath)).toEqual([
+        bundlePath,
+        bundlePath,
+      ]);
+      expect(fs.readFileSync(bundlePath, "utf-8")).toContain(
+        "export { \nAddress,\nAddressStreet,\nUser,\nUserAddress \n};",
+      );
+    });
+
+    it("should keep bundling when a schema file fails", async () => {
+      fs.writeFileSync(
+        path.join(tempDir, "schemas", "broken.json"),
+        "{ not json",
+      );
+
+      const result = await toTypes({
+        ...config,
+        bundle: { fileName: "api.d.ts" },
+      });
+
+      expect(result.failedFiles.map(({ schemaPath }) => schemaPath)).toEqual([
+        "broken.json",
+      ]);
+      expect(fs.existsSync(path.join(tempDir, "types", "api.d.ts"))).toBe(true);
+    });
+
+    it("should let clean remove the per-file outputs when switching to a bundle", async () => {
+      await toTypes({ ...config, bundle: false, clean: true });
+
+      const result = await toTypes({ ...config, clean: true });
+
+      expect(result.deletedFiles.sort()).toEqual([
+        path.join(tempDir, "types", "address.d.ts"),
+        path.join(tempDir, "types", "user.d.ts"),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { toTypes, ToTypesConfig } from "../src/index";
+import { createUnifiedDiff } from "../src/utils";
+
+describe("Check Mode", () => {
+  describe("createUnifiedDiff", () => {
+    it("should return an empty string for identical texts", () => {
+      expect(
+        createUnifiedDiff({
+          oldText: "a\n",
+          newText: "a\n",
+          oldLabel: "a/x",
+          newLabel: "b/x",
+        }),
+      ).toBe("");
+    });
+
+    it("should produce hunks with context", () => {
+      const oldText = "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n11\n12\n";
+      const newText = "1\n2\nthree\n4\n5\n6\n7\n8\n9\n10\n11\n12\n13\n";
+
+      expect(
+        createUnifiedDiff({
+          oldText,
+          newText,
+          oldLabel: "a/x",
+          newLabel: "b/x",
+        }),
+      ).toBe(
+        [
+          "--- a/x",
+          "+++ b/x",
+          "@@ -1,6 +1,6 @@",
+          " 1",
+          " 2",
+          "-3",
+          "+three",
+          " 4",
+          " 5",
+          " 6",
+          "@@ -10,3 +10,4 @@",
+          " 10",
+          " 11",
+          " 12",
+          "+13",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should diff against an empty file", () => {
+      expect(
+        createUnifiedDiff({
+          oldText: "",
+          newText: "a\nb\n",
+          oldLabel: "/dev/null",
+          newLabel: "b/x",
+        }),
+      ).toBe("--- /dev/null\n+++ b/x\n@@ -0,0 +1,2 @@\n+a\n+b\n");
+    });
+  });
+
+  describe("toTypes with check", () => {
+    let tempDir: string;
+    let inputDir: string;
+    let outputDir: string;
+    let config: ToTypesConfig;
+
+    const writeSchema = (name: string, schema: object): void => {
+      fs.writeFileSync(path.join(inputDir, name), JSON.stringify(schema));
+    };
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-check-"));
+      inputDir = path.join(tempDir, "schemas");
+      outputDir = path.join(tempDir, "types");
+      fs.mkdirSync(inputDir, { recursive: true });
+      config = {
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: outputDir,
+        generatedTypesExportsFormat: "ROOT_ONLY",
+        logLevel: "silent",
+      };
+
+      writeSchema("user.json", {
+        title: "User",
+        type: "object",
+        properties: { id: { type: "string" } },
+      });
+      writeSchema("product.json", { title: "Product", type: "object" });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should report up to date when the output matches", async () => {
+      await toTypes(config);
+
+      const result = await toTypes({ ...config, check: true });
+
+      expect(result.check).toEqual({
+        isUpToDate: true,
+        missingFiles: [],
+        changedFiles: [],
+        extraFiles: [],
+        diffs: {},
+      });
+    });
+
+    it("should report missing, changed and extra files without writing", async () => {
+      await toTypes(config);
+      writeSchema("user.json", {
+        title: "User",
+        type: "object",
+        properties: { id: { type: "number" } },
+      });
+      writeSchema("order.json", { title: "Order", type: "object" });
+      fs.unlinkSync(path.join(inputDir, "product.json"));
+      const userOutput = path.join(outputDir, "user.d.ts");
+      const userBefore = fs.readFileSync(userOutput, "utf-8");
+
+      const result = await toTypes({ ...config, check: true });
+
+      expect(result.check?.isUpToDate).toBe(false);
+      expect(result.check?.missingFiles).toEqual([
+        path.join(outputDir, "order.d.ts"),
+      ]);
+      expect(result.check?.changedFiles).toEqual([userOutput]);
+      expect(result.check?.extraFiles).toEqual([
+        path.join(outputDir, "product.d.ts"),
+      ]);
+      expect(result.check?.diffs[userOutput]).toContain(
+        "+type UserId = number",
+      );
+      expect(result.check?.diffs[userOutput]).toContain(
+        "-type UserId = string",
+      );
+
+      // Nothing was written
+      expect(fs.readFileSync(userOutput, "utf-8")).toBe(userBefore);
+      expect(fs.existsSync(path.join(outputDir, "order.d.ts"))).toBe(false);
+      expect(result.generatedFiles).toEqual([]);
+    });
+
+    it("should report extra files of the ts and js targets", async () => {
+      for (const target of ["ts", "js"] as const) {
+        const targetConfig = { ...config, target };
+        await toTypes(targetConfig);
+        const extraFiles = (
+          target === "js" ? ["product.js", "product.d.ts"] : ["product.ts"]
+        ).map((fileName) => path.join(outputDir, fileName));
+        fs.unlinkSync(path.join(inputDir, "product.json"));
+
+        const result = await toTypes({ ...targetConfig, check: true });
+
+        expect(result.check?.extraFiles.sort()).toEqual(extraFiles.sort());
+        fs.rmSync(outputDir, { recursive: true });
+        writeSchema("product.json", { title: "Product", type: "object" });
+      }
+    });
+
+    it("should print a diff per stale file", async () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await toTypes({ ...config, check: true, logLevel: "error" });
+
+      const printed = error.mock.calls.map((call) => call[0]).join("\n");
+      expect(printed).toContain("+++ b/user.d.ts");
+      expect(printed).toContain("+++ b/product.d.ts");
+      expect(printed).toContain("2 generated file(s) are out of date");
+      expect(fs.existsSync(outputDir)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { toTypes, ToTypesConfig } from "../src/index";
+import { MANIFEST_FILE_NAME } from "../src/pipeline";
+
+describe("Clean", () => {
+  let tempDir: string;
+  let inputDir: string;
+  let outputDir: string;
+  let config: ToTypesConfig;
+
+  const writeSchema = (name: string, schema: object | string): void => {
+    const filePath = path.join(inputDir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(
+      filePath,
+      typeof schema === "string" ? schema : JSON.stringify(schema),
+    );
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-clean-"));
+    inputDir = path.join(tempDir, "schemas");
+    outputDir = path.join(tempDir, "types");
+    fs.mkdirSync(inputDir, { recursive: true });
+    config = {
+      pathToJsonSchemas: inputDir,
+      pathToOutputDirectory: outputDir,
+      generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+      clean: true,
+      logLevel: "silent",
+    };
+
+    writeSchema("user.json", { title: "User", type: "object" });
+    writeSchema("v2/offer.schema.json", { title: "Offer", type: "object" });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should remove outputs of deleted schemas and empty directories", async () => {
+    await toTypes(config);
+    expect(fs.existsSync(path.join(outputDir, MANIFEST_FILE_NAME))).toBe(true);
+
+    fs.rmSync(path.join(inputDir, "v2"), { recursive: true });
+    const result = await toTypes(config);
+
+    expect(result.deletedFiles).toEqual([
+      path.join(outputDir, "v2", "offer.d.ts"),
+    ]);
+    expect(fs.existsSync(path.join(outputDir, "v2"))).toBe(false);
+    expect(fs.existsSync(path.join(outputDir, "user.d.ts"))).toBe(true);
+  });
+
+  it("should remove the old output of a renamed schema", async () => {
+    await toTypes(config);
+
+    fs.renameSync(
+      path.join(inputDir, "user.json"),
+      path.join(inputDir, "account.json"),
+    );
+    const result = await toTypes(config);
+
+    expect(result.deletedFiles).toEqual([path.join(outputDir, "user.d.ts")]);
+    expect(fs.existsSync(path.join(outputDir, "account.d.ts"))).toBe(true);
+  });
+
+  it("should never remove hand-written or hand-edited files", async () => {
+    const handWritten = path.join(outputDir, "v2", "helpers.d.ts");
+    await toTypes(config);
+    fs.writeFileSync(handWritten, "export type Id = string;\n");
+    fs.appendFileSync(path.join(outputDir, "user.d.ts"), "// edited\n");
+
+    fs.rmSync(path.join(inputDir, "user.json"));
+    fs.rmSync(path.join(inputDir, "v2"), { recursive: true });
+    const result = await toTypes(config);
+
+    expect(result.deletedFiles).toEqual([
+      path.join(outputDir, "v2", "offer.d.ts"),
+    ]);
+    expect(fs.existsSync(handWritten)).toBe(true);
+    expect(fs.existsSync(path.join(outputDir, "user.d.ts"))).toBe(true);
+  });
+
+  it("should keep the output of a schema that fails to convert", async () => {
+    await toTypes(config);
+
+    writeSchema("user.json", "{ broken");
+    await toTypes(config);
+    writeSchema("user.json", { title: "User", type: "object" });
+    fs.rmSync(path.join(inputDir, "v2"), { recursive: true });
+    const result = await toTypes(config);
+
+    expect(fs.existsSync(path.join(outputDir, "user.d.ts"))).toBe(true);
+    expect(result.deletedFiles).toEqual([
+      path.join(outputDir, "v2", "offer.d.ts"),
+    ]);
+  });
+
+  it("should keep ownership of cached outputs in incremental mode", async () => {
+    const incrementalConfig = { ...config, incremental: true };
+    await toTypes(incrementalConfig);
+    const cached = await toTypes(incrementalConfig);
+    expect(cached.totals.byStatus.cached).toBe(2);
+
+    fs.rmSync(path.join(inputDir, "user.json"));
+    const result = await toTypes(incrementalConfig);
+
+    expect(result.deletedFiles).toEqual([path.join(outputDir, "user.d.ts")]);
+  });
+
+  it("should not track or remove anything without the option", async () => {
+    await toTypes({ ...config, clean: false });
+    expect(fs.existsSync(path.join(outputDir, MANIFEST_FILE_NAME))).toBe(false);
+
+    fs.rmSync(path.join(inputDir, "user.json"));
+    const result = await toTypes(config);
+
+    expect(result.deletedFiles).toEqual([]);
+    expect(fs.existsSync(path.join(outputDir, "user.d.ts"))).toBe(true);
+  });
+});
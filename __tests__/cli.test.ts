@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { parseCliArgs, runCli, CliUsageError, EXIT_CODES } from "../src/cli";
+
+/**
+ * Collects everything written to it, for asserting on CLI output.
+ */
+const createOutput = () => {
+  let text = "";
+  return {
+    write: (chunk: string) => {
+      text += chunk;
+    },
+    text: () => text,
+  };
+};
+
+describe("CLI", () => {
+  describe("parseCliArgs", () => {
+    it("should default to the generate command", () => {
+      const args = parseCliArgs(["--input", "schemas", "--output", "types"]);
+
+      expect(args).toEqual({
+        command: "generate",
+        config: undefined,
+        input: ["schemas"],
+        output: "types",
+        include: [],
+        exclude: [],
+        ignoreFile: undefined,
+        exportsFormat: undefined,
+        target: undefined,
+        outputPath: undefined,
+        fileNameCase: undefined,
+        flatten: false,
+        header: false,
+        check: false,
+        incremental: false,
+        barrels: false,
+        bundle: undefined,
+        clean: false,
+        strict: false,
+        failFast: false,
+        concurrency: undefined,
+        watch: false,
+        debounceMs: undefined,
+        logLevel: undefined,
+      });
+    });
+
+    it("should parse watch mode options", () => {
+      const args = parseCliArgs(["-w", "--debounce", "250"]);
+
+      expect(args.watch).toBe(true);
+      expect(args.debounceMs).toBe(250);
+      expect(() => parseCliArgs(["--debounce", "soon"])).toThrow(CliUsageError);
+    });
+
+    it("should parse the concurrency", () => {
+      expect(parseCliArgs(["-j", "4"]).concurrency).toBe(4);
+      expect(() => parseCliArgs(["--concurrency", "0"])).toThrow(CliUsageError);
+    });
+
+    it("should parse the output path options", () => {
+      const args = parseCliArgs([
+        "--output-path",
+        "{name}.types.d.ts",
+        "--file-name-case",
+        "kebab",
+        "--flatten",
+      ]);
+
+      expect(args.outputPath).toBe("{name}.types.d.ts");
+      expect(args.fileNameCase).toBe("kebab");
+      expect(args.flatten).toBe(true);
+      expect(parseCliArgs(["-t", ".ts"]).target).toBe("ts");
+      expect(() => parseCliArgs(["--target", "mjs"])).toThrow(CliUsageError);
+      expect(() => parseCliArgs(["--file-name-case", "upper"])).toThrow(
+        CliUsageError,
+      );
+    });
+
+    it("should accept aliases, inline values and an explicit command", () => {
+      const args = parseCliArgs([
+        "generate",
+        "-i",
+        "schemas",
+        "--output=types",
+        "-f",
+        "root-only",
+        "-q",
+      ]);
+
+      expect(args.input).toEqual(["schemas"]);
+      expect(args.output).toBe("types");
+      expect(args.exportsFormat).toBe("ROOT_ONLY");
+      expect(args.logLevel).toBe("error");
+    });
+
+    it("should accept the config-style exports format names", () => {
+      expect(
+        parseCliArgs(["--exports-format", "UNIQUE_EXPORTS"]).exportsFormat,
+      ).toBe("UNIQUE_EXPORTS");
+    });
+
+    it("should map --verbose to debug logging", () => {
+      expect(parseCliArgs(["--verbose"]).logLevel).toBe("debug");
+    });
+
+    it("should let --help and --version override the command", () => {
+      expect(parseCliArgs(["generate", "--help"]).command).toBe("help");
+      expect(parseCliArgs(["-V"]).command).toBe("version");
+    });
+
+    it("should reject invalid usage", () => {
+      expect(() => parseCliArgs(["--nope"])).toThrow(CliUsageError);
+      expect(() => parseCliArgs(["build"])).toThrow(CliUsageError);
+      expect(() => parseCliArgs(["--input"])).toThrow(CliUsageError);
+      expect(() => parseCliArgs(["-f", "everything"])).toThrow(CliUsageError);
+      expect(() => parseCliArgs(["-qv"])).toThrow(CliUsageError);
+    });
+  });
+
+  describe("runCli", () => {
+    let tempDir: string;
+    let inputDir: string;
+    let outputDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-cli-"));
+      inputDir = path.join(tempDir, "schemas");
+      outputDir = path.join(tempDir, "types");
+      fs.mkdirSync(inputDir, { recursive: true });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should print help", async () => {
+      const stdout = createOutput();
+      const exitCode = await runCli({ argv: ["--help"], stdout });
+
+      expect(exitCode).toBe(EXIT_CODES.success);
+      expect(stdout.text()).toContain("Usage: json-schema-to-dts");
+      expect(stdout.text()).toContain("--exports-format <format>");
+    });
+
+    it("should generate types and exit with 0", async () => {
+      fs.writeFileSync(
+        path.join(inputDir, "user.schema.json"),
+        JSON.stringify({ title: "User", type: "object" }),
+      );
+
+      const exitCode = await runCli({
+        argv: ["-i", inputDir, "-o", outputDir, "-f", "root-only"],
+      });
+
+      expect(exitCode).toBe(EXIT_CODES.success);
+      const content = fs.readFileSync(
+        path.join(outputDir, "user.d.ts"),
+        "utf-8",
+      );
+      expect(content).toContain("export { User };");
+    });
+
+    it("should exit with 1 when a schema file fails", async () => {
+      fs.writeFileSync(path.join(inputDir, "broken.json"), "{ broken");
+      const stderr = createOutput();
+
+      const exitCode = await runCli({
+        argv: ["-i", inputDir, "-o", outputDir, "--quiet"],
+        stderr,
+      });
+
+      expect(exitCode).toBe(EXIT_CODES.generationFailed);
+      expect(stderr.text()).toContain("broken.json");
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it("should exit with 1 when --check finds stale files", async () => {
+      fs.writeFileSync(
+        path.join(inputDir, "user.schema.json"),
+        JSON.stringify({ title: "User", type: "object" }),
+      );
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(
+        await runCli({ argv: ["-i", inputDir, "-o", outputDir, "--check"] }),
+      ).toBe(EXIT_CODES.generationFailed);
+      expect(fs.existsSync(outputDir)).toBe(false);
+
+      await runCli({ argv: ["-i", inputDir, "-o", outputDir] });
+      expect(
+        await runCli({ argv: ["-i", inputDir, "-o", outputDir, "--check"] }),
+      ).toBe(EXIT_CODES.success);
+    });
+
+    it("should exit with 2 on usage errors", async () => {
+      const stderr = createOutput();
+
+      const exitCode = await runCli({
+        argv: ["-i", inputDir],
+        stderr,
+        cwd: tempDir,
+      });
+
+      expect(exitCode).toBe(EXIT_CODES.usageError);
+      expect(stderr.text()).toContain('"pathToOutputDirectory" is required');
+    });
+
+    it("should read options from a configuration file and let flags win", async () => {
+      fs.writeFileSync(
+        path.join(inputDir, "user.schema.json"),
+        JSON.stringify({ title: "User", type: "object" }),
+      );
+      fs.writeFileSync(
+        path.join(tempDir, "json-schema-to-dts.config.json"),
+        JSON.stringify({
+          pathToJsonSchemas: "schemas",
+          pathToOutputDirectory: "types",
+          generatedTypesExportsFormat: "ROOT_ONLY",
+        }),
+      );
+      const cwd = path.join(tempDir, "nested");
+      fs.mkdirSync(cwd);
+
+      expect(await runCli({ argv: ["-q"], cwd })).toBe(EXIT_CODES.success);
+      expect(fs.existsSync(path.join(outputDir, "user.d.ts"))).toBe(true);
+
+      const otherOutputDir = path.join(tempDir, "other");
+      expect(await runCli({ argv: ["-q", "-o", otherOutputDir], cwd })).toBe(
+        EXIT_CODES.success,
+      );
+      expect(fs.existsSync(path.join(otherOutputDir, "user.d.ts"))).toBe(true);
+    });
+
+    it("should exit with 2 on an invalid configuration file", async () => {
+      const configPath = path.join(tempDir, "codegen.json");
+      fs.writeFileSync(configPath, JSON.stringify({ strikt: true }));
+      const stderr = createOutput();
+
+      const exitCode = await runCli({
+        argv: ["--config", configPath],
+        stderr,
+      });
+
+      expect(exitCode).toBe(EXIT_CODES.usageError);
+      expect(stderr.text()).toContain('Did you mean "strict"?');
+    });
+
+    it("should exit with 2 when the input directory does not exist", async () => {
+      const stderr = createOutput();
+
+      const exitCode = await runCli({
+        argv: ["-i", path.join(tempDir, "missing"), "-o", outputDir],
+        stderr,
+      });
+
+      expect(exitCode).toBe(EXIT_CODES.usageError);
+      expect(stderr.text()).toContain("Input directory not found");
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { compileSchema } from "../src/index";
+import { JsonSchema } from "../src/types";
+
+describe("compileSchema", () => {
+  const userSchema: JsonSchema = {
+    title: "User",
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      address: { $ref: "#/definitions/Address" },
+    },
+    required: ["id"],
+    definitions: {
+      Address: {
+        type: "object",
+        properties: { city: { type: "string" } },
+      },
+    },
+  };
+
+  it("should return the full module text and type names", () => {
+    const result = compileSchema(userSchema);
+
+    expect(result.types[0]).toBe("User");
+    expect(result.types).toContain("Address");
+    expect(result.code).toContain("interface User {");
+    expect(result.code).toContain("interface Address {");
+    expect(result.code).toMatch(/export \{[\s\S]*\bAddress\b[\s\S]*\};\n$/);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it("should honour the exports format", () => {
+    const result = compileSchema(userSchema, {
+      generatedTypesExportsFormat: "ROOT_ONLY",
+    });
+
+    expect(result.code).toContain("export { User };");
+    expect(result.code).not.toMatch(/export \{[^}]*Address/);
+  });
+
+  it("should report unresolved and external references", () => {
+    const result = compileSchema({
+      title: "Order",
+      type: "object",
+      properties: {
+        customer: { $ref: "#/definitions/Customer" },
+        address: { $ref: "./address.json#/definitions/Address" },
+      },
+    });
+
+    const codes = result.diagnostics.map((diagnostic) => diagnostic.code);
+    expect(codes).toContain("unresolved-ref");
+    expect(codes).toContain("external-ref");
+    expect(
+      result.diagnostics.find((d) => d.code === "unresolved-ref")?.pointer,
+    ).toBe("#/definitions/Customer");
+  });
+
+  it("should return empty code when the schema has no named types", () => {
+    const result = compileSchema({ type: "string" });
+
+    expect(result.code).toBe("");
+    expect(result.types).toEqual([]);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: "no-types", severity: "info" }),
+    ]);
+  });
+});
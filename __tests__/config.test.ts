@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { ConfigError, findConfigFile, loadConfig, toTypes } from "../src/index";
+
+describe("Configuration files", () => {
+  let tempDir: string;
+
+  const writeFile = (relativePath: string, content: unknown): string => {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(
+      filePath,
+      typeof content === "string" ? content : JSON.stringify(content),
+    );
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-config-"));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("findConfigFile", () => {
+    it("should search upward from the given directory", () => {
+      const configPath = writeFile("json-schema-to-dts.config.json", {});
+      fs.mkdirSync(path.join(tempDir, "packages", "api"), { recursive: true });
+
+      expect(findConfigFile(path.join(tempDir, "packages", "api"))).toBe(
+        configPath,
+      );
+    });
+
+    it("should prefer a dedicated file over package.json, in the same directory", () => {
+      writeFile("package.json", { "json-schema-to-dts": {} });
+      const nestedPackage = writeFile("packages/api/package.json", {
+        "json-schema-to-dts": {},
+      });
+      writeFile("packages/package.json", { name: "no-config" });
+
+      expect(findConfigFile(path.join(tempDir, "packages", "api"))).toBe(
+        nestedPackage,
+      );
+      expect(findConfigFile(path.join(tempDir, "packages"))).toBe(
+        path.join(tempDir, "package.json"),
+      );
+
+      const configPath = writeFile(
+        "packages/api/json-schema-to-dts.config.cjs",
+        "",
+      );
+      expect(findConfigFile(path.join(tempDir, "packages", "api"))).toBe(
+        configPath,
+      );
+    });
+  });
+
+  describe("loadConfig", () => {
+    it("should resolve paths relative to the configuration file", async () => {
+      const configPath = writeFile("json-schema-to-dts.config.json", {
+        pathToJsonSchemas: ["schemas", "vendor/schemas"],
+        pathToOutputDirectory: "types",
+      });
+
+      const { config, filePath } = await loadConfig({
+        cwd: path.join(tempDir, "nested"),
+      });
+
+      expect(filePath).toBe(configPath);
+      expect(config).toEqual({
+        pathToJsonSchemas: [
+          path.join(tempDir, "schemas"),
+          path.join(tempDir, "vendor", "schemas"),
+        ],
+        pathToOutputDirectory: path.join(tempDir, "types"),
+        generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+      });
+    });
+
+    it("should read the package.json key", async () => {
+      writeFile("package.json", {
+        name: "app",
+        "json-schema-to-dts": {
+          pathToJsonSchemas: "schemas",
+          pathToOutputDirectory: "types",
+          strict: true,
+        },
+      });
+
+      const { config } = await loadConfig({ cwd: tempDir });
+
+      expect(config.strict).toBe(true);
+      expect(config.pathToOutputDirectory).toBe(path.join(tempDir, "types"));
+    });
+
+    it("should load CommonJS configuration files", async () => {
+      writeFile(
+        "json-schema-to-dts.config.cjs",
+        `module.exports = { pathToJsonSchemas: "schemas", pathToOutputDirectory: "types", incremental: true };`,
+      );
+
+      const { config } = await loadConfig({ cwd: tempDir });
+
+      expect(config.incremental).toBe(true);
+    });
+
+    it("should let overrides win, ignoring undefined values", async () => {
+      writeFile("json-schema-to-dts.config.json", {
+        pathToJsonSchemas: "schemas",
+        pathToOutputDirectory: "types",
+        generatedTypesExportsFormat: "ROOT_ONLY",
+        check: true,
+      });
+
+      const { config } = await loadConfig({
+        cwd: tempDir,
+        overrides: {
+          pathToOutputDirectory: "/elsewhere",
+          check: undefined,
+          strict: true,
+        },
+      });
+
+      expect(config.pathToOutputDirectory).toBe("/elsewhere");
+      expect(config.generatedTypesExportsFormat).toBe("ROOT_ONLY");
+      expect(config.check).toBe(true);
+      expect(config.strict).toBe(true);
+    });
+
+    it("should skip the search when configFile is false", async () => {
+      writeFile("json-schema-to-dts.config.json", { strict: true });
+
+      const { config, filePath } = await loadConfig({
+        cwd: tempDir,
+        configFile: false,
+        overrides: { pathToJsonSchemas: "a", pathToOutputDirectory: "b" },
+      });
+
+      expect(filePath).toBeNull();
+      expect(config.strict).toBeUndefined();
+    });
+
+    it("should report every problem at once", async () => {
+      const configPath = writeFile("codegen.json", {
+        pathToJsonSchemas: 42,
+        generatedTypesExportFormat: "ROOT_ONLY",
+        errorPolicy: "ignore",
+        overrides: [{ strict: "yes" }, { files: ["legacy/**"], colour: 1 }],
+      });
+
+      const error = await loadConfig({
+        cwd: tempDir,
+        configFile: "codegen.json",
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConfigError);
+      expect(error.filePath).toBe(configPath);
+      expect(error.issues).toEqual([
+        '"pathToJsonSchemas" must be a directory path or a non-empty array of directory paths, got 42',
+        'Unknown option "generatedTypesExportFormat". Did you mean "generatedTypesExportsFormat"?',
+        '"errorPolicy" must be one of "warn", "collect", "failFast", got "ignore"',
+        '"overrides[0].files" is required',
+        '"overrides[0].strict" must be a boolean, got "yes"',
+        'Unknown option "overrides[1].colour"',
+      ]);
+      expect(error.message).toContain(`Invalid configuration in ${configPath}`);
+    });
+
+    it("should report syntax errors and missing required options", async () => {
+      writeFile("json-schema-to-dts.config.json", "{ nope");
+
+      await expect(loadConfig({ cwd: tempDir })).rejects.toThrow(ConfigError);
+      await expect(
+        loadConfig({ cwd: tempDir, configFile: "missing.json" }),
+      ).rejects.toThrow("File not found");
+      await expect(
+        loadConfig({
+          cwd: tempDir,
+          configFile: false,
+          overrides: { pathToJsonSchemas: "schemas" },
+        }),
+      ).rejects.toThrow('"pathToOutputDirectory" is required');
+    });
+  });
+
+  describe("overrides", () => {
+    it("should apply per-glob options, later overrides winning", async () => {
+      const schema = {
+        title: "Order",
+        type: "object",
+        properties: { item: { type: "object", properties: {} } },
+      };
+      writeFile("schemas/api/order.json", schema);
+      writeFile("schemas/legacy/order.json", schema);
+      writeFile("schemas/legacy/keep/order.json", schema);
+      writeFile("json-schema-to-dts.config.json", {
+        pathToJsonSchemas: "schemas",
+        pathToOutputDirectory: "types",
+        overrides: [
+          { files: ["legacy/**"], generatedTypesExportsFormat: "ROOT_ONLY" },
+          {
+            files: ["legacy/keep/*.json"],
+            generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+          },
+        ],
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const { config } = await loadConfig({ cwd: tempDir });
+      const result = await toTypes(config);
+
+      const exportsByFile = Object.fromEntries(
+        result.files.map((file) => [file.schemaPath, file.exportedTypes]),
+      );
+      expect(exportsByFile).toEqual({
+        [path.join("api", "order.json")]: ["Order", "OrderItem"],
+        [path.join("legacy", "keep", "order.json")]: ["Order", "OrderItem"],
+        [path.join("legacy", "order.json")]: ["Order"],
+      });
+    });
+  });
+});
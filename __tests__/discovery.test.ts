@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { toTypes } from "../src/index";
+import { createIgnoreMatcher, findSchemaFiles } from "../src/pipeline";
+
+describe("Schema Discovery", () => {
+  describe("createIgnoreMatcher", () => {
+    it("should match unanchored patterns at any depth", () => {
+      const isIgnored = createIgnoreMatcher("*.example.json\n# comment\n");
+
+      expect(isIgnored("order.example.json")).toBe(true);
+      expect(isIgnored("api/v2/order.example.json")).toBe(true);
+      expect(isIgnored("api/order.json")).toBe(false);
+    });
+
+    it("should anchor patterns containing a slash", () => {
+      const isIgnored = createIgnoreMatcher("/drafts\napi/*.json");
+
+      expect(isIgnored("drafts/user.json")).toBe(true);
+      expect(isIgnored("api/drafts/user.json")).toBe(false);
+      expect(isIgnored("api/user.json")).toBe(true);
+      expect(isIgnored("api/v2/user.json")).toBe(false);
+    });
+
+    it("should support directory-only patterns, ** and negation", () => {
+      const isIgnored = createIgnoreMatcher(
+        "fixtures/\n**/legacy/**\n*.json\n!*.schema.json",
+      );
+
+      expect(isIgnored("fixtures/user.schema.json")).toBe(true);
+      expect(isIgnored("a/b/legacy/c/user.schema.json")).toBe(true);
+      expect(isIgnored("package.json")).toBe(true);
+      expect(isIgnored("api/user.schema.json")).toBe(false);
+      // "fixtures/" only matches directories
+      expect(createIgnoreMatcher("fixtures/")("fixtures")).toBe(false);
+    });
+  });
+
+  describe("findSchemaFiles", () => {
+    let tempDir: string;
+
+    const writeFile = (relativePath: string, content = "{}"): void => {
+      const filePath = path.join(tempDir, relativePath);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    };
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(
+        path.join(os.tmpdir(), "json-schema-discovery-"),
+      );
+      writeFile("main/package.json");
+      writeFile("main/user.schema.json");
+      writeFile("main/fixtures/user.schema.json");
+      writeFile("main/api/order.schema.json");
+      writeFile("main/api/order.example.json");
+      writeFile("shared/api/order.schema.json");
+      writeFile("shared/address.schema.json");
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    const relativePaths = (files: { relativePath: string }[]) =>
+      files.map(({ relativePath }) => relativePath);
+
+    it("should find every .json file by default", async () => {
+      const files = await findSchemaFiles({
+        roots: [path.join(tempDir, "main")],
+      });
+
+      expect(relativePaths(files)).toEqual([
+        "api/order.example.json",
+        "api/order.schema.json",
+        "fixtures/user.schema.json",
+        "package.json",
+        "user.schema.json",
+      ]);
+    });
+
+    it("should apply include and exclude patterns", async () => {
+      const files = await findSchemaFiles({
+        roots: [path.join(tempDir, "main")],
+        include: ["**/*.schema.json"],
+        exclude: ["fixtures/**"],
+      });
+
+      expect(relativePaths(files)).toEqual([
+        "api/order.schema.json",
+        "user.schema.json",
+      ]);
+    });
+
+    it("should honour the ignore file", async () => {
+      writeFile("main/.json-schema-to-dts-ignore", "fixtures/\n*.example.json");
+
+      const files = await findSchemaFiles({
+        roots: [path.join(tempDir, "main")],
+      });
+      expect(relativePaths(files)).toEqual([
+        "api/order.schema.json",
+        "package.json",
+        "user.schema.json",
+      ]);
+
+      const unfiltered = await findSchemaFiles({
+        roots: [path.join(tempDir, "main")],
+        ignoreFile: false,
+      });
+      expect(unfiltered).toHaveLength(5);
+    });
+
+    it("should merge multiple roots with earlier roots taking precedence", async () => {
+      const main = path.join(tempDir, "main");
+      const shared = path.join(tempDir, "shared");
+
+      const files = await findSchemaFiles({
+        roots: [main, shared],
+        include: ["**/*.schema.json"],
+        exclude: ["fixtures/**"],
+      });
+
+      expect(files).toEqual([
+        { root: shared, relativePath: "address.schema.json" },
+        { root: main, relativePath: "api/order.schema.json" },
+        { root: main, relativePath: "user.schema.json" },
+      ]);
+    });
+
+    it("should generate types from every root into one output directory", async () => {
+      writeFile(
+        "shared/address.schema.json",
+        JSON.stringify({ title: "Address", type: "object" }),
+      );
+      writeFile(
+        "main/user.schema.json",
+        JSON.stringify({ title: "User", type: "object" }),
+      );
+      const outputDir = path.join(tempDir, "types");
+
+      const result = await toTypes({
+        pathToJsonSchemas: [
+          path.join(tempDir, "main"),
+          path.join(tempDir, "shared"),
+        ],
+        pathToOutputDirectory: outputDir,
+        generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+        include: ["*.schema.json"],
+        logLevel: "silent",
+      });
+
+      expect(result.files.map((file) => file.schemaPath)).toEqual([
+        "address.schema.json",
+        "user.schema.json",
+      ]);
+      expect(fs.existsSync(path.join(outputDir, "address.d.ts"))).toBe(true);
+      expect(fs.existsSync(path.join(outputDir, "user.d.ts"))).toBe(true);
+    });
+  });
+});
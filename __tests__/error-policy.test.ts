@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  toTypes,
+  ErrorPolicy,
+  GenerationFailedError,
+  SchemaParseError,
+} from "../src/index";
+
+describe("Error Policy", () => {
+  let tempDir: string;
+  let inputDir: string;
+  let outputDir: string;
+
+  const runToTypes = (errorPolicy?: ErrorPolicy) =>
+    toTypes({
+      pathToJsonSchemas: inputDir,
+      pathToOutputDirectory: outputDir,
+      generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+      logLevel: "silent",
+      errorPolicy,
+    });
+
+  const catchError = async (errorPolicy: ErrorPolicy): Promise<unknown> => {
+    try {
+      await runToTypes(errorPolicy);
+    } catch (error) {
+      return error;
+    }
+    throw new Error("Expected toTypes to reject");
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-policy-"));
+    inputDir = path.join(tempDir, "schemas");
+    outputDir = path.join(tempDir, "types");
+    fs.mkdirSync(inputDir, { recursive: true });
+
+    fs.writeFileSync(path.join(inputDir, "a-broken.json"), "{ broken");
+    fs.writeFileSync(
+      path.join(inputDir, "b-user.json"),
+      JSON.stringify({ title: "User", type: "object" }),
+    );
+    fs.writeFileSync(path.join(inputDir, "c-broken.json"), "[");
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should resolve with the failures by default", async () => {
+    const result = await runToTypes();
+
+    expect(result.failedFiles.map((file) => file.schemaPath)).toEqual([
+      "a-broken.json",
+      "c-broken.json",
+    ]);
+    expect(fs.existsSync(path.join(outputDir, "b-user.d.ts"))).toBe(true);
+  });
+
+  it("should process every file and then reject when collecting", async () => {
+    const error = await catchError("collect");
+
+    expect(error).toBeInstanceOf(GenerationFailedError);
+    const { errors, failedFiles, result, message } =
+      error as GenerationFailedError;
+    expect(failedFiles.map((file) => file.schemaPath)).toEqual([
+      "a-broken.json",
+      "c-broken.json",
+    ]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBeInstanceOf(SchemaParseError);
+    expect(message).toContain("Failed to convert 2 schema file(s)");
+    expect(message).toContain("  c-broken.json: ");
+    expect(result.totals.byStatus.generated).toBe(1);
+    expect(fs.existsSync(path.join(outputDir, "b-user.d.ts"))).toBe(true);
+  });
+
+  it("should stop at the first failure when failing fast", async () => {
+    const error = await catchError("failFast");
+
+    expect(error).toBeInstanceOf(GenerationFailedError);
+    const { failedFiles, result } = error as GenerationFailedError;
+    expect(failedFiles.map((file) => file.schemaPath)).toEqual([
+      "a-broken.json",
+    ]);
+    expect(result.files).toHaveLength(1);
+    expect(fs.existsSync(path.join(outputDir, "b-user.d.ts"))).toBe(false);
+  });
+
+  it("should resolve when nothing fails", async () => {
+    fs.unlinkSync(path.join(inputDir, "a-broken.json"));
+    fs.unlinkSync(path.join(inputDir, "c-broken.json"));
+
+    const result = await runToTypes("collect");
+
+    expect(result.failedFiles).toEqual([]);
+  });
+});
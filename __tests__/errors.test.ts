@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  toTypes,
+  compileSchema,
+  SchemaParseError,
+  UnresolvedReferenceError,
+  UnsupportedKeywordError,
+  OutputWriteError,
+} from "../src/index";
+import { createCodeFrame, getSourceLocation } from "../src/utils";
+
+describe("Error Classes", () => {
+  describe("code frames", () => {
+    it("should convert offsets to lines and columns", () => {
+      expect(getSourceLocation('{\n  "a": }', 9)).toEqual({
+        line: 2,
+        column: 8,
+      });
+    });
+
+    it("should mark the line and column", () => {
+      const frame = createCodeFrame({
+        source: '{\n  "a": ,\n  "b": 1\n}',
+        location: { line: 2, column: 8 },
+      });
+
+      expect(frame).toBe(
+        [
+          "  1 | {",
+          '> 2 |   "a": ,',
+          "    |        ^",
+          '  3 |   "b": 1',
+          "  4 | }",
+        ].join("\n"),
+      );
+    });
+  });
+
+  describe("compileSchema in strict mode", () => {
+    it("should throw UnresolvedReferenceError with the referring pointer", () => {
+      const schema = {
+        title: "Order",
+        properties: { customer: { $ref: "#/definitions/Customer" } },
+      };
+
+      expect(() => compileSchema(schema)).not.toThrow();
+      try {
+        compileSchema(schema, { strict: true });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(UnresolvedReferenceError);
+        expect(error).toMatchObject({
+          ref: "#/definitions/Customer",
+          pointer: "#/properties/customer",
+        });
+      }
+    });
+
+    it("should report unsupported keywords as warnings or errors", () => {
+      const schema = {
+        title: "Value",
+        properties: { id: { not: { type: "null" } } },
+      };
+
+      expect(compileSchema(schema).diagnostics).toContainEqual(
+        expect.objectContaining({
+          code: "unsupported-keyword",
+          pointer: "#/properties/id",
+        }),
+      );
+      expect(() => compileSchema(schema, { strict: true })).toThrow(
+        UnsupportedKeywordError,
+      );
+    });
+  });
+
+  describe("toTypes", () => {
+    let tempDir: string;
+    let inputDir: string;
+    let outputDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-errors-"));
+      inputDir = path.join(tempDir, "schemas");
+      outputDir = path.join(tempDir, "types");
+      fs.mkdirSync(inputDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    const runToTypes = (strict = false) =>
+      toTypes({
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: outputDir,
+        generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+        logLevel: "silent",
+        strict,
+      });
+
+    it("should report invalid JSON with its location and a code frame", async () => {
+      fs.writeFileSync(
+        path.join(inputDir, "broken.json"),
+        '{\n  "title": "Broken",\n  "type": ,\n}',
+      );
+
+      const { failedFiles } = await runToTypes();
+      const error = failedFiles[0].error as SchemaParseError;
+
+      expect(error).toBeInstanceOf(SchemaParseError);
+      expect(error.schemaPath).toBe("broken.json");
+      expect(error.line).toBe(3);
+      expect(error.column).toBe(11);
+      expect(error.codeFrame).toContain('> 3 |   "type": ,');
+      expect(error.cause).toBeInstanceOf(SyntaxError);
+      expect(error.message).toMatch(/^Invalid JSON at line 3, column 11: /);
+    });
+
+    it("should fill in the schema path of compile errors", async () => {
+      fs.writeFileSync(
+        path.join(inputDir, "order.json"),
+        JSON.stringify({
+          title: "Order",
+          properties: { customer: { $ref: "#/definitions/Customer" } },
+        }),
+      );
+
+      const { failedFiles } = await runToTypes(true);
+
+      expect(failedFiles[0].error).toBeInstanceOf(UnresolvedReferenceError);
+      expect(failedFiles[0].error).toMatchObject({ schemaPath: "order.json" });
+    });
+
+    it("should wrap file system errors in OutputWriteError", async () => {
+      fs.writeFileSync(
+        path.join(inputDir, "user.json"),
+        JSON.stringify({ title: "User", type: "object" }),
+      );
+      // A directory where the output file should go makes the write fail
+      fs.mkdirSync(path.join(outputDir, "user.d.ts"), { recursive: true });
+
+      const { failedFiles } = await runToTypes();
+      const error = failedFiles[0].error as OutputWriteError;
+
+      expect(error).toBeInstanceOf(OutputWriteError);
+      expect(error.outputPath).toBe(path.join(outputDir, "user.d.ts"));
+      expect(error.schemaPath).toBe("user.json");
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { toTypes, Logger } from "../src/index";
+
+/**
+ * Creates a logger that records every message with its level.
+ */
+const createRecordingLogger = () => {
+  const messages: string[] = [];
+  const record =
+    (level: string) =>
+    (message: string): void => {
+      messages.push(`${level}: ${message}`);
+    };
+  const logger: Logger = {
+    debug: record("debug"),
+    info: record("info"),
+    warn: record("warn"),
+    error: record("error"),
+  };
+  return { logger, messages };
+};
+
+describe("Logger and Progress Events", () => {
+  let tempDir: string;
+  let inputDir: string;
+  let outputDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-events-"));
+    inputDir = path.join(tempDir, "schemas");
+    outputDir = path.join(tempDir, "types");
+    fs.mkdirSync(inputDir, { recursive: true });
+
+    fs.writeFileSync(path.join(inputDir, "broken.json"), "{ broken");
+    fs.writeFileSync(
+      path.join(inputDir, "user.json"),
+      JSON.stringify({ title: "User", type: "object" }),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should send messages to the configured logger instead of the console", async () => {
+    const consoleLog = vi.spyOn(console, "log").mockImplementation(() => {});
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { logger, messages } = createRecordingLogger();
+
+    await toTypes({
+      pathToJsonSchemas: inputDir,
+      pathToOutputDirectory: outputDir,
+      generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+      logger,
+    });
+
+    expect(messages).toContain(
+      `info: Generated: ${path.join(outputDir, "user.d.ts")}`,
+    );
+    expect(messages).toContain(
+      "warn: Failed to process schema file broken.json:",
+    );
+    expect(messages.some((message) => message.startsWith("debug:"))).toBe(
+      false,
+    );
+    expect(consoleLog).not.toHaveBeenCalled();
+    expect(consoleWarn).not.toHaveBeenCalled();
+  });
+
+  it("should apply the log level to the configured logger", async () => {
+    const { logger, messages } = createRecordingLogger();
+
+    await toTypes({
+      pathToJsonSchemas: inputDir,
+      pathToOutputDirectory: outputDir,
+      generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+      logger,
+      logLevel: "warn",
+    });
+
+    expect(messages).toEqual([
+      "warn: Failed to process schema file broken.json:",
+    ]);
+  });
+
+  it("should emit progress events in order", async () => {
+    const emitted: string[] = [];
+
+    const result = await toTypes({
+      pathToJsonSchemas: inputDir,
+      pathToOutputDirectory: outputDir,
+      generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+      logLevel: "silent",
+      events: {
+        fileStart: ({ schemaPath, index, total }) =>
+          emitted.push(`start ${schemaPath} ${index + 1}/${total}`),
+        fileGenerated: ({ file }) =>
+          emitted.push(`generated ${file.schemaPath} ${file.status}`),
+        fileFailed: ({ file, error }) =>
+          emitted.push(`failed ${file.schemaPath} ${(error as Error).name}`),
+        done: ({ result }) => emitted.push(`done ${result.totals.schemaFiles}`),
+      },
+    });
+
+    expect(emitted).toEqual([
+      "start broken.json 1/2",
+      "failed broken.json SchemaParseError",
+      "start user.json 2/2",
+      "generated user.json generated",
+      "done 2",
+    ]);
+    expect(result.files).toHaveLength(2);
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  compileSchema,
+  ExternalDocument,
+  toTypes,
+  ToTypesConfig,
+  UnresolvedReferenceError,
+} from "../src/index";
+import { JsonSchema } from "../src/types";
+
+const addressSchema: JsonSchema = {
+  title: "Address",
+  type: "object",
+  properties: { street: { type: "string" } },
+  definitions: { Country: { enum: ["NL", "DE"] } },
+};
+
+describe("References between schema files", () => {
+  describe("compileSchema with resolveDocument", () => {
+    const resolveDocument = (schemaPath: string): ExternalDocument | null =>
+      schemaPath === "common/address.json"
+        ? { schema: addressSchema, modulePath: "../common/address" }
+        : null;
+
+    it("should import the types named by the referenced document", () => {
+      const result = compileSchema(
+        {
+          title: "User",
+          type: "object",
+          properties: {
+            home: { $ref: "../common/address.json" },
+            work: { $ref: "../common/address.json#" },
+            country: { $ref: "../common/address.json#/definitions/Country" },
+          },
+        },
+        { schemaPath: "api/user.json", resolveDocument },
+      );
+
+      expect(result.diagnostics).toEqual([]);
+      expect(result.code).toMatch(
+        /^import type \{ Address, Country \} from "\.\.\/common\/address";\n\n/,
+      );
+      expect(result.code).toContain("type UserHome = Address\n");
+      expect(result.code).toContain("type UserWork = Address\n");
+      expect(result.code).toContain("type UserCountry = Country\n");
+      expect(result.types).not.toContain("Address");
+    });
+
+    it("should alias imported names that clash with local types", () => {
+      const result = compileSchema(
+        {
+          title: "User",
+          type: "object",
+          properties: {
+            home: { $ref: "../common/address.json" },
+            legacy: { $ref: "#/definitions/Address" },
+          },
+          definitions: { Address: { type: "string" } },
+        },
+        { schemaPath: "api/user.json", resolveDocument },
+      );
+
+      expect(result.code).toContain(
+        'import type { Address as Address_1 } from "../common/address";',
+      );
+      expect(result.code).toContain("type Address = string\n");
+      expect(result.code).toContain("type UserHome = Address_1\n");
+      expect(result.code).toContain("type UserLegacy = Address\n");
+    });
+
+    it("should emit references to files outside the run and undeclared URIs as unknown", () => {
+      const result = compileSchema(
+        {
+          title: "User",
+          type: "object",
+          properties: {
+            team: { $ref: "../common/team.json" },
+            owner: { $ref: "https://example.com/owner.json" },
+          },
+        },
+        { schemaPath: "api/user.json", resolveDocument },
+      );
+
+      expect(result.code).not.toContain("import type");
+      expect(result.code).toContain("type UserTeam = unknown\n");
+      expect(result.code).toContain("type UserOwner = unknown\n");
+      expect(result.diagnostics).toEqual([
+        {
+          severity: "warning",
+          code: "external-ref",
+          message:
+            'External reference "../common/team.json" is not resolved and is emitted as unknown',
+        },
+        {
+          severity: "warning",
+          code: "external-ref",
+          message:
+            'External reference "https://example.com/owner.json" is not resolved and is emitted as unknown',
+        },
+      ]);
+    });
+
+    it("should report references to types the document does not export", () => {
+      const schema: JsonSchema = {
+        title: "User",
+        type: "object",
+        properties: {
+          country: { $ref: "../common/address.json#/definitions/Country" },
+        },
+      };
+      const rootOnly = (schemaPath: string): ExternalDocument | null => {
+        const document = resolveDocument(schemaPath);
+        return (
+          document && { ...document, generatedTypesExportsFormat: "ROOT_ONLY" }
+        );
+      };
+
+      const result = compileSchema(schema, {
+        schemaPath: "api/user.json",
+        resolveDocument: rootOnly,
+      });
+
+      expect(result.code).not.toContain("import type");
+      expect(result.code).toContain("type UserCountry = unknown\n");
+      expect(result.diagnostics).toEqual([
+        {
+          severity: "warning",
+          code: "external-ref",
+          message:
+            'Reference "../common/address.json#/definitions/Country" does not point at a type exported by common/address.json, and is emitted as unknown',
+        },
+      ]);
+      expect(() =>
+        compileSchema(schema, {
+          schemaPath: "api/user.json",
+          resolveDocument: rootOnly,
+          strict: true,
+        }),
+      ).toThrow(UnresolvedReferenceError);
+    });
+  });
+
+  describe("toTypes with references between files", () => {
+    let tempDir: string;
+    let config: ToTypesConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-refs-"));
+      config = {
+        pathToJsonSchemas: path.join(tempDir, "schemas"),
+        pathToOutputDirectory: path.join(tempDir, "types"),
+        logLevel: "silent",
+      };
+      fs.mkdirSync(path.join(tempDir, "schemas", "api"), { recursive: true });
+      fs.mkdirSync(path.join(tempDir, "schemas", "common"), {
+        recursive: true,
+      });
+      fs.writeFileSync(
+        path.join(tempDir, "schemas", "common", "address.schema.json"),
+        JSON.stringify(addressSchema),
+      );
+      fs.writeFileSync(
+        path.join(tempDir, "schemas", "api", "user.json"),
+        JSON.stringify({
+          title: "User",
+          type: "object",
+          properties: {
+            address: { $ref: "../common/address.schema.json" },
+            manager: { $ref: "./missing.json" },
+          },
+        }),
+      );
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should import from the referenced file's output module", async () => {
+      const result = await toTypes({ ...config, target: "ts" });
+
+      const output = fs.readFileSync(
+        path.join(tempDir, "types", "api", "user.ts"),
+        "utf-8",
+      );
+      expect(output).toMatch(
+        /^import type \{ Address \} from "\.\.\/common\/address";\n/,
+      );
+      expect(output).toContain("type UserAddress = Address\n");
+      expect(output).toContain("type UserManager = unknown\n");
+      expect(result.files[0].diagnostics.map(({ code }) => code)).toEqual([
+        "external-ref",
+      ]);
+    });
+
+    it("should not name types a ROOT_ONLY module does not export", async () => {
+      fs.writeFileSync(
+        path.join(tempDir, "schemas", "api", "user.json"),
+        JSON.stringify({
+          title: "User",
+          type: "object",
+          properties: {
+            country: {
+              $ref: "../common/address.schema.json#/definitions/Country",
+            },
+          },
+        }),
+      );
+
+      const result = await toTypes({
+        ...config,
+        generatedTypesExportsFormat: "ROOT_ONLY",
+      });
+
+      const output = fs.readFileSync(
+        path.join(tempDir, "types", "api", "user.d.ts"),
+        "utf-8",
+      );
+      expect(output).not.toContain("import type");
+      expect(output).toContain("type UserCountry = unknown\n");
+      expect(result.files[0].diagnostics.map(({ code }) => code)).toEqual([
+        "external-ref",
+      ]);
+
+      const strictResult = await toTypes({
+        ...config,
+        generatedTypesExportsFormat: "ROOT_ONLY",
+        strict: true,
+      });
+      expect(strictResult.failedFiles[0].error).toBeInstanceOf(
+        UnresolvedReferenceError,
+      );
+    });
+
+    it("should follow the output paths of both files", async () => {
+      await toTypes({ ...config, flatten: true, fileNameCase: "kebab" });
+
+      const output = fs.readFileSync(
+        path.join(tempDir, "types", "user.d.ts"),
+        "utf-8",
+      );
+      expect(output).toContain('import type { Address } from "./address";');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { toTypes, ToTypesConfig } from "../src/index";
+import {
+  getPackageInfo,
+  hasGeneratedFileMarker,
+  hashContent,
+  renderHeader,
+} from "../src/pipeline";
+
+describe("Generated file header", () => {
+  describe("renderHeader", () => {
+    it("should name the generator, the source schema and its hash", () => {
+      const { name, version } = getPackageInfo();
+      const header = renderHeader({}, [
+        { schemaPath: "api/user.json", id: "https://x/user", hash: "abc" },
+      ]);
+
+      expect(header).toBe(
+        [
+          "/*",
+          ` * @generated by ${name} ${version}`,
+          " * DO NOT EDIT. Changes are overwritten when the file is regenerated; edit the source schema instead.",
+          " *",
+          " * Source: api/user.json",
+          " * $id: https://x/user",
+          " * Source hash: sha256:abc",
+          " */",
+          "",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should write pragmas and the license, and escape comment ends", () => {
+      const header = renderHeader({
+        banner: false,
+        version: false,
+        pragmas: ["/* eslint-disable */", "// @ts-nocheck"],
+        license: "Copyright */ Example\nSPDX-License-Identifier: MIT",
+      });
+
+      expect(header).toMatch(
+        /^\/\* eslint-disable \*\/\n\/\/ @ts-nocheck\n\/\*\n \* Copyright \*\\\/ Example\n \* SPDX-License-Identifier: MIT\n \*\n \* @generated by \S+\n \*\/\n\n$/,
+      );
+      expect(hasGeneratedFileMarker(header + "export {};\n")).toBe(true);
+    });
+
+    it("should only find the marker in the leading comments", () => {
+      expect(
+        hasGeneratedFileMarker(
+          'export const note = "@generated by hand";\n// @generated by x\n',
+        ),
+      ).toBe(false);
+    });
+
+    it("should not match the markers of other generators", () => {
+      expect(
+        hasGeneratedFileMarker("// @generated by protoc-gen-ts\nexport {};\n"),
+      ).toBe(false);
+      expect(
+        hasGeneratedFileMarker(
+          `// @generated by ${getPackageInfo().name}-plugin\nexport {};\n`,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("toTypes with a header", () => {
+    let tempDir: string;
+    let outputDir: string;
+    let config: ToTypesConfig;
+    const schemaContent = JSON.stringify({
+      $id: "https://example.com/user",
+      title: "User",
+      type: "object",
+    });
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-header-"));
+      const inputDir = path.join(tempDir, "schemas");
+      outputDir = path.join(tempDir, "types");
+      fs.mkdirSync(inputDir, { recursive: true });
+      fs.writeFileSync(path.join(inputDir, "user.json"), schemaContent);
+      config = {
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: outputDir,
+        header: true,
+        logLevel: "silent",
+      };
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should start outputs and barrels with the header", async () => {
+      await toTypes({ ...config, barrels: true });
+
+      const output = fs.readFileSync(
+        path.join(outputDir, "user.d.ts"),
+        "utf-8",
+      );
+      expect(output).toContain(" * Source: user.json\n");
+      expect(output).toContain(" * $id: https://example.com/user\n");
+      expect(output).toContain(
+        ` * Source hash: sha256:${hashContent(schemaContent)}\n`,
+      );
+      expect(output).toMatch(/ \*\/\n\n\/\*\*\n \* User\n/);
+
+      const barrel = fs.readFileSync(
+        path.join(outputDir, "index.d.ts"),
+        "utf-8",
+      );
+      expect(hasGeneratedFileMarker(barrel)).toBe(true);
+      expect(barrel).not.toContain("Source:");
+    });
+
+    it("should only report marked files as extra in check mode", async () => {
+      await toTypes(config);
+      fs.writeFileSync(
+        path.join(outputDir, "manual.d.ts"),
+        "export type Manual = string;\n",
+      );
+      const stalePath = path.join(outputDir, "stale.ts");
+      fs.writeFileSync(stalePath, renderHeader({}) + "export {};\n");
+
+      const result = await toTypes({ ...config, check: true });
+
+      expect(result.check?.extraFiles).toEqual([stalePath]);
+    });
+
+    it("should clean marked files the manifest does not list", async () => {
+      fs.mkdirSync(path.join(outputDir, "old"), { recursive: true });
+      const orphanPath = path.join(outputDir, "old", "order.d.ts");
+      fs.writeFileSync(orphanPath, renderHeader({}) + "export {};\n");
+      const manualPath = path.join(outputDir, "manual.d.ts");
+      fs.writeFileSync(manualPath, "export type Manual = string;\n");
+      const protoPath = path.join(outputDir, "user_pb.d.ts");
+      fs.writeFileSync(
+        protoPath,
+        "// @generated by protoc-gen-ts\nexport type UserMessage = {};\n",
+      );
+
+      const result = await toTypes({ ...config, clean: true });
+
+      expect(result.deletedFiles).toEqual([orphanPath]);
+      expect(fs.existsSync(path.join(outputDir, "old"))).toBe(false);
+      expect(fs.existsSync(manualPath)).toBe(true);
+      expect(fs.existsSync(protoPath)).toBe(true);
+      expect(fs.existsSync(path.join(outputDir, "user.d.ts"))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { toTypes, ToTypesConfig } from "../src/index";
+import { MANIFEST_FILE_NAME } from "../src/pipeline";
+
+describe("Incremental Builds", () => {
+  let tempDir: string;
+  let inputDir: string;
+  let outputDir: string;
+  let config: ToTypesConfig;
+
+  const writeSchema = (name: string, schema: object): void => {
+    fs.writeFileSync(path.join(inputDir, name), JSON.stringify(schema));
+  };
+
+  /**
+   * Backdates a file so a rewrite would be visible in its modification time.
+   */
+  const backdate = (filePath: string): number => {
+    const past = new Date(Date.now() - 60_000);
+    fs.utimesSync(filePath, past, past);
+    return fs.statSync(filePath).mtimeMs;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-incr-"));
+    inputDir = path.join(tempDir, "schemas");
+    outputDir = path.join(tempDir, "types");
+    fs.mkdirSync(inputDir, { recursive: true });
+    config = {
+      pathToJsonSchemas: inputDir,
+      pathToOutputDirectory: outputDir,
+      generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+      incremental: true,
+      logLevel: "silent",
+    };
+
+    writeSchema("address.json", {
+      definitions: { Address: { type: "object" } },
+    });
+    writeSchema("user.json", {
+      title: "User",
+      type: "object",
+      properties: { address: { $ref: "./address.json#/definitions/Address" } },
+    });
+    writeSchema("product.json", { title: "Product", type: "object" });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should write a manifest and skip unchanged schemas on the next run", async () => {
+    const first = await toTypes(config);
+    expect(first.generatedFiles).toHaveLength(3);
+
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(outputDir, MANIFEST_FILE_NAME), "utf-8"),
+    );
+    expect(Object.keys(manifest.files)).toEqual([
+      "address.json",
+      "product.json",
+      "user.json",
+    ]);
+    expect(manifest.files["user.json"].dependencies).toHaveProperty(
+      "address.json",
+    );
+    expect(manifest.files["product.json"].outputFile).toBe("product.d.ts");
+
+    const second = await toTypes(config);
+    expect(second.generatedFiles).toEqual([]);
+    expect(second.unchangedFiles).toHaveLength(3);
+  });
+
+  it("should regenerate a schema when a file it references changes", async () => {
+    await toTypes(config);
+
+    writeSchema("address.json", {
+      definitions: {
+        Address: { type: "object", properties: { city: { type: "string" } } },
+      },
+    });
+    const userOutput = path.join(outputDir, "user.d.ts");
+    const userMtime = backdate(userOutput);
+
+    const result = await toTypes(config);
+
+    expect(result.generatedFiles).toEqual([
+      path.join(outputDir, "address.d.ts"),
+    ]);
+    // user.json was reprocessed, but its output is byte-identical so it is not rewritten
+    expect(result.unchangedFiles).toContain(userOutput);
+    expect(fs.statSync(userOutput).mtimeMs).toBe(userMtime);
+  });
+
+  it("should regenerate everything when the options change", async () => {
+    await toTypes(config);
+
+    const result = await toTypes({
+      ...config,
+      generatedTypesExportsFormat: "ROOT_ONLY",
+    });
+
+    expect(result.generatedFiles).toHaveLength(3);
+    expect(
+      fs.readFileSync(path.join(outputDir, "product.d.ts"), "utf-8"),
+    ).toContain("export { Product };");
+  });
+
+  it("should regenerate outputs when a mapper's captured value changes", async () => {
+    const createMapper =
+      (prefix: string): ToTypesConfig["outputPath"] =>
+      ({ name, ext }) =>
+        `${prefix}/${name}${ext}`;
+    await toTypes({ ...config, outputPath: createMapper("v1") });
+
+    const result = await toTypes({ ...config, outputPath: createMapper("v2") });
+
+    expect(result.generatedFiles).toHaveLength(3);
+    expect(fs.existsSync(path.join(outputDir, "v2", "product.d.ts"))).toBe(
+      true,
+    );
+  });
+
+  it("should regenerate a schema once a file declares the URI it references", async () => {
+    writeSchema("order.json", {
+      title: "Order",
+      type: "object",
+      properties: { customer: { $ref: "https://example.com/customer.json" } },
+    });
+    await toTypes(config);
+
+    writeSchema("customer.json", {
+      $id: "https://example.com/customer.json",
+      title: "Customer",
+      type: "object",
+    });
+    const result = await toTypes(config);
+
+    expect(result.generatedFiles).toEqual([
+      path.join(outputDir, "customer.d.ts"),
+      path.join(outputDir, "order.d.ts"),
+    ]);
+    expect(
+      fs.readFileSync(path.join(outputDir, "order.d.ts"), "utf-8"),
+    ).toContain('import type { Customer } from "./customer";');
+  });
+
+  it("should regenerate a schema whose output was deleted", async () => {
+    await toTypes(config);
+    fs.unlinkSync(path.join(outputDir, "product.d.ts"));
+
+    const result = await toTypes(config);
+
+    expect(result.generatedFiles).toEqual([
+      path.join(outputDir, "product.d.ts"),
+    ]);
+  });
+
+  it("should never rewrite byte-identical outputs, even when not incremental", async () => {
+    const nonIncremental = { ...config, incremental: false };
+    await toTypes(nonIncremental);
+    const productOutput = path.join(outputDir, "product.d.ts");
+    const productMtime = backdate(productOutput);
+
+    const result = await toTypes(nonIncremental);
+
+    expect(result.generatedFiles).toEqual([]);
+    expect(fs.statSync(productOutput).mtimeMs).toBe(productMtime);
+    expect(fs.existsSync(path.join(outputDir, MANIFEST_FILE_NAME))).toBe(false);
+  });
+});
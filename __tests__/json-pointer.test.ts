@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import * as ts from "typescript";
+import { compileBundle, compileSchema } from "../src/index";
+import {
+  appendPointer,
+  compilePointer,
+  escapePointerToken,
+  normalizePointer,
+  parsePointer,
+  resolvePointer,
+  resolveRef,
+} from "../src/resolution";
+import { JsonSchema } from "../src/types";
+
+const schema: JsonSchema = {
+  title: "Config",
+  type: "object",
+  properties: {
+    "a/b": { $ref: "#/definitions/a~1b" },
+    "~tilde": { $ref: "#/definitions/~0tilde" },
+    "has space": { $ref: "#/definitions/has%20space" },
+    constructor: { type: "string" },
+  },
+  definitions: {
+    "a/b": { type: "object", properties: { id: { type: "string" } } },
+    "~tilde": { type: "object", properties: { id: { type: "number" } } },
+    "has space": { enum: ["x", "y"] },
+  },
+};
+
+/**
+ * Type-checks generated code, returning the messages of its errors.
+ */
+const getTypeErrors = (code: string): string[] => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-pointer-tsc-"));
+  try {
+    const filePath = path.join(tempDir, "config.ts");
+    fs.writeFileSync(filePath, code);
+    const program = ts.createProgram([filePath], {
+      noEmit: true,
+      strict: true,
+      lib: ["lib.es2020.d.ts"],
+      skipLibCheck: true,
+      types: [],
+    });
+    return ts
+      .getPreEmitDiagnostics(program)
+      .map(({ messageText }) =>
+        ts.flattenDiagnosticMessageText(messageText, "\n"),
+      );
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+};
+
+describe("JSON Pointer", () => {
+  it("should escape and parse reference tokens", () => {
+    expect(escapePointerToken("~a/b")).toBe("~0a~1b");
+    expect(parsePointer("#/definitions/a~1b/~01/has%20space")).toEqual([
+      "definitions",
+      "a/b",
+      "~1",
+      "has space",
+    ]);
+    expect(parsePointer("#")).toEqual([]);
+    expect(parsePointer("#/")).toEqual([""]);
+    expect(parsePointer("#user")).toBeNull();
+    expect(parsePointer("user.json")).toBeNull();
+  });
+
+  it("should compile canonical pointers", () => {
+    expect(compilePointer(["properties", "a/b", "~tilde", "50%"])).toBe(
+      "#/properties/a~1b/~0tilde/50%25",
+    );
+    expect(appendPointer("#/$defs", "has space", 0)).toBe(
+      "#/$defs/has%20space/0",
+    );
+    expect(normalizePointer("#/definitions/has space")).toBe(
+      normalizePointer("#/definitions/has%20space"),
+    );
+    expect(normalizePointer("#anchor")).toBe("#anchor");
+  });
+
+  it("should resolve escaped tokens and own properties only", () => {
+    expect(
+      resolvePointer({ root: schema, pointer: "#/definitions/a~1b" }),
+    ).toBe(schema.definitions!["a/b"]);
+    expect(
+      resolvePointer({ root: schema, pointer: "#/definitions/has%20space" }),
+    ).toBe(schema.definitions!["has space"]);
+    expect(
+      resolvePointer({ root: schema, pointer: "#/definitions/constructor" }),
+    ).toBeNull();
+    expect(
+      resolvePointer({ root: { anyOf: [{}] }, pointer: "#/anyOf/01" }),
+    ).toBeNull();
+    expect(
+      resolveRef({ ref: "#/definitions/~0tilde", rootSchema: schema }),
+    ).toBe(schema.definitions!["~tilde"]);
+    expect(resolveRef({ ref: "#/$defs/toString", rootSchema: schema })).toEqual(
+      {},
+    );
+  });
+
+  it("should name and resolve definitions with escaped keys", () => {
+    const result = compileSchema(schema);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.types).toEqual(
+      expect.arrayContaining(["AB", "Tilde", "HasSpace", "ConfigConstructor"]),
+    );
+    expect(result.code).toContain(
+      [
+        "interface Config {",
+        '  "a/b"?: ConfigAB;',
+        '  "~tilde"?: ConfigTilde;',
+        '  "has space"?: ConfigHasSpace;',
+        "  constructor?: ConfigConstructor;",
+        "}",
+      ].join("\n"),
+    );
+    expect(result.code).toContain("type ConfigAB = AB\n");
+    expect(result.code).toContain("type ConfigTilde = Tilde\n");
+    expect(result.code).toContain("type ConfigHasSpace = HasSpace\n");
+    expect(result.code).toContain("type ConfigConstructor = string\n");
+    expect(getTypeErrors(result.code)).toEqual([]);
+  });
+
+  it("should bundle references to definitions with escaped keys", () => {
+    const { code, documents } = compileBundle([
+      { id: "config.json", schema },
+      {
+        id: "user.json",
+        schema: {
+          title: "User",
+          type: "object",
+          properties: {
+            config: { $ref: "./config.json#/definitions/has space" },
+          },
+        },
+      },
+    ]);
+
+    expect(documents[1].diagnostics).toEqual([]);
+    expect(code).toContain("type UserConfig = HasSpace\n");
+    expect(code.match(/type HasSpace =/g)).toHaveLength(1);
+  });
+});
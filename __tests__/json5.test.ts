@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { SchemaParseError, toTypes, ToTypesConfig } from "../src/index";
+import { Json5SyntaxError, parseJson5 } from "../src/utils";
+
+const userJsonc = `// A user of the API
+{
+  "title": "User",
+  "type": "object",
+  /* Both are set on sign-up */
+  "required": ["id", "email",],
+  "properties": {
+    "id": { "type": "integer" }, // database id
+    "email": { "type": "string", "format": "email" },
+  },
+}
+`;
+
+const userJson5 = `{
+  title: 'User',
+  type: 'object',
+  required: ['id', "email"],
+  properties: {
+    id: { type: 'integer' },
+    email: { type: 'string', format: 'email', },
+  },
+}
+`;
+
+const userJson = {
+  title: "User",
+  type: "object",
+  required: ["id", "email"],
+  properties: {
+    id: { type: "integer" },
+    email: { type: "string", format: "email" },
+  },
+};
+
+describe("JSONC and JSON5 schemas", () => {
+  describe("parseJson5", () => {
+    it("should parse comments and trailing commas like their JSON equivalent", () => {
+      expect(parseJson5(userJsonc, "jsonc")).toEqual(userJson);
+      expect(parseJson5(userJson5, "json5")).toEqual(userJson);
+      expect(parseJson5(JSON.stringify(userJson), "jsonc")).toEqual(userJson);
+    });
+
+    it("should parse JSON5 strings and numbers", () => {
+      expect(
+        parseJson5(
+          "['a\\\n b', '\\x41', 0x1F, +1, .5, 5., -Infinity, 1e3]",
+          "json5",
+        ),
+      ).toEqual(["a b", "A", 31, 1, 0.5, 5, -Infinity, 1000]);
+      expect(parseJson5("NaN")).toBeNaN();
+    });
+
+    it("should only allow JSON5 syntax in the json5 dialect", () => {
+      expect(() => parseJson5("{ type: 'object' }", "jsonc")).toThrow(
+        'Unexpected character "t"',
+      );
+      expect(() => parseJson5("[0x1F]", "jsonc")).toThrow(Json5SyntaxError);
+    });
+
+    it("should keep __proto__ as a plain key", () => {
+      const value = parseJson5('{ "__proto__": { "type": "string" } }') as {
+        [key: string]: unknown;
+      };
+
+      expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+      expect(Object.keys(value)).toEqual(["__proto__"]);
+    });
+
+    it("should report the line and column of syntax errors", () => {
+      const error = (() => {
+        try {
+          parseJson5('{\n  "type": "object",\n  "title" "User"\n}', "jsonc");
+        } catch (error) {
+          return error as Json5SyntaxError;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(Json5SyntaxError);
+      expect(error?.message).toBe('Unexpected character "\\""');
+      expect(error?.location).toEqual({ line: 3, column: 11 });
+    });
+  });
+
+  describe("toTypes with JSONC and JSON5 schemas", () => {
+    let tempDir: string;
+    let config: ToTypesConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-json5-"));
+      config = {
+        pathToJsonSchemas: path.join(tempDir, "schemas"),
+        pathToOutputDirectory: path.join(tempDir, "types"),
+        logLevel: "silent",
+      };
+      fs.mkdirSync(path.join(tempDir, "schemas"), { recursive: true });
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    const writeSchema = (relativePath: string, content: string): void => {
+      fs.writeFileSync(path.join(tempDir, "schemas", relativePath), content);
+    };
+
+    const readOutput = (relativePath: string): string =>
+      fs.readFileSync(path.join(tempDir, "types", relativePath), "utf-8");
+
+    it("should generate the same types as the equivalent JSON schema", async () => {
+      writeSchema("user.json", JSON.stringify(userJson));
+      writeSchema("customer.schema.jsonc", userJsonc);
+      writeSchema("member.json5", userJson5);
+
+      const result = await toTypes(config);
+
+      expect(result.failedFiles).toEqual([]);
+      const fromJson = readOutput("user.d.ts");
+      expect(readOutput("customer.d.ts")).toBe(fromJson);
+      expect(readOutput("member.d.ts")).toBe(fromJson);
+    });
+
+    it("should read .json files with comments only with lenientJson", async () => {
+      writeSchema("user.json", userJsonc);
+
+      const strictResult = await toTypes(config);
+      const { error } = strictResult.failedFiles[0];
+      expect(error).toBeInstanceOf(SchemaParseError);
+      expect((error as Error).message).toMatch(/^Invalid JSON at line 1/);
+
+      const lenientResult = await toTypes({ ...config, lenientJson: true });
+      expect(lenientResult.failedFiles).toEqual([]);
+      expect(readOutput("user.d.ts")).toContain("interface User {");
+    });
+
+    it("should apply lenientJson from overrides", async () => {
+      writeSchema("user.json", userJsonc);
+
+      const result = await toTypes({
+        ...config,
+        bundle: true,
+        overrides: [{ files: ["user.json"], lenientJson: true }],
+      });
+
+      expect(result.failedFiles).toEqual([]);
+      expect(readOutput("schemas.d.ts")).toContain("User");
+    });
+
+    it("should report JSON5 parse errors with their line", async () => {
+      writeSchema("broken.json5", "{\n  type: 'object',\n  title: 'Broken\n}");
+
+      const result = await toTypes(config);
+
+      const { error } = result.failedFiles[0];
+      expect(error).toBeInstanceOf(SchemaParseError);
+      expect(error).toMatchObject({
+        schemaPath: "broken.json5",
+        line: 3,
+        column: 10,
+      });
+      expect((error as Error).message).toMatch(
+        /^Invalid JSON5 at line 3, column 10: Unterminated string\n/,
+      );
+    });
+  });
+});
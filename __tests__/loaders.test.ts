@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as path from "path";
+import * as os from "os";
+import {
+  createHttpLoader,
+  createNodeModulesLoader,
+  JsonSchema,
+  Logger,
+  SchemaLoadError,
+  SchemaLoader,
+  toTypes,
+  ToTypesConfig,
+} from "../src/index";
+import { getLoadedSchemaPath } from "../src/pipeline";
+
+const addressSchema: JsonSchema = {
+  title: "Address",
+  type: "object",
+  properties: {
+    street: { type: "string" },
+    country: { $ref: "./country.json" },
+  },
+};
+
+const countrySchema: JsonSchema = { title: "Country", enum: ["NL", "DE"] };
+
+const remoteSchemas: Record<string, JsonSchema> = {
+  "https://example.com/schemas/address.json": addressSchema,
+  "https://example.com/schemas/country.json": countrySchema,
+};
+
+describe("Schema loaders", () => {
+  let tempDir: string;
+  let config: ToTypesConfig;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-loaders-"));
+    config = {
+      pathToJsonSchemas: path.join(tempDir, "schemas"),
+      pathToOutputDirectory: path.join(tempDir, "types"),
+      logLevel: "silent",
+    };
+    fs.mkdirSync(path.join(tempDir, "schemas"), { recursive: true });
+    fs.writeFileSync(
+      path.join(tempDir, "schemas", "user.json"),
+      JSON.stringify({
+        title: "User",
+        type: "object",
+        properties: {
+          address: { $ref: "https://example.com/schemas/address.json" },
+          team: { $ref: "pkg:@org/schemas/team.json" },
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const readOutput = (relativePath: string): string =>
+    fs.readFileSync(path.join(tempDir, "types", relativePath), "utf-8");
+
+  const memoryLoader: SchemaLoader = (uri) => remoteSchemas[uri] ?? null;
+
+  it("should generate loaded schemas and import their types", async () => {
+    const result = await toTypes({ ...config, loaders: [memoryLoader] });
+
+    expect(result.files.map(({ schemaPath }) => schemaPath)).toEqual([
+      "user.json",
+      "https://example.com/schemas/address.json",
+      "https://example.com/schemas/country.json",
+    ]);
+    expect(readOutput("user.d.ts")).toMatch(
+      /^import type \{ Address \} from "\.\/_external\/example\.com\/schemas\/address";\n/,
+    );
+    expect(readOutput("_external/example.com/schemas/address.d.ts")).toContain(
+      'import type { Country } from "./country";',
+    );
+    expect(readOutput("_external/example.com/schemas/country.d.ts")).toContain(
+      'type Country = "NL" | "DE"',
+    );
+    // No loader handles the pkg: reference
+    expect(result.files[0].diagnostics).toEqual([
+      {
+        severity: "warning",
+        code: "external-ref",
+        message:
+          'External reference "pkg:@org/schemas/team.json" is not resolved and is emitted as unknown',
+      },
+    ]);
+  });
+
+  it("should not load anything without loaders", async () => {
+    const result = await toTypes(config);
+
+    expect(result.files).toHaveLength(1);
+    expect(fs.existsSync(path.join(tempDir, "types", "_external"))).toBe(false);
+  });
+
+  it("should load schema files of installed packages", async () => {
+    const packageDirectory = path.join(
+      tempDir,
+      "node_modules",
+      "@org",
+      "schemas",
+    );
+    fs.mkdirSync(packageDirectory, { recursive: true });
+    fs.writeFileSync(
+      path.join(packageDirectory, "package.json"),
+      JSON.stringify({ name: "@org/schemas", version: "1.0.0" }),
+    );
+    fs.writeFileSync(
+      path.join(packageDirectory, "team.json"),
+      JSON.stringify({ title: "Team", type: "string" }),
+    );
+
+    const result = await toTypes({
+      ...config,
+      loaders: [createNodeModulesLoader({ resolveFrom: tempDir })],
+    });
+
+    expect(readOutput("user.d.ts")).toContain(
+      'import type { Team } from "./_external/@org/schemas/team";',
+    );
+    expect(readOutput("_external/@org/schemas/team.d.ts")).toContain(
+      "type Team = string",
+    );
+    expect(result.files[0].diagnostics.map(({ message }) => message)).toEqual([
+      'External reference "https://example.com/schemas/address.json" is not resolved and is emitted as unknown',
+    ]);
+  });
+
+  it("should log schemas a loader fails to load", async () => {
+    const logger: Logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+
+    const result = await toTypes({
+      ...config,
+      logLevel: "warn",
+      logger,
+      loaders: [createNodeModulesLoader({ resolveFrom: tempDir })],
+    });
+
+    expect(result.failedFiles).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Failed to load pkg:@org/schemas/team.json:",
+      expect.any(SchemaLoadError),
+    );
+  });
+
+  describe("createHttpLoader", () => {
+    it("should cache downloaded schemas and replay them offline", async () => {
+      const cacheDirectory = path.join(tempDir, "cache");
+      const request = vi.fn(async (url: string) =>
+        JSON.stringify(remoteSchemas[url]),
+      );
+
+      await toTypes({
+        ...config,
+        loaders: [createHttpLoader({ cacheDirectory, request })],
+      });
+      expect(request).toHaveBeenCalledTimes(2);
+      const online = readOutput("user.d.ts");
+      fs.rmSync(path.join(tempDir, "types"), { recursive: true });
+
+      const offlineRequest = vi.fn();
+      await toTypes({
+        ...config,
+        loaders: [
+          createHttpLoader({
+            cacheDirectory,
+            offline: true,
+            request: offlineRequest,
+          }),
+        ],
+      });
+      expect(offlineRequest).not.toHaveBeenCalled();
+      expect(readOutput("user.d.ts")).toBe(online);
+    });
+
+    it("should fail offline for schemas missing from the cache", async () => {
+      const loader = createHttpLoader({
+        cacheDirectory: path.join(tempDir, "cache"),
+        offline: true,
+      });
+
+      await expect(
+        loader("https://example.com/schemas/address.json", { readOnly: false }),
+      ).rejects.toThrow(
+        `Cannot load schema https://example.com/schemas/address.json: not in the cache at ${path.join(tempDir, "cache")} (offline)`,
+      );
+      await expect(
+        loader("pkg:@org/schemas/team.json", { readOnly: false }),
+      ).resolves.toBeNull();
+    });
+
+    it("should fail downloads that take longer than the timeout", async () => {
+      const server = http.createServer(() => {
+        // Never responds
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+      const url = `http://127.0.0.1:${port}/address.json`;
+
+      try {
+        const loader = createHttpLoader({
+          cacheDirectory: path.join(tempDir, "cache"),
+          timeout: 50,
+        });
+
+        await expect(loader(url, { readOnly: false })).rejects.toThrow(
+          `Cannot load schema ${url}: no response within 50 ms`,
+        );
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it("should not write the cache in check mode", async () => {
+      const cacheDirectory = path.join(tempDir, "cache");
+      const request = vi.fn(async (url: string) =>
+        JSON.stringify(remoteSchemas[url]),
+      );
+
+      await toTypes({
+        ...config,
+        check: true,
+        loaders: [createHttpLoader({ cacheDirectory, request })],
+      });
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(fs.existsSync(cacheDirectory)).toBe(false);
+    });
+  });
+
+  it("should name loaded schemas by their URI", () => {
+    expect(getLoadedSchemaPath("https://example.com/a%20b/user.json")).toBe(
+      "_external/example.com/a_b/user.json",
+    );
+    expect(getLoadedSchemaPath("urn:example:user")).toBe(
+      "_external/example_user",
+    );
+  });
+});
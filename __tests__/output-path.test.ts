@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  ConfigError,
+  OutputPathCollisionError,
+  toTypes,
+  ToTypesConfig,
+} from "../src/index";
+import {
+  changeFileNameCase,
+  createOutputPathResolver,
+  getOutputPathInfo,
+} from "../src/pipeline";
+
+describe("Output paths", () => {
+  describe("createOutputPathResolver", () => {
+    it("should keep the directory layout by default", () => {
+      const getOutputFilePath = createOutputPathResolver({
+        pathToOutputDirectory: "types",
+      });
+
+      expect(getOutputFilePath(path.join("api", "user.schema.json"))).toBe(
+        path.join("types", "api", "user.d.ts"),
+      );
+      expect(getOutputFilePath("order.json")).toBe(
+        path.join("types", "order.d.ts"),
+      );
+    });
+
+    it("should fill in a template", () => {
+      const getOutputFilePath = createOutputPathResolver({
+        pathToOutputDirectory: "types",
+        outputPath: "{dir}/{name}.types.d.ts",
+      });
+
+      expect(getOutputFilePath(path.join("api", "user.json"))).toBe(
+        path.join("types", "api", "user.types.d.ts"),
+      );
+    });
+
+    it("should only strip .schema as a whole segment", () => {
+      expect(getOutputPathInfo("api/user.schema.v2.json")).toEqual({
+        schemaPath: "api/user.schema.v2.json",
+        dir: "api",
+        name: "user.v2",
+        base: "user.schema.v2",
+        ext: ".d.ts",
+      });
+      expect(getOutputPathInfo("subschemas.json").name).toBe("subschemas");
+    });
+
+    it("should change the file name case and flatten directories", () => {
+      const getOutputFilePath = createOutputPathResolver({
+        pathToOutputDirectory: "types",
+        fileNameCase: "kebab",
+        flatten: true,
+      });
+
+      expect(getOutputFilePath(path.join("api", "userProfile.json"))).toBe(
+        path.join("types", "user-profile.d.ts"),
+      );
+      expect(changeFileNameCase("user_profile.v2", "pascal")).toBe(
+        "UserProfileV2",
+      );
+      expect(changeFileNameCase("UserProfile", "snake")).toBe("user_profile");
+      expect(changeFileNameCase("user-profile", "camel")).toBe("userProfile");
+    });
+
+    it("should call a mapper function", () => {
+      const getOutputFilePath = createOutputPathResolver({
+        pathToOutputDirectory: "types",
+        outputPath: ({ dir, name }) => `${name}/${dir || "root"}.d.ts`,
+      });
+
+      expect(getOutputFilePath(path.join("api", "user.json"))).toBe(
+        path.join("types", "user", "api.d.ts"),
+      );
+    });
+
+    it("should reject unknown placeholders", () => {
+      expect(() =>
+        createOutputPathResolver({
+          pathToOutputDirectory: "types",
+          outputPath: "{folder}/{name}.d.ts",
+        }),
+      ).toThrow(ConfigError);
+    });
+
+    it("should reject outputs outside the output directory", () => {
+      const getTemplatePath = createOutputPathResolver({
+        pathToOutputDirectory: "types",
+        outputPath: "../../escaped-{name}{ext}",
+      });
+      const getMappedPath = createOutputPathResolver({
+        pathToOutputDirectory: "types",
+        outputPath: ({ dir }) => dir,
+      });
+
+      expect(() => getTemplatePath("user.json")).toThrow(
+        `"outputPath" maps user.json to ${path.join("..", "escaped-user.d.ts")}, outside the output directory types`,
+      );
+      expect(() => getMappedPath("user.json")).toThrow(ConfigError);
+    });
+  });
+
+  describe("toTypes with output path options", () => {
+    let tempDir: string;
+    let config: ToTypesConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-output-"));
+      const inputDir = path.join(tempDir, "schemas");
+      fs.mkdirSync(path.join(inputDir, "v1"), { recursive: true });
+      fs.mkdirSync(path.join(inputDir, "v2"), { recursive: true });
+      for (const version of ["v1", "v2"]) {
+        fs.writeFileSync(
+          path.join(inputDir, version, "offer.json"),
+          JSON.stringify({ title: "Offer", type: "object" }),
+        );
+      }
+      config = {
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: path.join(tempDir, "types"),
+        logLevel: "silent",
+      };
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should write outputs where the template puts them", async () => {
+      const result = await toTypes({
+        ...config,
+        outputPath: "{name}/{dir}.d.ts",
+      });
+
+      expect(result.generatedFiles).toEqual([
+        path.join(tempDir, "types", "offer", "v1.d.ts"),
+        path.join(tempDir, "types", "offer", "v2.d.ts"),
+      ]);
+    });
+
+    it("should not write anything outside the output directory", async () => {
+      await expect(
+        toTypes({ ...config, outputPath: "../{dir}-{name}{ext}" }),
+      ).rejects.toThrow(ConfigError);
+
+      expect(fs.readdirSync(tempDir)).toEqual(["schemas", "types"]);
+    });
+
+    it("should fail schema files mapped to an output that is already taken", async () => {
+      const result = await toTypes({ ...config, flatten: true });
+
+      expect(result.generatedFiles).toEqual([
+        path.join(tempDir, "types", "offer.d.ts"),
+      ]);
+      expect(result.failedFiles).toHaveLength(1);
+      const { schemaPath, error } = result.failedFiles[0];
+      expect(schemaPath).toBe(path.join("v2", "offer.json"));
+      expect(error).toBeInstanceOf(OutputPathCollisionError);
+      expect(error).toMatchObject({
+        conflictingSchemaPath: path.join("v1", "offer.json"),
+      });
+    });
+
+    it("should not flag the collision's output as stale in check mode", async () => {
+      await toTypes({ ...config, flatten: true });
+
+      const result = await toTypes({ ...config, flatten: true, check: true });
+
+      expect(result.check?.isUpToDate).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { toTypes, SchemaParseError } from "../src/index";
+
+describe("toTypes Report", () => {
+  let tempDir: string;
+  let inputDir: string;
+  let outputDir: string;
+
+  const writeSchema = (name: string, content: object | string): void => {
+    fs.writeFileSync(
+      path.join(inputDir, name),
+      typeof content === "string" ? content : JSON.stringify(content),
+    );
+  };
+
+  const runToTypes = (incremental = false) =>
+    toTypes({
+      pathToJsonSchemas: inputDir,
+      pathToOutputDirectory: outputDir,
+      generatedTypesExportsFormat: "ROOT_ONLY",
+      incremental,
+      logLevel: "silent",
+    });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-report-"));
+    inputDir = path.join(tempDir, "schemas");
+    outputDir = path.join(tempDir, "types");
+    fs.mkdirSync(inputDir, { recursive: true });
+
+    writeSchema("user.schema.json", {
+      title: "User",
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        address: { $ref: "#/definitions/Missing" },
+      },
+    });
+    writeSchema("broken.json", "{ broken");
+    writeSchema("empty.json", {});
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should report every schema file", async () => {
+    const result = await runToTypes();
+
+    expect(result.files.map((file) => file.schemaPath)).toEqual([
+      "broken.json",
+      "empty.json",
+      "user.schema.json",
+    ]);
+
+    const [broken, empty, user] = result.files;
+    expect(broken.status).toBe("failed");
+    expect(broken.error).toBeInstanceOf(SchemaParseError);
+    expect(empty.status).toBe("empty");
+    expect(empty.outputPath).toBeNull();
+    expect(user).toMatchObject({
+      status: "generated",
+      outputPath: path.join(outputDir, "user.d.ts"),
+      exportedTypes: ["User"],
+    });
+    expect(user.types).toContain("UserId");
+    expect(user.diagnostics).toEqual([
+      expect.objectContaining({ code: "unresolved-ref" }),
+    ]);
+  });
+
+  it("should report totals and timing", async () => {
+    const result = await runToTypes();
+
+    expect(result.totals).toMatchObject({
+      schemaFiles: 3,
+      byStatus: { generated: 1, empty: 1, failed: 1 },
+      diagnostics: 2,
+    });
+    expect(result.totals.types).toBe(result.files[2].types.length);
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    expect(result.generatedFiles).toEqual([path.join(outputDir, "user.d.ts")]);
+    expect(result.failedFiles).toEqual([
+      { schemaPath: "broken.json", error: expect.any(SchemaParseError) },
+    ]);
+  });
+
+  it("should keep types and diagnostics for cached files", async () => {
+    const first = await runToTypes(true);
+    const second = await runToTypes(true);
+
+    const user = second.files.find(
+      (file) => file.schemaPath === "user.schema.json",
+    );
+    expect(user?.status).toBe("cached");
+    expect(user?.types).toEqual(first.files[2].types);
+    expect(user?.exportedTypes).toEqual(["User"]);
+    expect(user?.diagnostics).toEqual(first.files[2].diagnostics);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  compileSchema,
+  ConfigError,
+  toTypes,
+  ToTypesConfig,
+} from "../src/index";
+import { JsonSchema } from "../src/types";
+
+const orderSchema: JsonSchema = {
+  title: "Order",
+  type: "object",
+  properties: {
+    status: { enum: ["open", "closed"] },
+    kind: { const: "order" },
+    total: { type: "number" },
+  },
+};
+
+describe("Runtime values", () => {
+  describe("compileSchema", () => {
+    it("should declare enum values, const values and the schema in .ts modules", () => {
+      const { code, declarations, exportedValues } = compileSchema(
+        orderSchema,
+        { target: "ts" },
+      );
+
+      expect(declarations).toBeUndefined();
+      expect(exportedValues).toEqual([
+        "OrderKindValue",
+        "OrderStatusValues",
+        "OrderSchema",
+      ]);
+      expect(code).toContain("interface Order {");
+      expect(code).toContain(
+        'const OrderStatusValues = ["open", "closed"] as const;',
+      );
+      expect(code).toContain('const OrderKindValue = "order" as const;');
+      expect(code).toContain('const OrderSchema = {\n  "title": "Order",');
+      expect(code).toMatch(/export \{[\s\S]*\bOrderSchema \n\};\n$/);
+    });
+
+    it("should write .js modules with a matching declaration module", () => {
+      const { code, declarations } = compileSchema(orderSchema, {
+        target: "js",
+      });
+
+      expect(code).not.toContain("interface");
+      expect(code).toContain('const OrderStatusValues = ["open", "closed"];');
+      expect(declarations).toContain("interface Order {");
+      expect(declarations).toContain(
+        'declare const OrderStatusValues: readonly ["open", "closed"];',
+      );
+      expect(declarations).toContain(
+        'declare const OrderSchema: {\n  readonly title: "Order";',
+      );
+    });
+
+    it("should only declare the values of exported types", () => {
+      const { code, exportedValues } = compileSchema(orderSchema, {
+        target: "ts",
+        generatedTypesExportsFormat: "ROOT_ONLY",
+      });
+
+      expect(exportedValues).toEqual(["OrderSchema"]);
+      expect(code).toContain("export { Order, OrderSchema };");
+    });
+
+    it("should honour the runtime value options and keep names unique", () => {
+      const { exportedValues } = compileSchema(
+        {
+          title: "Status",
+          enum: ["on", "off"],
+          definitions: { StatusValues: { type: "string" } },
+        },
+        { target: "ts", runtimeValues: { schema: false } },
+      );
+
+      expect(exportedValues).toEqual(["StatusValues_1"]);
+    });
+
+    it("should leave declaration modules unchanged", () => {
+      expect(compileSchema(orderSchema, { target: "d.ts" }).code).toBe(
+        compileSchema(orderSchema).code,
+      );
+    });
+  });
+
+  describe("toTypes with a target", () => {
+    let tempDir: string;
+    let config: ToTypesConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-runtime-"));
+      const inputDir = path.join(tempDir, "schemas");
+      fs.mkdirSync(inputDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(inputDir, "order.schema.json"),
+        JSON.stringify(orderSchema),
+      );
+      config = {
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: path.join(tempDir, "types"),
+        generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+        logLevel: "silent",
+      };
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should write .ts modules and barrels", async () => {
+      const result = await toTypes({ ...config, target: "ts", barrels: true });
+
+      expect(result.generatedFiles).toEqual([
+        path.join(tempDir, "types", "order.ts"),
+        path.join(tempDir, "types", "index.ts"),
+      ]);
+      expect(result.files[0].exportedValues).toContain("OrderSchema");
+      expect(
+        fs.readFileSync(path.join(tempDir, "types", "index.ts"), "utf-8"),
+      ).toBe('export * from "./order";\n');
+    });
+
+    it("should write a .d.ts next to each .js module", async () => {
+      const result = await toTypes({ ...config, target: "js", clean: true });
+
+      const jsPath = path.join(tempDir, "types", "order.js");
+      const declarationPath = path.join(tempDir, "types", "order.d.ts");
+      expect(result.files[0]).toMatchObject({
+        outputPath: jsPath,
+        declarationPath,
+      });
+      expect(result.generatedFiles).toEqual([jsPath, declarationPath]);
+
+      // Both files are owned, so clean removes them once the schema is gone
+      fs.rmSync(path.join(tempDir, "schemas", "order.schema.json"));
+      const cleaned = await toTypes({ ...config, target: "js", clean: true });
+      expect(cleaned.deletedFiles.sort()).toEqual([declarationPath, jsPath]);
+    });
+
+    it("should reject bundles of .ts modules", async () => {
+      await expect(
+        toTypes({ ...config, target: "ts", bundle: true }),
+      ).rejects.toThrow(ConfigError);
+    });
+  });
+});
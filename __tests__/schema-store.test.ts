@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  compileBundle,
+  compileSchema,
+  createSchemaStore,
+  getSchemaFileUri,
+  toTypes,
+  ToTypesConfig,
+} from "../src/index";
+import { collectFileDependencies } from "../src/pipeline";
+import { JsonSchema } from "../src/types";
+
+const addressSchema: JsonSchema = {
+  $id: "https://example.com/schemas/address.json",
+  title: "Address",
+  type: "object",
+  properties: { street: { type: "string" } },
+  definitions: {
+    Country: { $id: "country.json", enum: ["NL", "DE"] },
+  },
+};
+
+describe("Schema store", () => {
+  describe("createSchemaStore", () => {
+    it("should index documents and embedded subschemas by $id", () => {
+      const store = createSchemaStore();
+
+      expect(store.add(addressSchema)).toBe(
+        "https://example.com/schemas/address.json",
+      );
+      expect(Array.from(store.getUris())).toEqual([
+        [
+          "https://example.com/schemas/address.json",
+          {
+            documentUri: "https://example.com/schemas/address.json",
+            pointer: "#",
+          },
+        ],
+        [
+          "https://example.com/schemas/country.json",
+          {
+            documentUri: "https://example.com/schemas/address.json",
+            pointer: "#/definitions/Country",
+          },
+        ],
+      ]);
+    });
+
+    it("should resolve references against the nearest base URI", () => {
+      const store = createSchemaStore();
+      const userUri = getSchemaFileUri("api/user.json");
+      store.add(addressSchema);
+      store.add(
+        {
+          $id: "https://example.com/schemas/user.json",
+          properties: { address: { $ref: "address.json" } },
+        },
+        userUri,
+      );
+
+      const from = { documentUri: userUri, pointer: "#/properties/address" };
+      expect(store.getBaseUri(from)).toBe(
+        "https://example.com/schemas/user.json",
+      );
+      expect(store.resolve("address.json#/properties/street", from)).toEqual({
+        documentUri: "https://example.com/schemas/address.json",
+        pointer: "#/properties/street",
+      });
+      expect(store.resolve("country.json", from)).toEqual({
+        documentUri: "https://example.com/schemas/address.json",
+        pointer: "#/definitions/Country",
+      });
+      // Not declared by any document, so resolved as a path next to the file
+      expect(store.resolve("../common/phone.json", from)).toEqual({
+        documentUri: getSchemaFileUri("common/phone.json"),
+        pointer: "#",
+      });
+      expect(store.resolve("https://example.com/other.json", from)).toBeNull();
+    });
+
+    it("should require a retrieval URI or an absolute $id", () => {
+      expect(() => createSchemaStore().add({ title: "User" })).toThrow(
+        "A schema added without a retrieval URI needs an absolute $id",
+      );
+    });
+  });
+
+  describe("compileSchema with a store", () => {
+    it("should import types of pre-registered documents by URI", () => {
+      const store = createSchemaStore();
+      const addressUri = store.add(addressSchema);
+
+      const result = compileSchema(
+        {
+          title: "User",
+          type: "object",
+          properties: {
+            address: { $ref: "https://example.com/schemas/address.json" },
+            country: { $ref: "https://example.com/schemas/country.json" },
+          },
+        },
+        {
+          schemaPath: "user.json",
+          store,
+          resolveDocument: (uri) =>
+            uri === addressUri
+              ? { schema: store.getDocument(uri)!, modulePath: "./address" }
+              : null,
+        },
+      );
+
+      expect(result.diagnostics).toEqual([]);
+      expect(result.code).toMatch(
+        /^import type \{ Address, Country \} from "\.\/address";\n/,
+      );
+    });
+
+    it("should resolve references to the document's own $id locally", () => {
+      const result = compileSchema({
+        $id: "https://example.com/schemas/user.json",
+        title: "User",
+        type: "object",
+        properties: {
+          role: { $ref: "https://example.com/schemas/user.json#/$defs/Role" },
+          status: { $ref: "status.json" },
+        },
+        $defs: {
+          Role: { enum: ["admin", "member"] },
+          Status: { $id: "status.json", enum: ["active", "blocked"] },
+        },
+      });
+
+      expect(result.diagnostics).toEqual([]);
+      expect(result.code).toContain("type UserRole = Role\n");
+      expect(result.code).toContain("type UserStatus = Status\n");
+    });
+  });
+
+  it("should bundle documents referenced by the $id of a subschema", () => {
+    const { code, documents } = compileBundle([
+      {
+        id: "user.json",
+        schema: {
+          title: "User",
+          type: "object",
+          properties: {
+            country: { $ref: "https://example.com/schemas/country.json" },
+          },
+        },
+      },
+      { id: "address.json", schema: addressSchema },
+    ]);
+
+    expect(documents[0].diagnostics).toEqual([]);
+    expect(code).toContain("type UserCountry = Country\n");
+    expect(code.match(/type Country =/g)).toHaveLength(1);
+  });
+
+  it("should collect the files a schema references by $id", () => {
+    const store = createSchemaStore();
+    store.add(addressSchema, getSchemaFileUri("common/address.json"));
+
+    expect(
+      collectFileDependencies(
+        {
+          properties: {
+            country: { $ref: "https://example.com/schemas/country.json" },
+            manager: { $ref: "./user.json" },
+            phone: { $ref: "./phone.json" },
+          },
+        },
+        "api/user.json",
+        store,
+      ),
+    ).toEqual(["api/phone.json", "common/address.json"]);
+  });
+
+  describe("toTypes with references by $id", () => {
+    let tempDir: string;
+    let config: ToTypesConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-store-"));
+      config = {
+        pathToJsonSchemas: path.join(tempDir, "schemas"),
+        pathToOutputDirectory: path.join(tempDir, "types"),
+        logLevel: "silent",
+      };
+      fs.mkdirSync(path.join(tempDir, "schemas", "common"), {
+        recursive: true,
+      });
+      fs.writeFileSync(
+        path.join(tempDir, "schemas", "common", "address.json"),
+        JSON.stringify(addressSchema),
+      );
+      fs.writeFileSync(
+        path.join(tempDir, "schemas", "user.json"),
+        JSON.stringify({
+          title: "User",
+          type: "object",
+          properties: {
+            address: { $ref: "https://example.com/schemas/address.json" },
+            country: { $ref: "https://example.com/schemas/country.json" },
+          },
+        }),
+      );
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should import from the module of the file declaring the $id", async () => {
+      const result = await toTypes(config);
+
+      expect(result.failedFiles).toEqual([]);
+      const output = fs.readFileSync(
+        path.join(tempDir, "types", "user.d.ts"),
+        "utf-8",
+      );
+      expect(output).toMatch(
+        /^import type \{ Address, Country \} from "\.\/common\/address";\n/,
+      );
+    });
+
+    it("should regenerate a file when the file declaring the $id changes", async () => {
+      await toTypes({ ...config, incremental: true });
+      fs.writeFileSync(
+        path.join(tempDir, "schemas", "common", "address.json"),
+        JSON.stringify({ ...addressSchema, title: "PostalAddress" }),
+      );
+
+      await toTypes({ ...config, incremental: true });
+
+      const output = fs.readFileSync(
+        path.join(tempDir, "types", "user.d.ts"),
+        "utf-8",
+      );
+      expect(output).toContain("import type { PostalAddress, Country }");
+    });
+  });
+});
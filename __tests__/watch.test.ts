@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  watchTypes,
+  TypesWatcher,
+  WatchRegenerationResult,
+  WatchTypesConfig,
+} from "../src/index";
+import { createDependencyGraph } from "../src/watch";
+import { collectFileDependencies } from "../src/pipeline";
+
+/**
+ * Polls until the predicate holds, failing after the timeout.
+ */
+const waitFor = async (
+  predicate: () => boolean,
+  timeoutMs = 3000,
+): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+describe("Watch Mode", () => {
+  describe("collectFileDependencies", () => {
+    it("should collect file references and undeclared URIs", () => {
+      const schema = {
+        properties: {
+          address: { $ref: "./address.json#/definitions/Address" },
+          owner: { $ref: "../people/owner.json" },
+          local: { $ref: "#/definitions/Local" },
+          remote: { $ref: "https://example.com/remote.json" },
+        },
+      };
+
+      expect(collectFileDependencies(schema, "api/user.json")).toEqual([
+        "api/address.json",
+        "https://example.com/remote.json",
+        "people/owner.json",
+      ]);
+    });
+  });
+
+  describe("createDependencyGraph", () => {
+    it("should return transitive dependents", () => {
+      const graph = createDependencyGraph();
+      graph.setDependencies("order.json", ["user.json"]);
+      graph.setDependencies("user.json", ["address.json"]);
+      graph.setDependencies("product.json", []);
+
+      expect(graph.getDependents(["address.json"])).toEqual(
+        new Set(["user.json", "order.json"]),
+      );
+    });
+  });
+
+  describe("watchTypes", () => {
+    let tempDir: string;
+    let inputDir: string;
+    let outputDir: string;
+    let watcher: TypesWatcher | null;
+    let regenerations: WatchRegenerationResult[];
+
+    const writeSchema = (name: string, schema: object): void => {
+      fs.writeFileSync(path.join(inputDir, name), JSON.stringify(schema));
+    };
+
+    const startWatching = async (
+      options: Partial<WatchTypesConfig> = {},
+    ): Promise<void> => {
+      watcher = await watchTypes({
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: outputDir,
+        generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+        logLevel: "silent",
+        debounceMs: 30,
+        onRegenerate: (result) => regenerations.push(result),
+        ...options,
+      });
+    };
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-watch-"));
+      inputDir = path.join(tempDir, "schemas");
+      outputDir = path.join(tempDir, "types");
+      fs.mkdirSync(inputDir, { recursive: true });
+      watcher = null;
+      regenerations = [];
+
+      writeSchema("address.json", {
+        definitions: { Address: { type: "object" } },
+      });
+      writeSchema("user.json", {
+        title: "User",
+        type: "object",
+        properties: {
+          address: { $ref: "./address.json#/definitions/Address" },
+        },
+      });
+      writeSchema("product.json", { title: "Product", type: "object" });
+    });
+
+    afterEach(() => {
+      watcher?.close();
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should generate every schema on start", async () => {
+      await startWatching();
+
+      expect(regenerations).toHaveLength(1);
+      expect(regenerations[0].regeneratedFiles).toEqual([
+        "address.json",
+        "product.json",
+        "user.json",
+      ]);
+      expect(fs.existsSync(path.join(outputDir, "product.d.ts"))).toBe(true);
+    });
+
+    it("should regenerate changed files and the files referencing them", async () => {
+      await startWatching();
+
+      writeSchema("address.json", {
+        definitions: {
+          Address: { type: "object", properties: { city: { type: "string" } } },
+        },
+      });
+      await waitFor(() => regenerations.length === 2);
+
+      expect(regenerations[1].changedFiles).toEqual(["address.json"]);
+      expect(regenerations[1].regeneratedFiles).toEqual([
+        "address.json",
+        "user.json",
+      ]);
+      expect(
+        fs.readFileSync(path.join(outputDir, "address.d.ts"), "utf-8"),
+      ).toContain("city?:");
+    });
+
+    it("should regenerate files referencing a URI once a file declares it", async () => {
+      writeSchema("order.json", {
+        title: "Order",
+        type: "object",
+        properties: { customer: { $ref: "https://example.com/customer.json" } },
+      });
+      await startWatching();
+
+      writeSchema("customer.json", {
+        $id: "https://example.com/customer.json",
+        title: "Customer",
+        type: "object",
+      });
+      await waitFor(() => regenerations.length === 2);
+
+      expect(regenerations[1].regeneratedFiles).toEqual([
+        "customer.json",
+        "order.json",
+      ]);
+      expect(
+        fs.readFileSync(path.join(outputDir, "order.d.ts"), "utf-8"),
+      ).toContain('import type { Customer } from "./customer";');
+    });
+
+    it("should delete the output of removed schemas", async () => {
+      await startWatching();
+
+      fs.unlinkSync(path.join(inputDir, "product.json"));
+      await waitFor(() => regenerations.length === 2);
+
+      expect(regenerations[1].removedFiles).toEqual(["product.json"]);
+      expect(fs.existsSync(path.join(outputDir, "product.d.ts"))).toBe(false);
+    });
+
+    it("should keep barrel files in sync", async () => {
+      await startWatching({ barrels: true });
+      const barrelPath = path.join(outputDir, "index.d.ts");
+      expect(fs.readFileSync(barrelPath, "utf-8")).toContain(
+        'export * from "./product";',
+      );
+
+      fs.unlinkSync(path.join(inputDir, "product.json"));
+      await waitFor(() => regenerations.length === 2);
+
+      expect(regenerations[1].generatedFiles).toEqual([barrelPath]);
+      expect(fs.readFileSync(barrelPath, "utf-8")).not.toContain("./product");
+    });
+
+    it("should debounce bursts of saves into one regeneration", async () => {
+      await startWatching();
+
+      for (let index = 0; index < 5; index++) {
+        writeSchema("product.json", {
+          title: "Product",
+          type: "object",
+          properties: { [`field${index}`]: { type: "string" } },
+        });
+      }
+      await waitFor(() => regenerations.length === 2);
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(regenerations).toHaveLength(2);
+      expect(
+        fs.readFileSync(path.join(outputDir, "product.d.ts"), "utf-8"),
+      ).toContain("field4?:");
+    });
+
+    it("should report errors and keep watching", async () => {
+      await startWatching();
+
+      fs.writeFileSync(path.join(inputDir, "product.json"), "{ broken");
+      await waitFor(() => regenerations.length === 2);
+      expect(regenerations[1].failedFiles).toHaveLength(1);
+
+      writeSchema("product.json", { title: "Product", type: "string" });
+      await waitFor(() => regenerations.length === 3);
+      expect(regenerations[2].failedFiles).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import * as ts from "typescript";
+import { createRequire } from "module";
+import {
+  ConfigError,
+  OutputPathCollisionError,
+  SchemaLoadError,
+  SchemaParseError,
+  toTypes,
+} from "../src/index";
+import {
+  createCompilerPool,
+  deserializeError,
+  serializeError,
+  startCompilerPool,
+} from "../src/pipeline";
+
+/**
+ * A worker speaking the pool protocol without compiling anything: it echoes the
+ * schema path as code, answers longer paths later, fails paths starting with "bad"
+ * and exits on paths starting with "exit".
+ */
+const STUB_WORKER = `
+const { parentPort } = require("worker_threads");
+parentPort.on("message", ({ id, params }) => {
+  setTimeout(() => {
+    if (params.relativeSchemaPath.startsWith("exit")) {
+      process.exit(3);
+    }
+    if (params.relativeSchemaPath.startsWith("bad")) {
+      parentPort.postMessage({
+        id,
+        error: {
+          isError: true,
+          name: "SchemaParseError",
+          properties: { message: "Invalid JSON", schemaPath: params.relativeSchemaPath },
+        },
+      });
+      return;
+    }
+    parentPort.postMessage({
+      id,
+      result: { schema: {}, code: params.relativeSchemaPath, types: [], exportedTypes: [], diagnostics: [] },
+    });
+  }, params.relativeSchemaPath.length * 5);
+});
+`;
+
+/**
+ * Transpiles the sources into an installed-like package under `directory`, so
+ * the pool finds the compiled worker entry point next to its own module.
+ *
+ * @param directory - Where to create the package
+ * @returns The package's entry point, loaded outside the test transform
+ */
+const buildPackage = (directory: string): typeof import("../src/index") => {
+  const rootDir = path.join(__dirname, "..");
+  const sourceDir = path.join(rootDir, "src");
+  const outDir = path.join(directory, "dist");
+  for (const file of fs.readdirSync(sourceDir, { recursive: true })) {
+    if (!String(file).endsWith(".ts")) continue;
+    const { outputText } = ts.transpileModule(
+      fs.readFileSync(path.join(sourceDir, String(file)), "utf-8"),
+      {
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2020,
+          esModuleInterop: true,
+        },
+      },
+    );
+    const outFile = path.join(outDir, String(file).replace(/\.ts$/, ".js"));
+    fs.mkdirSync(path.dirname(outFile), { recursive: true });
+    fs.writeFileSync(outFile, outputText);
+  }
+  fs.copyFileSync(
+    path.join(rootDir, "package.json"),
+    path.join(directory, "package.json"),
+  );
+  fs.symlinkSync(
+    path.join(rootDir, "node_modules"),
+    path.join(directory, "node_modules"),
+    "dir",
+  );
+  return createRequire(__filename)(outDir);
+};
+
+const silentLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+describe("Worker pool", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-workers-"));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("serializeError", () => {
+    it("should round-trip schema errors with their class and cause", () => {
+      const original = SchemaParseError.fromJsonSyntaxError(
+        new SyntaxError("Unexpected token"),
+        '{ "a": }',
+        "user.json",
+      );
+
+      const restored = deserializeError(
+        structuredClone(serializeError(original)),
+      ) as SchemaParseError;
+
+      expect(restored).toBeInstanceOf(SchemaParseError);
+      expect(restored.message).toBe(original.message);
+      expect(restored.stack).toBe(original.stack);
+      expect(restored.schemaPath).toBe("user.json");
+      expect(restored.codeFrame).toBe(original.codeFrame);
+      expect(restored.cause).toBeInstanceOf(SyntaxError);
+      expect(Object.keys(restored)).not.toContain("message");
+    });
+
+    it("should restore configuration, loading and collision errors", () => {
+      const errors = [
+        new ConfigError({ filePath: "config.json", issues: ["bad option"] }),
+        new SchemaLoadError({
+          uri: "https://example.com/a.json",
+          reason: "timeout",
+        }),
+        new OutputPathCollisionError({
+          outputPath: "a.d.ts",
+          conflictingSchemaPath: "a.json",
+          schemaPath: "a.yaml",
+        }),
+      ];
+
+      const restored = errors.map((error) =>
+        deserializeError(structuredClone(serializeError(error))),
+      );
+
+      expect(restored[0]).toBeInstanceOf(ConfigError);
+      expect((restored[0] as ConfigError).issues).toEqual(["bad option"]);
+      expect(restored[1]).toBeInstanceOf(SchemaLoadError);
+      expect((restored[1] as SchemaLoadError).uri).toBe(
+        "https://example.com/a.json",
+      );
+      expect(restored[2]).toBeInstanceOf(OutputPathCollisionError);
+      expect((restored[2] as OutputPathCollisionError).outputPath).toBe(
+        "a.d.ts",
+      );
+    });
+
+    it("should keep system error codes", () => {
+      const error = Object.assign(new Error("ENOENT: no such file"), {
+        code: "ENOENT",
+      });
+
+      const restored = deserializeError(serializeError(error));
+
+      expect(restored).toBeInstanceOf(Error);
+      expect((restored as NodeJS.ErrnoException).code).toBe("ENOENT");
+    });
+  });
+
+  describe("createCompilerPool", () => {
+    it("should match results to requests when workers finish out of order", async () => {
+      const workerPath = path.join(tempDir, "worker.js");
+      fs.writeFileSync(workerPath, STUB_WORKER);
+      const pool = createCompilerPool({ size: 2, workerPath });
+
+      try {
+        const paths = ["a-very-long-name.json", "b.json", "bad.json", "c.json"];
+        const results = await Promise.allSettled(
+          paths.map((relativeSchemaPath) =>
+            pool.compile({
+              relativeSchemaPath,
+              pathToJsonSchemas: tempDir,
+              generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+            }),
+          ),
+        );
+
+        expect(
+          results.map((result) =>
+            result.status === "fulfilled" ? result.value.code : result.reason,
+          ),
+        ).toEqual([
+          "a-very-long-name.json",
+          "b.json",
+          expect.any(SchemaParseError),
+          "c.json",
+        ]);
+      } finally {
+        await pool.close();
+      }
+    });
+
+    it("should fail the current file and replace a worker that exits", async () => {
+      const workerPath = path.join(tempDir, "worker.js");
+      fs.writeFileSync(workerPath, STUB_WORKER);
+      const pool = createCompilerPool({ size: 1, workerPath });
+      const compile = (relativeSchemaPath: string) =>
+        pool.compile({
+          relativeSchemaPath,
+          pathToJsonSchemas: tempDir,
+          generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+        });
+
+      try {
+        const results = await Promise.allSettled([
+          compile("exit.json"),
+          compile("a.json"),
+        ]);
+
+        expect(results[0]).toEqual({
+          status: "rejected",
+          reason: new Error("Worker stopped with exit code 3"),
+        });
+        expect(results[1]).toEqual({
+          status: "fulfilled",
+          value: expect.objectContaining({ code: "a.json" }),
+        });
+      } finally {
+        await pool.close();
+      }
+    });
+
+    it("should reject queued files when a worker cannot start", async () => {
+      const workerPath = path.join(tempDir, "broken-worker.js");
+      fs.writeFileSync(workerPath, "throw new Error('cannot start');");
+      const pool = createCompilerPool({ size: 2, workerPath });
+
+      try {
+        await expect(
+          pool.compile({
+            relativeSchemaPath: "user.json",
+            pathToJsonSchemas: tempDir,
+            generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+          }),
+        ).rejects.toThrow("cannot start");
+      } finally {
+        await pool.close();
+      }
+    });
+  });
+
+  describe("startCompilerPool", () => {
+    it("should compile small runs in-process", () => {
+      expect(
+        startCompilerPool({
+          concurrency: 4,
+          fileCount: 19,
+          logger: silentLogger,
+        }),
+      ).toBeNull();
+      expect(
+        startCompilerPool({
+          concurrency: 1,
+          fileCount: 1000,
+          logger: silentLogger,
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe("toTypes with concurrency", () => {
+    // Transpiling the sources and starting workers takes a few seconds
+    it("should produce the same output and order as a single thread", async () => {
+      const inputDir = path.join(tempDir, "schemas");
+      fs.mkdirSync(inputDir);
+      for (let index = 0; index < 40; index++) {
+        fs.writeFileSync(
+          path.join(inputDir, `schema-${index}.json`),
+          JSON.stringify({
+            title: `Schema${index}`,
+            type: "object",
+            properties: { id: { type: "string" }, child: { type: "object" } },
+          }),
+        );
+      }
+      fs.writeFileSync(path.join(inputDir, "broken.json"), "{ broken");
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const built = buildPackage(path.join(tempDir, "package"));
+      const messages: string[] = [];
+
+      const sequential = await toTypes({
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: path.join(tempDir, "sequential"),
+        generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+      });
+      const parallel = await built.toTypes({
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: path.join(tempDir, "parallel"),
+        generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+        concurrency: 4,
+        logLevel: "debug",
+        logger: {
+          ...silentLogger,
+          debug: (message) => messages.push(message),
+        },
+      });
+
+      expect(messages).toContain(
+        "Compiling 41 schema file(s) on 4 worker threads",
+      );
+      expect(
+        parallel.files.map((file) => [file.schemaPath, file.status]),
+      ).toEqual(sequential.files.map((file) => [file.schemaPath, file.status]));
+      expect(parallel.failedFiles[0].error).toBeInstanceOf(
+        built.SchemaParseError,
+      );
+      for (const file of fs.readdirSync(path.join(tempDir, "sequential"))) {
+        expect(
+          fs.readFileSync(path.join(tempDir, "parallel", file), "utf-8"),
+        ).toBe(
+          fs.readFileSync(path.join(tempDir, "sequential", file), "utf-8"),
+        );
+      }
+    }, 30_000);
+  });
+});
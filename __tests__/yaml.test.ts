@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { SchemaParseError, toTypes, ToTypesConfig } from "../src/index";
+import { parseYaml, YamlSyntaxError } from "../src/utils";
+
+const userYaml = `# A user of the API
+$id: https://example.com/user
+title: User
+type: object
+description: |
+  Someone with an account.
+  Created on sign-up.
+required: [id, email]
+properties:
+  id:
+    type: integer
+  email:
+    type: string
+    format: email
+  role:
+    enum:
+      - admin
+      - "member"
+      - 'guest'
+  address:
+    $ref: ./address.json
+`;
+
+const userJson = {
+  $id: "https://example.com/user",
+  title: "User",
+  type: "object",
+  description: "Someone with an account.\nCreated on sign-up.\n",
+  required: ["id", "email"],
+  properties: {
+    id: { type: "integer" },
+    email: { type: "string", format: "email" },
+    role: { enum: ["admin", "member", "guest"] },
+    address: { $ref: "./address.json" },
+  },
+};
+
+describe("YAML schemas", () => {
+  describe("parseYaml", () => {
+    it("should parse block and flow collections like their JSON equivalent", () => {
+      expect(parseYaml(userYaml)).toEqual(userJson);
+      expect(parseYaml(JSON.stringify(userJson, null, 2))).toEqual(userJson);
+    });
+
+    it("should resolve plain scalars with the core schema", () => {
+      expect(
+        parseYaml(
+          "- null\n- ~\n- true\n- 12\n- -1.5e3\n- 0x1F\n- '12'\n- 1.2.3\n- http://x.io\n-\n",
+        ),
+      ).toEqual([
+        null,
+        null,
+        true,
+        12,
+        -1500,
+        31,
+        "12",
+        "1.2.3",
+        "http://x.io",
+        null,
+      ]);
+    });
+
+    it("should fold and chomp block scalars", () => {
+      expect(
+        parseYaml(
+          "folded: >\n  one\n  two\n\n  three\nkept: |+\n  x\n\nstripped: |-\n  y\n",
+        ),
+      ).toEqual({ folded: "one two\nthree\n", kept: "x\n\n", stripped: "y" });
+    });
+
+    it("should report the line and column of syntax errors", () => {
+      const error = (() => {
+        try {
+          parseYaml("title: User\nproperties:\n  id: 1\n  id: 2\n");
+        } catch (error) {
+          return error as YamlSyntaxError;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(YamlSyntaxError);
+      expect(error?.message).toBe('Duplicate key "id"');
+      expect(error?.location).toEqual({ line: 4, column: 3 });
+    });
+
+    it("should reject unsupported features", () => {
+      expect(() => parseYaml("a: &anchor 1\nb: *anchor\n")).toThrow(
+        "Anchors and aliases are not supported",
+      );
+      expect(() => parseYaml("a: 1\n---\nb: 2\n")).toThrow(
+        "Multiple documents are not supported",
+      );
+    });
+  });
+
+  describe("toTypes with YAML schemas", () => {
+    let tempDir: string;
+    let config: ToTypesConfig;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-yaml-"));
+      config = {
+        pathToJsonSchemas: path.join(tempDir, "schemas"),
+        pathToOutputDirectory: path.join(tempDir, "types"),
+        logLevel: "silent",
+      };
+      fs.mkdirSync(path.join(tempDir, "schemas"), { recursive: true });
+    });
+
+    afterEach(() => {
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    const writeSchema = (relativePath: string, content: string): void => {
+      fs.writeFileSync(path.join(tempDir, "schemas", relativePath), content);
+    };
+
+    const readOutput = (relativePath: string): string =>
+      fs.readFileSync(path.join(tempDir, "types", relativePath), "utf-8");
+
+    it("should generate the same types as the equivalent JSON schema", async () => {
+      writeSchema("user.schema.yaml", userYaml);
+      await toTypes(config);
+      const fromYaml = readOutput("user.d.ts");
+
+      fs.rmSync(path.join(tempDir, "schemas", "user.schema.yaml"));
+      writeSchema("user.schema.json", JSON.stringify(userJson));
+      await toTypes(config);
+
+      expect(fromYaml).toBe(readOutput("user.d.ts"));
+    });
+
+    it("should report YAML parse errors with their line", async () => {
+      writeSchema("broken.yml", "title: Broken\ntype: [object\n");
+
+      const result = await toTypes(config);
+
+      const { error } = result.failedFiles[0];
+      expect(error).toBeInstanceOf(SchemaParseError);
+      expect(error).toMatchObject({
+        schemaPath: "broken.yml",
+        line: 2,
+        column: 7,
+      });
+      expect((error as Error).message).toMatch(
+        /^Invalid YAML at line 2, column 7: Unterminated flow collection\n/,
+      );
+    });
+
+    it("should resolve references between YAML and JSON files in a bundle", async () => {
+      writeSchema("user.yaml", userYaml);
+      writeSchema(
+        "address.json",
+        JSON.stringify({
+          title: "Address",
+          type: "object",
+          properties: { country: { $ref: "./country.yml" } },
+        }),
+      );
+      writeSchema("country.yml", "title: Country\nenum: [NL, DE]\n");
+
+      const result = await toTypes({ ...config, bundle: true });
+
+      expect(result.failedFiles).toEqual([]);
+      const bundle = readOutput("schemas.d.ts");
+      expect(bundle).toContain("type UserAddress = Address\n");
+      expect(bundle).toContain("type AddressCountry = Country\n");
+      expect(bundle).toContain('type Country = "NL" | "DE"');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Benchmarks `toTypes` at different concurrency levels on synthetic schemas.
+ *
+ * Usage: pnpm run benchmark [-- --files 400 --concurrency 1,2,4]
+ *
+ * Requires a build (`pnpm run build`), since worker threads load the compiled
+ * worker entry point from dist/.
+ */
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { toTypes } = require("../dist");
+
+/**
+ * Reads `--name value` from the command line.
+ */
+const getArg = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? fallback : process.argv[index + 1];
+};
+
+const fileCount = Number(getArg("files", "400"));
+const concurrencies = getArg("concurrency", `1,2,${os.cpus().length}`)
+  .split(",")
+  .map(Number)
+  .filter((value, index, all) => all.indexOf(value) === index);
+
+/**
+ * Builds a schema with nested objects, combinators and local references,
+ * roughly the shape of a real API payload.
+ */
+const createSchema = (index) => {
+  const definitions = {};
+  for (let item = 0; item < 15; item++) {
+    definitions[`Item${item}`] = {
+      type: "object",
+      description: `Item ${item} of schema ${index}`,
+      properties: {
+        id: { type: "string", format: "uuid" },
+        status: { enum: ["ACTIVE", "INACTIVE", "PENDING"] },
+        amount: { type: "number", minimum: 0 },
+        tags: { type: "array", items: { type: "string" } },
+        owner: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            contact: {
+              oneOf: [
+                { type: "object", properties: { email: { type: "string" } } },
+                { type: "object", properties: { phone: { type: "string" } } },
+              ],
+            },
+          },
+        },
+        next: item < 14 ? { $ref: `#/definitions/Item${item + 1}` } : {},
+      },
+      required: ["id", "status"],
+    };
+  }
+  return {
+    title: `Schema${index}`,
+    type: "object",
+    properties: Object.fromEntries(
+      Object.keys(definitions).map((name) => [
+        name.toLowerCase(),
+        { $ref: `#/definitions/${name}` },
+      ]),
+    ),
+    definitions,
+  };
+};
+
+const main = async () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-schema-bench-"));
+  try {
+    const inputDir = path.join(tempDir, "schemas");
+    for (let index = 0; index < fileCount; index++) {
+      const directory = path.join(inputDir, `group-${index % 10}`);
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(
+        path.join(directory, `schema-${index}.json`),
+        JSON.stringify(createSchema(index)),
+      );
+    }
+
+    console.log(
+      `${fileCount} schema files, ${os.cpus().length} CPU(s), Node.js ${process.version}`,
+    );
+    let baseline = null;
+    for (const concurrency of concurrencies) {
+      const result = await toTypes({
+        pathToJsonSchemas: inputDir,
+        pathToOutputDirectory: path.join(tempDir, `types-${concurrency}`),
+        generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+        concurrency,
+        logLevel: "error",
+      });
+      baseline = baseline ?? result.durationMs;
+      console.log(
+        `concurrency ${String(concurrency).padStart(2)}: ${String(result.durationMs).padStart(6)}ms` +
+          `  (${(baseline / result.durationMs).toFixed(2)}x)`,
+      );
+    }
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+/**
+ * Executable entry point for the `json-schema-to-dts` command.
+ */
+
+import { runCli } from "./cli";
+
+runCli({ argv: process.argv.slice(2) }).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,511 @@
+/**
+ * Command-line argument parsing.
+ * A small, dependency-free parser driven by the option table below.
+ */
+
+import {
+  FileNameCase,
+  GeneratedTypesExportFormat,
+  LogLevel,
+  OutputTarget,
+} from "../types";
+
+/**
+ * Subcommands understood by the CLI.
+ */
+export type CliCommand = "generate" | "help" | "version";
+
+/**
+ * Description of a single command-line option.
+ */
+export interface CliOptionSpec {
+  /** Long option name, used as `--name` */
+  name: string;
+
+  /** Optional single-letter alias, used as `-a` */
+  alias?: string;
+
+  /** Placeholder for the option's value; omitted for boolean flags */
+  valueName?: string;
+
+  /** True if the option can be given several times, collecting every value */
+  isRepeatable?: boolean;
+
+  /** One-line description shown in `--help` */
+  description: string;
+}
+
+/**
+ * All options accepted by the CLI, in the order they are listed in `--help`.
+ */
+export const CLI_OPTIONS: CliOptionSpec[] = [
+  {
+    name: "config",
+    alias: "c",
+    valueName: "file",
+    description:
+      "Configuration file (default: searched from the current directory up)",
+  },
+  {
+    name: "input",
+    alias: "i",
+    valueName: "dir",
+    isRepeatable: true,
+    description: "Directory containing the JSON Schema files (repeatable)",
+  },
+  {
+    name: "output",
+    alias: "o",
+    valueName: "dir",
+    description: "Directory the .d.ts files are written to",
+  },
+  {
+    name: "exports-format",
+    alias: "f",
+    valueName: "format",
+    description:
+      "How types are exported: unique-exports (default) or root-only",
+  },
+  {
+    name: "include",
+    valueName: "glob",
+    isRepeatable: true,
+    description:
+      "Schema files to pick up (repeatable, default: **/*.{json,jsonc,json5,yaml,yml})",
+  },
+  {
+    name: "exclude",
+    valueName: "glob",
+    isRepeatable: true,
+    description: "Files to skip (repeatable)",
+  },
+  {
+    name: "ignore-file",
+    valueName: "file",
+    description:
+      ".gitignore-style file in each input directory (default: .json-schema-to-dts-ignore)",
+  },
+  {
+    name: "target",
+    alias: "t",
+    valueName: "target",
+    description:
+      "Module kind: d.ts (default), ts or js; ts and js modules also export runtime values",
+  },
+  {
+    name: "output-path",
+    valueName: "template",
+    description:
+      "Output file of each schema, using {dir}, {name}, {base} and {ext} (default: {dir}/{name}{ext})",
+  },
+  {
+    name: "file-name-case",
+    valueName: "case",
+    description:
+      "Casing of output file names: preserve (default), kebab, snake, camel or pascal",
+  },
+  {
+    name: "flatten",
+    description: "Write every output file to the output directory itself",
+  },
+  {
+    name: "header",
+    description:
+      "Start every output file with an @generated do-not-edit header naming its source",
+  },
+  {
+    name: "check",
+    description: "Fail if the output directory is stale, without writing",
+  },
+  {
+    name: "incremental",
+    description: "Skip schemas whose inputs are unchanged since the last run",
+  },
+  {
+    name: "barrels",
+    description:
+      "Write an index.d.ts re-exporting the modules of each directory",
+  },
+  {
+    name: "bundle",
+    valueName: "file",
+    description:
+      "Write every type to a single file, relative to the output directory",
+  },
+  {
+    name: "clean",
+    description: "Remove generated files whose schema no longer exists",
+  },
+  {
+    name: "strict",
+    description: "Fail on unresolved references and unsupported keywords",
+  },
+  {
+    name: "fail-fast",
+    description: "Stop at the first schema file that fails to convert",
+  },
+  {
+    name: "concurrency",
+    alias: "j",
+    valueName: "n",
+    description: "Compile schema files on <n> worker threads (default: 1)",
+  },
+  {
+    name: "watch",
+    alias: "w",
+    description: "Watch the input directory and regenerate on changes",
+  },
+  {
+    name: "debounce",
+    valueName: "ms",
+    description: "Delay before regenerating in watch mode (default: 100)",
+  },
+  { name: "quiet", alias: "q", description: "Only print errors" },
+  { name: "verbose", alias: "v", description: "Print debug output" },
+  { name: "help", alias: "h", description: "Show this help message" },
+  { name: "version", alias: "V", description: "Print the installed version" },
+];
+
+/**
+ * The commands accepted as the first positional argument.
+ */
+const CLI_COMMANDS: Record<string, CliCommand> = {
+  generate: "generate",
+  gen: "generate",
+  help: "help",
+  version: "version",
+};
+
+/**
+ * Accepted spellings for each exports format.
+ */
+const EXPORTS_FORMATS: Record<string, GeneratedTypesExportFormat> = {
+  "unique-exports": "UNIQUE_EXPORTS",
+  unique_exports: "UNIQUE_EXPORTS",
+  unique: "UNIQUE_EXPORTS",
+  "root-only": "ROOT_ONLY",
+  root_only: "ROOT_ONLY",
+  root: "ROOT_ONLY",
+};
+
+/**
+ * Accepted values of `--file-name-case`.
+ */
+const FILE_NAME_CASES: FileNameCase[] = [
+  "preserve",
+  "kebab",
+  "snake",
+  "camel",
+  "pascal",
+];
+
+/**
+ * Accepted values of `--target`.
+ */
+const OUTPUT_TARGETS: OutputTarget[] = ["d.ts", "ts", "js"];
+
+/**
+ * The result of parsing the command line.
+ */
+export interface CliArgs {
+  /** The subcommand to run */
+  command: CliCommand;
+
+  /** Value of `--config` */
+  config?: string;
+
+  /** Values of `--input` */
+  input: string[];
+
+  /** Value of `--output` */
+  output?: string;
+
+  /** Values of `--include` */
+  include: string[];
+
+  /** Values of `--exclude` */
+  exclude: string[];
+
+  /** Value of `--ignore-file` */
+  ignoreFile?: string;
+
+  /** Value of `--exports-format` */
+  exportsFormat?: GeneratedTypesExportFormat;
+
+  /** Value of `--target` */
+  target?: OutputTarget;
+
+  /** Value of `--output-path` */
+  outputPath?: string;
+
+  /** Value of `--file-name-case` */
+  fileNameCase?: FileNameCase;
+
+  /** Whether `--flatten` was given */
+  flatten: boolean;
+
+  /** Whether `--header` was given */
+  header: boolean;
+
+  /** Whether `--check` was given */
+  check: boolean;
+
+  /** Whether `--incremental` was given */
+  incremental: boolean;
+
+  /** Whether `--barrels` was given */
+  barrels: boolean;
+
+  /** Value of `--bundle` */
+  bundle?: string;
+
+  /** Whether `--clean` was given */
+  clean: boolean;
+
+  /** Whether `--strict` was given */
+  strict: boolean;
+
+  /** Whether `--fail-fast` was given */
+  failFast: boolean;
+
+  /** Value of `--concurrency` */
+  concurrency?: number;
+
+  /** Whether `--watch` was given */
+  watch: boolean;
+
+  /** Value of `--debounce`, in milliseconds */
+  debounceMs?: number;
+
+  /** Log level derived from `--quiet` / `--verbose` */
+  logLevel?: LogLevel;
+}
+
+/**
+ * Error raised for invalid command-line usage.
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+/**
+ * Splits raw arguments into option values and positional arguments.
+ * Supports `--name value`, `--name=value`, `-a value` and bundled boolean flags (`-qv`).
+ */
+const tokenize = (
+  argv: string[],
+): {
+  options: Map<string, string | string[] | true>;
+  positionals: string[];
+} => {
+  const options = new Map<string, string | string[] | true>();
+  const positionals: string[] = [];
+
+  const findSpec = (token: string): CliOptionSpec => {
+    const spec = token.startsWith("--")
+      ? CLI_OPTIONS.find((option) => option.name === token.slice(2))
+      : CLI_OPTIONS.find((option) => option.alias === token.slice(1));
+    if (!spec) {
+      throw new CliUsageError(`Unknown option: ${token}`);
+    }
+    return spec;
+  };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+
+    if (arg === "--") {
+      positionals.push(...argv.slice(index + 1));
+      break;
+    }
+
+    if (!arg.startsWith("-") || arg === "-") {
+      positionals.push(arg);
+      continue;
+    }
+
+    // Bundled short flags, e.g. -qv
+    if (!arg.startsWith("--") && arg.length > 2 && !arg.includes("=")) {
+      for (const letter of arg.slice(1)) {
+        const spec = findSpec(`-${letter}`);
+        if (spec.valueName) {
+          throw new CliUsageError(
+            `Option -${letter} expects a value and cannot be bundled`,
+          );
+        }
+        options.set(spec.name, true);
+      }
+      continue;
+    }
+
+    const equalsIndex = arg.indexOf("=");
+    const flag = equalsIndex === -1 ? arg : arg.slice(0, equalsIndex);
+    const spec = findSpec(flag);
+
+    if (!spec.valueName) {
+      if (equalsIndex !== -1) {
+        throw new CliUsageError(`Option ${flag} does not take a value`);
+      }
+      options.set(spec.name, true);
+      continue;
+    }
+
+    const value =
+      equalsIndex === -1 ? argv[++index] : arg.slice(equalsIndex + 1);
+    if (value === undefined || value === "") {
+      throw new CliUsageError(
+        `Option ${flag} expects a <${spec.valueName}> value`,
+      );
+    }
+    if (spec.isRepeatable) {
+      const values = options.get(spec.name);
+      options.set(
+        spec.name,
+        Array.isArray(values) ? [...values, value] : [value],
+      );
+    } else {
+      options.set(spec.name, value);
+    }
+  }
+
+  return { options, positionals };
+};
+
+/**
+ * Parses command-line arguments into a `CliArgs` object.
+ *
+ * @param argv - The arguments after the executable and script name
+ * @returns The parsed arguments
+ * @throws CliUsageError if the arguments are invalid
+ *
+ * @example
+ * parseCliArgs(['generate', '-i', 'schemas', '-o', 'types', '--quiet'])
+ * // => { command: 'generate', config: undefined, input: ['schemas'],
+ * //      output: 'types', include: [], exclude: [], ignoreFile: undefined,
+ * //      exportsFormat: undefined, target: undefined, outputPath: undefined, fileNameCase: undefined,
+ * //      flatten: false, header: false, check: false, incremental: false,
+ * //      barrels: false, bundle: undefined, clean: false, strict: false, failFast: false, concurrency: undefined,
+ * //      watch: false, logLevel: 'error' }
+ */
+export const parseCliArgs = (argv: string[]): CliArgs => {
+  const { options, positionals } = tokenize(argv);
+
+  let command: CliCommand = "generate";
+  if (positionals.length > 0) {
+    const commandName = positionals[0];
+    if (!Object.prototype.hasOwnProperty.call(CLI_COMMANDS, commandName)) {
+      throw new CliUsageError(`Unknown command: ${commandName}`);
+    }
+    command = CLI_COMMANDS[commandName];
+  }
+  if (positionals.length > 1) {
+    throw new CliUsageError(`Unexpected argument: ${positionals[1]}`);
+  }
+
+  if (options.has("help")) command = "help";
+  else if (options.has("version")) command = "version";
+
+  if (options.has("quiet") && options.has("verbose")) {
+    throw new CliUsageError("--quiet and --verbose cannot be used together");
+  }
+
+  const rawFormat = options.get("exports-format");
+  let exportsFormat: GeneratedTypesExportFormat | undefined;
+  if (typeof rawFormat === "string") {
+    const formatName = rawFormat.toLowerCase();
+    if (!Object.prototype.hasOwnProperty.call(EXPORTS_FORMATS, formatName)) {
+      throw new CliUsageError(
+        `Invalid --exports-format "${rawFormat}". Expected unique-exports or root-only`,
+      );
+    }
+    exportsFormat = EXPORTS_FORMATS[formatName];
+  }
+
+  const rawTarget = options.get("target");
+  let target: OutputTarget | undefined;
+  if (typeof rawTarget === "string") {
+    target = rawTarget.toLowerCase().replace(/^\./, "") as OutputTarget;
+    if (!OUTPUT_TARGETS.includes(target)) {
+      throw new CliUsageError(
+        `Invalid --target "${rawTarget}". Expected ${OUTPUT_TARGETS.join(", ")}`,
+      );
+    }
+  }
+
+  const rawFileNameCase = options.get("file-name-case");
+  let fileNameCase: FileNameCase | undefined;
+  if (typeof rawFileNameCase === "string") {
+    fileNameCase = rawFileNameCase.toLowerCase() as FileNameCase;
+    if (!FILE_NAME_CASES.includes(fileNameCase)) {
+      throw new CliUsageError(
+        `Invalid --file-name-case "${rawFileNameCase}". Expected ${FILE_NAME_CASES.join(", ")}`,
+      );
+    }
+  }
+
+  const rawDebounce = options.get("debounce");
+  let debounceMs: number | undefined;
+  if (typeof rawDebounce === "string") {
+    debounceMs = Number(rawDebounce);
+    if (!Number.isInteger(debounceMs) || debounceMs < 0) {
+      throw new CliUsageError(
+        `Invalid --debounce "${rawDebounce}". Expected a non-negative integer`,
+      );
+    }
+  }
+
+  const rawConcurrency = options.get("concurrency");
+  let concurrency: number | undefined;
+  if (typeof rawConcurrency === "string") {
+    concurrency = Number(rawConcurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new CliUsageError(
+        `Invalid --concurrency "${rawConcurrency}". Expected a positive integer`,
+      );
+    }
+  }
+
+  const getValues = (name: string): string[] => {
+    const values = options.get(name);
+    return Array.isArray(values) ? values : [];
+  };
+  const config = options.get("config");
+  const output = options.get("output");
+  const ignoreFile = options.get("ignore-file");
+  const bundle = options.get("bundle");
+  const outputPath = options.get("output-path");
+
+  return {
+    command,
+    config: typeof config === "string" ? config : undefined,
+    input: getValues("input"),
+    output: typeof output === "string" ? output : undefined,
+    include: getValues("include"),
+    exclude: getValues("exclude"),
+    ignoreFile: typeof ignoreFile === "string" ? ignoreFile : undefined,
+    exportsFormat,
+    target,
+    outputPath: typeof outputPath === "string" ? outputPath : undefined,
+    fileNameCase,
+    flatten: options.has("flatten"),
+    header: options.has("header"),
+    check: options.has("check"),
+    incremental: options.has("incremental"),
+    barrels: options.has("barrels"),
+    bundle: typeof bundle === "string" ? bundle : undefined,
+    clean: options.has("clean"),
+    strict: options.has("strict"),
+    failFast: options.has("fail-fast"),
+    concurrency,
+    watch: options.has("watch"),
+    debounceMs,
+    logLevel: options.has("quiet")
+      ? "error"
+      : options.has("verbose")
+        ? "debug"
+        : undefined,
+  };
+};
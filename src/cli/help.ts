@@ -0,0 +1,48 @@
+/**
+ * Help text for the command-line interface.
+ */
+
+import { CLI_OPTIONS } from "./args";
+
+/**
+ * Formats the `--help` output from the option table.
+ *
+ * @param binName - The executable name shown in the usage line
+ * @returns The help text, ending with a newline
+ */
+export const formatHelp = (binName: string): string => {
+  const optionLabels = CLI_OPTIONS.map((option) => {
+    const alias = option.alias ? `-${option.alias}, ` : "    ";
+    const value = option.valueName ? ` <${option.valueName}>` : "";
+    return `${alias}--${option.name}${value}`;
+  });
+  const labelWidth = Math.max(...optionLabels.map((label) => label.length));
+
+  const optionLines = CLI_OPTIONS.map(
+    (option, index) =>
+      `  ${optionLabels[index].padEnd(labelWidth)}  ${option.description}`,
+  );
+
+  return [
+    `Usage: ${binName} [command] [options]`,
+    "",
+    "Convert JSON Schema files to TypeScript type definition (.d.ts) files.",
+    "",
+    "Commands:",
+    "  generate  Generate .d.ts files (default)",
+    "  help      Show this help message",
+    "  version   Print the installed version",
+    "",
+    "Options:",
+    ...optionLines,
+    "",
+    "Exit codes:",
+    "  0  All schema files were converted (or watch mode was stopped)",
+    "  1  One or more schema files failed to convert, or --check found stale files",
+    "  2  Invalid usage",
+    "",
+    "Example:",
+    `  ${binName} --input ./schemas --output ./src/types --exports-format root-only`,
+    "",
+  ].join("\n");
+};
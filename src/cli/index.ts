@@ -0,0 +1,14 @@
+/**
+ * Command-line interface.
+ */
+
+export {
+  parseCliArgs,
+  CliArgs,
+  CliCommand,
+  CliOptionSpec,
+  CliUsageError,
+  CLI_OPTIONS,
+} from "./args";
+export { formatHelp } from "./help";
+export { runCli, RunCliParams, CliOutput, EXIT_CODES } from "./run";
@@ -0,0 +1,205 @@
+/**
+ * Command-line entry logic.
+ * Kept free of `process` access so it can be driven from tests.
+ */
+
+import * as fs from "fs";
+import { ConfigError, GenerationFailedError, toTypes } from "../index";
+import { ToTypesResult } from "../types";
+import { loadConfig } from "../config";
+import { watchTypes } from "../watch";
+import { getPackageInfo } from "../pipeline";
+import { CliUsageError, parseCliArgs } from "./args";
+import { formatHelp } from "./help";
+
+/**
+ * Exit codes returned by the CLI.
+ */
+export const EXIT_CODES = {
+  /** Every schema file was converted */
+  success: 0,
+  /** At least one schema file failed to convert, or `--check` found stale files */
+  generationFailed: 1,
+  /** The command line was invalid */
+  usageError: 2,
+} as const;
+
+/**
+ * A sink for CLI output, such as `process.stdout`.
+ */
+export interface CliOutput {
+  write(chunk: string): unknown;
+}
+
+/**
+ * Parameters for running the CLI.
+ */
+export interface RunCliParams {
+  /** The arguments after the executable and script name */
+  argv: string[];
+
+  /** Where regular output is written (defaults to `process.stdout`) */
+  stdout?: CliOutput;
+
+  /** Where errors are written (defaults to `process.stderr`) */
+  stderr?: CliOutput;
+
+  /** Where the configuration file search starts (defaults to `process.cwd()`) */
+  cwd?: string;
+}
+
+/**
+ * The executable name, as declared in package.json `bin`.
+ */
+const BIN_NAME = "json-schema-to-dts";
+
+/**
+ * Runs the CLI with the given arguments.
+ *
+ * @param params - The CLI parameters
+ * @returns The process exit code (see `EXIT_CODES`)
+ */
+export const runCli = async ({
+  argv,
+  stdout = process.stdout,
+  stderr = process.stderr,
+  cwd = process.cwd(),
+}: RunCliParams): Promise<number> => {
+  try {
+    const args = parseCliArgs(argv);
+
+    if (args.command === "help") {
+      stdout.write(formatHelp(BIN_NAME));
+      return EXIT_CODES.success;
+    }
+
+    if (args.command === "version") {
+      stdout.write(`${getPackageInfo().version}\n`);
+      return EXIT_CODES.success;
+    }
+
+    const { config } = await loadConfig({
+      cwd,
+      configFile: args.config,
+      overrides: {
+        pathToJsonSchemas:
+          args.input.length === 0
+            ? undefined
+            : args.input.length === 1
+              ? args.input[0]
+              : args.input,
+        pathToOutputDirectory: args.output,
+        include: args.include.length > 0 ? args.include : undefined,
+        exclude: args.exclude.length > 0 ? args.exclude : undefined,
+        ignoreFile: args.ignoreFile,
+        generatedTypesExportsFormat: args.exportsFormat,
+        target: args.target,
+        outputPath: args.outputPath,
+        fileNameCase: args.fileNameCase,
+        flatten: args.flatten || undefined,
+        header: args.header || undefined,
+        check: args.check || undefined,
+        incremental: args.incremental || undefined,
+        barrels: args.barrels || undefined,
+        bundle: args.bundle ? { fileName: args.bundle } : undefined,
+        clean: args.clean || undefined,
+        strict: args.strict || undefined,
+        errorPolicy: args.failFast ? "failFast" : undefined,
+        concurrency: args.concurrency,
+        logLevel: args.logLevel,
+        debounceMs: args.debounceMs,
+      },
+    });
+
+    const inputs = Array.isArray(config.pathToJsonSchemas)
+      ? config.pathToJsonSchemas
+      : [config.pathToJsonSchemas];
+    for (const input of inputs) {
+      if (!fs.existsSync(input) || !fs.statSync(input).isDirectory()) {
+        throw new CliUsageError(`Input directory not found: ${input}`);
+      }
+    }
+
+    if (args.watch) {
+      const watcher = await watchTypes(config);
+      await waitForTermination();
+      watcher.close();
+      return EXIT_CODES.success;
+    }
+
+    let result: ToTypesResult;
+    try {
+      result = await toTypes(config);
+    } catch (error) {
+      if (!(error instanceof GenerationFailedError)) throw error;
+      result = error.result;
+    }
+    if (config.logLevel !== "error" && config.logLevel !== "silent") {
+      stdout.write(formatSummary(result));
+    }
+
+    if (result.failedFiles.length > 0) {
+      stderr.write(
+        `Failed to convert ${result.failedFiles.length} schema file(s):\n` +
+          result.failedFiles
+            .map(
+              ({ schemaPath, error }) =>
+                `  ${schemaPath}: ${formatError(error)}\n`,
+            )
+            .join(""),
+      );
+      return EXIT_CODES.generationFailed;
+    }
+
+    if (result.check && !result.check.isUpToDate) {
+      return EXIT_CODES.generationFailed;
+    }
+
+    return EXIT_CODES.success;
+  } catch (error) {
+    if (error instanceof CliUsageError || error instanceof ConfigError) {
+      stderr.write(
+        `${BIN_NAME}: ${error.message}\nRun '${BIN_NAME} --help' for usage.\n`,
+      );
+      return EXIT_CODES.usageError;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Resolves once the process is asked to stop (Ctrl+C or SIGTERM).
+ */
+const waitForTermination = (): Promise<void> =>
+  new Promise((resolve) => {
+    const stop = () => {
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      resolve();
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+  });
+
+/**
+ * Formats an unknown thrown value, indenting continuation lines such as code frames.
+ */
+const formatError = (error: unknown): string =>
+  (error instanceof Error ? error.message : String(error)).replace(
+    /\n(?=.)/g,
+    "\n    ",
+  );
+
+/**
+ * Formats the totals of a run as a single summary line.
+ */
+const formatSummary = ({ totals, durationMs }: ToTypesResult): string => {
+  const counts = Object.entries(totals.byStatus)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status}`);
+  return (
+    `Processed ${totals.schemaFiles} schema file(s) in ${durationMs}ms` +
+    (counts.length > 0 ? ` (${counts.join(", ")})` : "") +
+    "\n"
+  );
+};
@@ -0,0 +1,519 @@
+/**
+ * In-memory compilation of several JSON Schema documents into a single module.
+ *
+ * The documents are placed side by side in one synthetic root document and
+ * their references are rewritten to point into it. A schema referenced from
+ * several documents (through a relative path or its `$id`) then has a single
+ * pointer, so it is generated once, and type names are made unique across
+ * the whole bundle by a shared registry.
+ */
+
+import { Diagnostic, GeneratedTypesExportFormat, JsonSchema } from "../types";
+import { createTypeNameRegistry, TypeNameRegistry } from "../registry";
+import { REFERENCE_KEYWORDS, scanDocuments } from "../scanning";
+import { generateTypeDefinition } from "../generation";
+import {
+  appendPointer,
+  createSchemaStore,
+  toDocumentUri,
+  resolvePointer,
+} from "../resolution";
+import { SchemaError, UnresolvedReferenceError } from "../errors";
+import { toPascalCase } from "../utils";
+import { CompileSchemaOptions, inspectSchema } from "./compile-schema";
+import { renderModule } from "./render-module";
+
+/**
+ * Key of the synthetic root document under which the documents are placed.
+ */
+const DOCUMENTS_KEY = "documents";
+
+/**
+ * Matches a bundle pointer and captures the index of its document.
+ */
+const DOCUMENT_POINTER_PATTERN = new RegExp(
+  `^#/${DOCUMENTS_KEY}/(\\d+)(?=/|$)`,
+);
+
+/**
+ * A schema document to bundle.
+ */
+export interface BundleDocument {
+  /**
+   * Path of the document relative to the schema directory, with `/` separators.
+   * Relative `$ref` paths are resolved against it, and namespaces are named after it.
+   */
+  id: string;
+
+  /** The parsed schema */
+  schema: JsonSchema;
+
+  /** Overrides `CompileBundleOptions.generatedTypesExportsFormat` for this document */
+  generatedTypesExportsFormat?: GeneratedTypesExportFormat;
+
+  /** Overrides `CompileBundleOptions.strict` for this document */
+  strict?: boolean;
+}
+
+/**
+ * Options for compiling a bundle. A bundle is always a declaration module.
+ */
+export interface CompileBundleOptions extends Omit<
+  CompileSchemaOptions,
+  "target" | "runtimeValues" | "schemaPath" | "resolveDocument" | "store"
+> {
+  /**
+   * If true, the types of each document are declared in a namespace named
+   * after its path (e.g. `V2Offer` for `v2/offer.schema.json`), so type names
+   * only need to be unique within a document. Every type of a namespace is
+   * exported, since declaration files make all namespace members visible.
+   * @default false
+   */
+  namespaces?: boolean;
+}
+
+/**
+ * What a bundle contains for one document.
+ */
+export interface BundledDocument {
+  /** The document's `id` */
+  id: string;
+
+  /** The namespace declaring the document's types, or null without `namespaces` */
+  namespace: string | null;
+
+  /** Names of the types declared for this document, in declaration order */
+  types: string[];
+
+  /** Names of the types exported for this document */
+  exportedTypes: string[];
+
+  /** Problems and notices found while compiling this document */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Result of compiling a bundle.
+ */
+export interface CompileBundleResult {
+  /** The full module text, or an empty string if no document produced types */
+  code: string;
+
+  /** One entry per document, in the order they were given */
+  documents: BundledDocument[];
+}
+
+/**
+ * Compiles several JSON Schema documents to the text of one TypeScript
+ * declaration module.
+ *
+ * @param documents - The documents, in the order their types are declared
+ * @param options - The compile options
+ * @returns The generated code and, per document, its type names and diagnostics
+ * @throws UnresolvedReferenceError or UnsupportedKeywordError in strict mode,
+ *   with `schemaPath` set to the id of the offending document
+ *
+ * @example
+ * const { code } = compileBundle([
+ *   { id: 'user.json', schema: { title: 'User', properties: { address: { $ref: './address.json' } } } },
+ *   { id: 'address.json', schema: { title: 'Address', type: 'object' } },
+ * ]);
+ * // code declares `User` and `Address` once each
+ */
+export const compileBundle = (
+  documents: BundleDocument[],
+  options: CompileBundleOptions = {},
+): CompileBundleResult => {
+  const { namespaces = false } = options;
+  const diagnostics = documents.map((): Diagnostic[] => []);
+
+  /**
+   * Records a warning for a document, or throws the matching error in strict mode.
+   */
+  const reportProblem = (
+    index: number,
+    diagnostic: Diagnostic,
+    error: SchemaError,
+  ): void => {
+    if (documents[index].strict ?? options.strict ?? false) {
+      error.schemaPath = documents[index].id;
+      throw error;
+    }
+    diagnostics[index].push(diagnostic);
+  };
+
+  // Documents are found by path and by `$id`; the first document with an `$id` wins
+  const store = createSchemaStore();
+  const documentUris = documents.map(({ id }) => toDocumentUri(id));
+  const indexesByDocumentUri = new Map(
+    documentUris.map((uri, index) => [uri, index] as const),
+  );
+  documents.forEach(({ schema }, index) =>
+    store.add(schema, documentUris[index]),
+  );
+  const indexesByUri = new Map<string, number>();
+  const isIncluded = documents.map(({ schema }, index) => {
+    const uri = getDocumentUri(schema);
+    if (uri === null) return true;
+    const firstIndex = indexesByUri.get(uri);
+    if (firstIndex === undefined) {
+      indexesByUri.set(uri, index);
+      return true;
+    }
+    diagnostics[index].push({
+      severity: "warning",
+      code: "duplicate-id",
+      message: `$id "${uri}" is also declared by ${documents[firstIndex].id}; this schema is left out and references to it use that one`,
+      pointer: "#",
+    });
+    return false;
+  });
+
+  /**
+   * Rewrites a reference made at a pointer of a document into a pointer in
+   * the bundle, or returns null if it does not point at a bundled document.
+   */
+  const resolveReference = (
+    ref: string,
+    index: number,
+    pointer: string,
+  ): string | null => {
+    const location = store.resolve(ref, {
+      documentUri: documentUris[index],
+      pointer,
+    });
+    let targetIndex = location
+      ? indexesByDocumentUri.get(location.documentUri)
+      : undefined;
+    if (!location || targetIndex === undefined) return null;
+    if (!isIncluded[targetIndex]) {
+      const uri = getDocumentUri(documents[targetIndex].schema)!;
+      targetIndex = indexesByUri.get(uri)!;
+    }
+    return `${getDocumentPointer(targetIndex)}${location.pointer.slice(1)}`;
+  };
+
+  // Place the documents in one root, with their references rewritten to point into it
+  const referenceSites = new Map<
+    string,
+    { index: number; ref: string; pointer: string }
+  >();
+  // References to documents outside the bundle, emitted as unknown
+  const externalRefs = new Set<string>();
+  const bundledSchemas = documents.map(({ schema }, index) => {
+    if (!isIncluded[index]) return {};
+    const sites = inspectSchema(schema, (diagnostic, error) =>
+      reportProblem(index, diagnostic, error),
+    );
+    for (const [ref, pointer] of sites) {
+      const bundledRef = resolveReference(ref, index, pointer) ?? ref;
+      if (!referenceSites.has(bundledRef)) {
+        referenceSites.set(bundledRef, { index, ref, pointer });
+      }
+      if (!bundledRef.startsWith("#")) {
+        externalRefs.add(bundledRef);
+        reportProblem(
+          index,
+          {
+            severity: "warning",
+            code: "external-ref",
+            message: `External reference "${ref}" is not resolved and is emitted as unknown`,
+          },
+          new UnresolvedReferenceError({ ref, pointer }),
+        );
+      }
+    }
+    return rewriteReferences(schema, (ref, pointer) =>
+      resolveReference(ref, index, pointer),
+    );
+  });
+  const root = { [DOCUMENTS_KEY]: bundledSchemas } as JsonSchema;
+
+  // With namespaces, each document has its own registry, so names only clash within a document
+  const sharedRegistry = createTypeNameRegistry();
+  const documentRegistries = documents.map(() =>
+    namespaces ? createTypeNameRegistry() : sharedRegistry,
+  );
+  const getRegistry = (pointer: string): TypeNameRegistry => {
+    const owner = getPointerOwner(pointer);
+    return owner === null ? sharedRegistry : documentRegistries[owner];
+  };
+  const registry: TypeNameRegistry = {
+    register: (pointer, name) => getRegistry(pointer).register(pointer, name),
+    get: (pointer) => getRegistry(pointer).get(pointer),
+    getBaseName: (pointer) => getRegistry(pointer).getBaseName(pointer),
+    delete: (pointer) => getRegistry(pointer).delete(pointer),
+    getAll: () =>
+      new Map(
+        [sharedRegistry, ...new Set(documentRegistries)].flatMap(
+          (documentRegistry) => Array.from(documentRegistry.getAll()),
+        ),
+      ),
+  };
+
+  const namespaceRegistry = createTypeNameRegistry();
+  const namespaceNames = documents.map(({ id }) =>
+    namespaces
+      ? namespaceRegistry.register(id, toPascalCase(stripSchemaExtension(id)))
+      : null,
+  );
+
+  // A document referenced as a whole needs a name even without a title
+  for (const bundledRef of referenceSites.keys()) {
+    const owner = getPointerOwner(bundledRef);
+    if (
+      owner !== null &&
+      bundledRef === getDocumentPointer(owner) &&
+      !documents[owner].schema.title
+    ) {
+      registry.register(
+        bundledRef,
+        toPascalCase(
+          stripSchemaExtension(documents[owner].id.split("/").pop()!),
+        ),
+      );
+    }
+  }
+
+  // Pass 1: Scan and register types across every document
+  scanDocuments({
+    documents: bundledSchemas.flatMap((schema, index) =>
+      isIncluded[index] ? [{ schema, pointer: getDocumentPointer(index) }] : [],
+    ),
+    rootSchema: root,
+    registry,
+  });
+
+  // Pass 2: Generate type definitions, grouped by document
+  const allRegistered = registry.getAll();
+  const sortedPointers = Array.from(allRegistered.keys()).sort();
+  const bundled: BundledDocument[] = [];
+  const definitionsByDocument: string[][] = [];
+
+  for (const [
+    index,
+    { id, generatedTypesExportsFormat },
+  ] of documents.entries()) {
+    const typeDefinitions: string[] = [];
+    const types: string[] = [];
+
+    const referenceView = namespaces
+      ? createNamespacedView({ registry, index, namespaceNames })
+      : registry;
+    const documentView: TypeNameRegistry = {
+      ...referenceView,
+      get: (pointer) =>
+        externalRefs.has(pointer) ? "unknown" : referenceView.get(pointer),
+    };
+
+    const pointers = sortedPointers.filter((pointer) => {
+      const owner = getPointerOwner(pointer);
+      return owner === null
+        ? referenceSites.get(pointer)?.index === index
+        : owner === index;
+    });
+
+    for (const pointer of pointers) {
+      const fragment = resolvePointer({ root, pointer });
+      if (!fragment) {
+        const site = referenceSites.get(pointer);
+        const ref = site?.ref ?? toDocumentPointer(pointer);
+        reportProblem(
+          site?.index ?? index,
+          {
+            severity: "warning",
+            code: "unresolved-ref",
+            message: `Reference "${ref}" does not point at a schema in the bundle`,
+            pointer: site?.pointer ?? toDocumentPointer(pointer),
+          },
+          new UnresolvedReferenceError({ ref, pointer: site?.pointer }),
+        );
+        continue;
+      }
+
+      const result = generateTypeDefinition({
+        name: allRegistered.get(pointer)!,
+        schema: fragment,
+        rootSchema: root,
+        registry: documentView,
+        pointer,
+      });
+      typeDefinitions.push(result.definition);
+      types.push(result.typeName);
+    }
+
+    if (isIncluded[index] && types.length === 0) {
+      diagnostics[index].push({
+        severity: "info",
+        code: "no-types",
+        message:
+          "Schema produced no types; give the root schema a title or add definitions",
+        pointer: "#",
+      });
+    }
+
+    const exportsFormat =
+      generatedTypesExportsFormat ??
+      options.generatedTypesExportsFormat ??
+      "UNIQUE_EXPORTS";
+    bundled.push({
+      id,
+      namespace: namespaceNames[index],
+      types,
+      exportedTypes:
+        types.length === 0
+          ? []
+          : exportsFormat === "ROOT_ONLY" && !namespaces
+            ? [types[0]]
+            : [...new Set(types)],
+      diagnostics: diagnostics[index],
+    });
+    definitionsByDocument.push(typeDefinitions);
+  }
+
+  return {
+    code: namespaces
+      ? renderNamespaces(definitionsByDocument, namespaceNames)
+      : renderBundle(definitionsByDocument, bundled),
+    documents: bundled,
+  };
+};
+
+/**
+ * Returns the pointer of a document in the bundle.
+ */
+const getDocumentPointer = (index: number): string =>
+  `#/${DOCUMENTS_KEY}/${index}`;
+
+/**
+ * Returns the index of the document a bundle pointer belongs to, or null for
+ * pointers outside every document (e.g. unresolvable anchors).
+ */
+const getPointerOwner = (pointer: string): number | null => {
+  const match = DOCUMENT_POINTER_PATTERN.exec(pointer);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Converts a bundle pointer back to a pointer within its document.
+ */
+const toDocumentPointer = (pointer: string): string =>
+  pointer.replace(DOCUMENT_POINTER_PATTERN, "#");
+
+/**
+ * Returns a document's `$id` without its empty fragment, or null if it has none.
+ */
+const getDocumentUri = (schema: JsonSchema): string | null =>
+  typeof schema.$id === "string" && schema.$id !== ""
+    ? schema.$id.replace(/#$/, "")
+    : null;
+
+/**
+ * Strips the schema file extension (`.json`, `.jsonc`, `.json5`, `.yaml` or
+ * `.yml`) and the first
+ * `.schema` occurrence, like output file names.
+ */
+const stripSchemaExtension = (id: string): string =>
+  id.replace(/\.(?:json[c5]?|ya?ml)$/i, "").replace(".schema", "");
+
+/**
+ * Returns true for `$ref`, `$dynamicRef` and `$recursiveRef`.
+ */
+const isReferenceKeyword = (key: string): boolean =>
+  (REFERENCE_KEYWORDS as readonly string[]).includes(key);
+
+/**
+ * Returns a deep copy of a schema with every reference rewritten; the rewriter
+ * also gets the pointer of the schema making the reference.
+ * References the rewriter returns null for are kept as they are.
+ */
+const rewriteReferences = (
+  schema: JsonSchema,
+  rewrite: (ref: string, pointer: string) => string | null,
+): JsonSchema => {
+  const visit = (node: unknown, pointer: string): unknown => {
+    if (!node || typeof node !== "object") return node;
+    if (Array.isArray(node)) {
+      return node.map((item, index) =>
+        visit(item, appendPointer(pointer, index)),
+      );
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      copy[key] =
+        isReferenceKeyword(key) && typeof value === "string"
+          ? (rewrite(value, pointer) ?? value)
+          : visit(value, appendPointer(pointer, key));
+    }
+    return copy;
+  };
+  return visit(schema, "#") as JsonSchema;
+};
+
+/**
+ * Parameters for creating a namespaced registry view.
+ */
+interface NamespacedViewParams {
+  registry: TypeNameRegistry;
+  index: number;
+  namespaceNames: (string | null)[];
+}
+
+/**
+ * Wraps the bundle registry for generating one document's types: names of
+ * types declared by another document are qualified with its namespace.
+ */
+const createNamespacedView = ({
+  registry,
+  index,
+  namespaceNames,
+}: NamespacedViewParams): TypeNameRegistry => ({
+  ...registry,
+  get(pointer) {
+    const name = registry.get(pointer);
+    const owner = getPointerOwner(pointer);
+    return name && owner !== null && owner !== index
+      ? `${namespaceNames[owner]}.${name}`
+      : name;
+  },
+});
+
+/**
+ * Renders every document's definitions followed by a single export block.
+ */
+const renderBundle = (
+  definitionsByDocument: string[][],
+  documents: BundledDocument[],
+): string => {
+  const typeDefinitions = definitionsByDocument.flat();
+  if (typeDefinitions.length === 0) return "";
+
+  return renderModule({
+    typeDefinitions,
+    exportedTypes: documents.flatMap(({ exportedTypes }) => exportedTypes),
+    generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+  });
+};
+
+/**
+ * Renders one exported namespace per document that produced types.
+ */
+const renderNamespaces = (
+  definitionsByDocument: string[][],
+  namespaceNames: (string | null)[],
+): string => {
+  const blocks = definitionsByDocument.flatMap((typeDefinitions, index) => {
+    if (typeDefinitions.length === 0) return [];
+    const body = typeDefinitions
+      .map((definition) =>
+        definition
+          .replace(/^(interface|type) /m, "export $1 ")
+          .replace(/^(?=.)/gm, "  "),
+      )
+      .join("\n\n");
+    return [`export namespace ${namespaceNames[index]} {\n${body}\n}`];
+  });
+
+  return blocks.length === 0 ? "" : blocks.join("\n\n") + "\n";
+};
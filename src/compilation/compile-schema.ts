@@ -0,0 +1,380 @@
+/**
+ * In-memory compilation of a single JSON Schema document.
+ * Runs the scan → resolve → generate pipeline without touching the filesystem,
+ * so it can be used from bundler plugins, browsers and edge runtimes.
+ */
+
+import {
+  Diagnostic,
+  GeneratedTypesExportFormat,
+  JsonSchema,
+  OutputTarget,
+  RuntimeValueOptions,
+} from "../types";
+import { createTypeNameRegistry, TypeNameRegistry } from "../registry";
+import { getSchemaReference, scanSchema } from "../scanning";
+import {
+  collectRuntimeValues,
+  generateTypeDefinition,
+  renderRuntimeValue,
+  RuntimeValueSource,
+} from "../generation";
+import {
+  createSchemaStore,
+  forEachSubschema,
+  normalizePointer,
+  toDocumentUri,
+  resolvePointer,
+  SchemaStore,
+} from "../resolution";
+import {
+  SchemaError,
+  UnresolvedReferenceError,
+  UnsupportedKeywordError,
+} from "../errors";
+import { renderModule } from "./render-module";
+import { createImportResolver, ExternalDocument } from "./external-references";
+
+/**
+ * Keywords that constrain a schema's type but are ignored by the generator.
+ */
+const UNSUPPORTED_KEYWORDS = [
+  "not",
+  "if",
+  "then",
+  "else",
+  "patternProperties",
+  "dependentSchemas",
+  "dependencies",
+  "prefixItems",
+  "unevaluatedProperties",
+  "unevaluatedItems",
+];
+
+/**
+ * Options for compiling a schema.
+ */
+export interface CompileSchemaOptions {
+  /**
+   * Determines how generated types are exported.
+   * @default 'UNIQUE_EXPORTS'
+   */
+  generatedTypesExportsFormat?: GeneratedTypesExportFormat;
+
+  /**
+   * If true, unresolved references and unsupported keywords throw an
+   * `UnresolvedReferenceError` or `UnsupportedKeywordError` instead of being
+   * reported as warnings.
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * The kind of module to generate. `'ts'` and `'js'` modules also declare the
+   * runtime values selected by `runtimeValues`; for `'js'`, `declarations`
+   * holds the matching `.d.ts` module.
+   * @default 'd.ts'
+   */
+  target?: OutputTarget;
+
+  /**
+   * Which runtime values `'ts'` and `'js'` modules declare.
+   * @default { enums: true, consts: true, schema: true }
+   */
+  runtimeValues?: RuntimeValueOptions;
+
+  /**
+   * Path of the schema relative to the schema directory, with `/` separators,
+   * or the URI of a schema that is not a schema file (e.g. a loaded one).
+   * Relative `$ref` paths to other documents are resolved against it.
+   * @default ''
+   */
+  schemaPath?: string;
+
+  /**
+   * Returns the document at a path relative to the schema directory, or null
+   * if there is none. A `$ref` to a type exported by another document is then
+   * imported from that document's module (`import type { Address } from
+   * "./address"`) instead of being reported as external. Documents that are
+   * not schema files are requested by their URI.
+   */
+  resolveDocument?: (schemaPath: string) => ExternalDocument | null;
+
+  /**
+   * The store `$ref`s are resolved through, so a reference can name another
+   * document by its `$id` (`https://example.com/address.json`). The schema is
+   * added to it under the URI of `schemaPath`.
+   * @default an empty store
+   */
+  store?: SchemaStore;
+}
+
+/**
+ * Result of compiling a schema.
+ */
+export interface CompileSchemaResult {
+  /** The full module text, or an empty string if the schema produced no types */
+  code: string;
+
+  /** For the 'js' target, the declaration module typing `code`; undefined otherwise */
+  declarations?: string;
+
+  /** Names of the generated types, in declaration order (root type first, when it has one) */
+  types: string[];
+
+  /** Names of the types exported from the module, according to the exports format */
+  exportedTypes: string[];
+
+  /** Names of the runtime values exported from the module; empty for the 'd.ts' target */
+  exportedValues: string[];
+
+  /** Problems and notices found while compiling */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Reports the unsupported keywords used in a schema and finds where each
+ * reference is first used.
+ *
+ * @param schema - The schema document
+ * @param reportProblem - Receives a warning and the matching strict-mode error per keyword
+ * @returns The pointer of the first subschema using each `$ref` value
+ */
+export const inspectSchema = (
+  schema: JsonSchema,
+  reportProblem: (diagnostic: Diagnostic, error: SchemaError) => void,
+): Map<string, string> => {
+  const referenceSites = new Map<string, string>();
+  forEachSubschema(schema, (subschema, pointer) => {
+    const ref = getSchemaReference(subschema);
+    if (ref !== undefined && !referenceSites.has(ref)) {
+      referenceSites.set(ref, pointer);
+    }
+    for (const keyword of UNSUPPORTED_KEYWORDS) {
+      if (Object.prototype.hasOwnProperty.call(subschema, keyword)) {
+        reportProblem(
+          {
+            severity: "warning",
+            code: "unsupported-keyword",
+            message: `Keyword "${keyword}" is not supported and is ignored`,
+            pointer,
+          },
+          new UnsupportedKeywordError({ keyword, pointer }),
+        );
+      }
+    }
+  });
+  return referenceSites;
+};
+
+/**
+ * Compiles a JSON Schema document to the text of a TypeScript declaration module.
+ *
+ * @param schema - The parsed JSON Schema document
+ * @param options - The compile options
+ * @returns The generated code, type names and diagnostics
+ * @throws UnresolvedReferenceError or UnsupportedKeywordError in strict mode
+ *
+ * @example
+ * const { code, types } = compileSchema({
+ *   title: 'User',
+ *   type: 'object',
+ *   properties: { id: { type: 'string' } },
+ * });
+ * // types => ['User', 'UserId']
+ */
+export const compileSchema = (
+  schema: JsonSchema,
+  options: CompileSchemaOptions = {},
+): CompileSchemaResult => {
+  const {
+    generatedTypesExportsFormat = "UNIQUE_EXPORTS",
+    strict = false,
+    target = "d.ts",
+    runtimeValues = {},
+    schemaPath = "",
+    resolveDocument = () => null,
+    store = createSchemaStore(),
+  } = options;
+  const diagnostics: Diagnostic[] = [];
+
+  /**
+   * Records a warning, or throws the matching error in strict mode.
+   */
+  const reportProblem = (diagnostic: Diagnostic, error: SchemaError): void => {
+    if (strict) throw error;
+    diagnostics.push(diagnostic);
+  };
+
+  // Find where each reference is used and which unsupported keywords appear
+  const referenceSites = inspectSchema(schema, reportProblem);
+
+  // Create a fresh registry for this schema
+  const registry = createTypeNameRegistry();
+
+  // Pass 1: Scan and register types
+  const { references } = scanSchema({ schema, registry });
+
+  // References to other documents become imports of the types they name
+  store.add(schema, toDocumentUri(schemaPath));
+  const imports = createImportResolver({
+    schemaPath,
+    resolveDocument,
+    registry,
+    store,
+  });
+  const importKeys = new Map<string, string>();
+  const unimportedTypes = new Map<string, string>();
+  for (const ref of references) {
+    if (ref.startsWith("#")) continue;
+    const resolution = imports.resolve(ref, referenceSites.get(ref));
+    if (resolution.key !== null) {
+      importKeys.set(ref, resolution.key);
+      continue;
+    }
+    unimportedTypes.set(ref, resolution.type);
+    reportProblem(
+      {
+        severity: "warning",
+        code: "external-ref",
+        message: resolution.message,
+      },
+      new UnresolvedReferenceError({ ref, pointer: referenceSites.get(ref) }),
+    );
+  }
+  const documentView: TypeNameRegistry = {
+    ...registry,
+    get: (pointer) =>
+      unimportedTypes.get(pointer) ??
+      registry.get(importKeys.get(pointer) ?? pointer),
+  };
+
+  // Pass 2: Generate type definitions
+  const typeDefinitions: string[] = [];
+  const types: string[] = [];
+  const typeSources: RuntimeValueSource[] = [];
+
+  // Imported types are registered under keys outside the document
+  const allRegistered = registry.getAll();
+  const sortedPointers = Array.from(allRegistered.keys())
+    .filter((pointer) => pointer.startsWith("#"))
+    .sort();
+
+  // Local references as written, by the canonical pointer they are registered under
+  const localReferences = new Map<string, string>();
+  for (const ref of referenceSites.keys()) {
+    if (ref.startsWith("#")) localReferences.set(normalizePointer(ref), ref);
+  }
+
+  for (const pointer of sortedPointers) {
+    const typeName = allRegistered.get(pointer)!;
+    const fragment = resolvePointer({ root: schema, pointer });
+
+    if (!fragment) {
+      const ref = localReferences.get(pointer) ?? pointer;
+      reportProblem(
+        {
+          severity: "warning",
+          code: "unresolved-ref",
+          message: `Reference "${ref}" does not point at a schema in this document`,
+          pointer,
+        },
+        new UnresolvedReferenceError({
+          ref,
+          pointer: referenceSites.get(ref),
+        }),
+      );
+      continue;
+    }
+
+    const result = generateTypeDefinition({
+      name: typeName,
+      schema: fragment,
+      rootSchema: schema,
+      registry: documentView,
+      pointer,
+    });
+    typeDefinitions.push(result.definition);
+    types.push(result.typeName);
+    typeSources.push({ typeName: result.typeName, schema: fragment });
+  }
+
+  if (typeDefinitions.length === 0) {
+    diagnostics.push({
+      severity: "info",
+      code: "no-types",
+      message:
+        "Schema produced no types; give the root schema a title or add definitions",
+      pointer: "#",
+    });
+    return {
+      code: "",
+      types,
+      exportedTypes: [],
+      exportedValues: [],
+      diagnostics,
+    };
+  }
+
+  const exportedTypes =
+    generatedTypesExportsFormat === "ROOT_ONLY"
+      ? [types[0]]
+      : [...new Set(types)];
+
+  // Runtime values are only declared for exported types
+  const values =
+    target === "d.ts"
+      ? []
+      : collectRuntimeValues({
+          rootSchema: schema,
+          rootTypeName: registry.get("#") ?? null,
+          types: typeSources.filter(({ typeName }) =>
+            exportedTypes.includes(typeName),
+          ),
+          reservedNames: [...types, ...imports.getNames()],
+          options: runtimeValues,
+        });
+  const exportedValues = values.map(({ name }) => name);
+  const typesModule = {
+    imports: imports.getDeclarations(),
+    typeDefinitions,
+    exportedTypes: types,
+    generatedTypesExportsFormat,
+    exportedValues,
+  };
+
+  if (target === "js") {
+    return {
+      code: renderModule({
+        typeDefinitions: [],
+        exportedTypes: [],
+        generatedTypesExportsFormat,
+        valueDefinitions: values.map((value) =>
+          renderRuntimeValue(value, "js"),
+        ),
+        exportedValues,
+      }),
+      declarations: renderModule({
+        ...typesModule,
+        valueDefinitions: values.map((value) =>
+          renderRuntimeValue(value, "d.ts"),
+        ),
+      }),
+      types,
+      exportedTypes,
+      exportedValues,
+      diagnostics,
+    };
+  }
+
+  return {
+    code: renderModule({
+      ...typesModule,
+      valueDefinitions: values.map((value) => renderRuntimeValue(value, "ts")),
+    }),
+    types,
+    exportedTypes,
+    exportedValues,
+    diagnostics,
+  };
+};
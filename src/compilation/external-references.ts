@@ -0,0 +1,222 @@
+/**
+ * Resolution of `$ref`s to other documents into type imports.
+ *
+ * References are resolved through a schema store, by relative path or by
+ * `$id`. A referenced document is scanned with its own registry, so the
+ * imported name is the one its own module declares. Imported names that clash
+ * with a local type are aliased (`import type { Address as Address_1 }`).
+ */
+
+import { GeneratedTypesExportFormat, JsonSchema } from "../types";
+import { createTypeNameRegistry, TypeNameRegistry } from "../registry";
+import { scanSchema } from "../scanning";
+import {
+  getLastReferenceToken,
+  getSchemaFilePath,
+  toDocumentUri,
+  resolvePointer,
+  SchemaStore,
+} from "../resolution";
+import { toPascalCase } from "../utils";
+
+/**
+ * Another document a schema references, with the module its types are imported from.
+ */
+export interface ExternalDocument {
+  /** The parsed schema */
+  schema: JsonSchema;
+
+  /** Import specifier of the document's module, relative to the compiled module (e.g. `./address`) */
+  modulePath: string;
+
+  /**
+   * How the document's module exports its types; with 'ROOT_ONLY', only its
+   * root type can be imported.
+   * @default 'UNIQUE_EXPORTS'
+   */
+  generatedTypesExportsFormat?: GeneratedTypesExportFormat;
+}
+
+/**
+ * Where an external reference leads: the registry key of the type it names,
+ * or why it could not be resolved and the type emitted in its place.
+ */
+export type ExternalReferenceResolution =
+  | { key: string }
+  | { key: null; message: string; type: string };
+
+/**
+ * Resolves external references and collects the imports they need.
+ */
+export interface ImportResolver {
+  /**
+   * Resolves a `$ref` to another document. An imported type is registered in
+   * the registry under a key that does not start with `#`.
+   *
+   * @param ref - The `$ref` value, e.g. `./address.json#/definitions/Address`
+   * @param pointer - Where the reference is made, deciding its base URI (defaults to '#')
+   * @returns The registry key of the referenced type, or why there is none
+   */
+  resolve(ref: string, pointer?: string): ExternalReferenceResolution;
+
+  /** Returns one `import type` declaration per imported module, in first-use order */
+  getDeclarations(): string[];
+
+  /** Returns the local names of the imported types */
+  getNames(): string[];
+}
+
+/**
+ * The module of a referenced document and the names it exports, by pointer.
+ */
+interface DocumentExports {
+  modulePath: string;
+  names: Map<string, string>;
+}
+
+/**
+ * Parameters for creating an import resolver.
+ */
+export interface CreateImportResolverParams {
+  /** Path (or URI) of the compiled document, which relative references are resolved against */
+  schemaPath: string;
+
+  /**
+   * Returns the document at a path relative to the schema directory (or at a
+   * URI, for documents not read from a schema file), or null
+   */
+  resolveDocument: (schemaPath: string) => ExternalDocument | null;
+
+  /** The registry of the compiled document, already populated by scanning it */
+  registry: TypeNameRegistry;
+
+  /** The store the compiled document was added to, under the URI of its path */
+  store: SchemaStore;
+}
+
+/**
+ * Creates a resolver turning references to other documents into type imports.
+ *
+ * @param params - The compiled document and how to find the others
+ * @returns The resolver
+ *
+ * @example
+ * store.add(schema, toDocumentUri('user.json'));
+ * const imports = createImportResolver({ schemaPath: 'user.json', resolveDocument, registry, store });
+ * imports.resolve('./address.json#/definitions/Address'); // => { key: 'address.json#/definitions/Address' }
+ * imports.getDeclarations(); // => ['import type { Address } from "./address";']
+ */
+export const createImportResolver = ({
+  schemaPath,
+  resolveDocument,
+  registry,
+  store,
+}: CreateImportResolverParams): ImportResolver => {
+  const documentUri = toDocumentUri(schemaPath);
+  const exportsByPath = new Map<string, DocumentExports | null>();
+  const importsByModule = new Map<string, Map<string, string>>();
+
+  /**
+   * Resolves and scans a document once, returning the names its module exports.
+   */
+  const getExports = (targetPath: string): DocumentExports | null => {
+    if (!exportsByPath.has(targetPath)) {
+      const document = resolveDocument(targetPath);
+      exportsByPath.set(
+        targetPath,
+        document && {
+          modulePath: document.modulePath,
+          names: getExportedNames(document),
+        },
+      );
+    }
+    return exportsByPath.get(targetPath)!;
+  };
+
+  return {
+    resolve(ref, pointer = "#") {
+      // Nothing declares a type for it, so a name derived from the reference would not compile
+      const unresolved = {
+        key: null,
+        message: `External reference "${ref}" is not resolved and is emitted as unknown`,
+        type: "unknown",
+      } as const;
+      const location = store.resolve(ref, { documentUri, pointer });
+      if (!location) return unresolved;
+
+      if (location.documentUri === documentUri) {
+        // The document itself, referenced by its path or an `$id`
+        const target = location.pointer;
+        if (target !== "#") {
+          registry.register(
+            target,
+            toPascalCase(getLastReferenceToken(target)),
+          );
+        }
+        return registry.get(target) ? { key: target } : unresolved;
+      }
+
+      const targetPath =
+        getSchemaFilePath(location.documentUri) ?? location.documentUri;
+      const exports = getExports(targetPath);
+      if (!exports) return unresolved;
+      const name = exports.names.get(location.pointer);
+      if (!name) {
+        // The type exists but cannot be imported
+        return {
+          key: null,
+          message: `Reference "${ref}" does not point at a type exported by ${targetPath}, and is emitted as unknown`,
+          type: "unknown",
+        };
+      }
+
+      const key = `${targetPath}${location.pointer}`;
+      const { modulePath } = exports;
+      const imports = importsByModule.get(modulePath) ?? new Map();
+      importsByModule.set(modulePath, imports);
+      if (!imports.has(name)) {
+        imports.set(name, registry.register(key, name));
+      }
+      return { key };
+    },
+
+    getDeclarations() {
+      return Array.from(importsByModule, ([modulePath, imports]) => {
+        const specifiers = Array.from(imports, ([name, localName]) =>
+          name === localName ? name : `${name} as ${localName}`,
+        );
+        return `import type { ${specifiers.join(", ")} } from "${modulePath}";`;
+      });
+    },
+
+    getNames() {
+      return Array.from(importsByModule.values()).flatMap((imports) =>
+        Array.from(imports.values()),
+      );
+    },
+  };
+};
+
+/**
+ * Returns the names a document's module exports, by pointer, the way
+ * `compileSchema` names and exports them.
+ */
+const getExportedNames = ({
+  schema,
+  generatedTypesExportsFormat = "UNIQUE_EXPORTS",
+}: ExternalDocument): Map<string, string> => {
+  const registry = createTypeNameRegistry();
+  scanSchema({ schema, registry });
+
+  const allRegistered = registry.getAll();
+  const declared = Array.from(allRegistered.keys())
+    .sort()
+    .filter((pointer) => resolvePointer({ root: schema, pointer }));
+  const exported =
+    generatedTypesExportsFormat === "ROOT_ONLY"
+      ? declared.slice(0, 1)
+      : declared;
+  return new Map(
+    exported.map((pointer) => [pointer, allRegistered.get(pointer)!]),
+  );
+};
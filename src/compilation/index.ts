@@ -0,0 +1,24 @@
+/**
+ * In-memory schema compilation.
+ */
+
+export {
+  compileSchema,
+  CompileSchemaOptions,
+  CompileSchemaResult,
+} from "./compile-schema";
+export { renderModule, RenderModuleParams } from "./render-module";
+export { ExternalDocument } from "./external-references";
+export {
+  createSchemaStore,
+  getSchemaFileUri,
+  SchemaStore,
+  SchemaLocation,
+} from "../resolution";
+export {
+  compileBundle,
+  BundleDocument,
+  BundledDocument,
+  CompileBundleOptions,
+  CompileBundleResult,
+} from "./compile-bundle";
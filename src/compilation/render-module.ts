@@ -0,0 +1,71 @@
+/**
+ * Assembles generated type definitions into the text of a module.
+ */
+
+import { GeneratedTypesExportFormat } from "../types";
+
+/**
+ * Parameters for rendering a module.
+ */
+export interface RenderModuleParams {
+  /** Import declarations, placed before the types */
+  imports?: string[];
+
+  /** The generated type definitions, in declaration order */
+  typeDefinitions: string[];
+
+  /** The names of the generated types; the first is treated as the root */
+  exportedTypes: string[];
+
+  /** Which types to export */
+  generatedTypesExportsFormat: GeneratedTypesExportFormat;
+
+  /** Declarations of runtime values, placed after the types */
+  valueDefinitions?: string[];
+
+  /** The names of the runtime values, all exported after the types */
+  exportedValues?: string[];
+}
+
+/**
+ * Renders imports, type definitions and runtime values followed by a single
+ * export block.
+ *
+ * @param params - The render parameters
+ * @returns The module text, ending with a newline
+ */
+export const renderModule = ({
+  imports = [],
+  typeDefinitions,
+  exportedTypes,
+  generatedTypesExportsFormat,
+  valueDefinitions = [],
+  exportedValues = [],
+}: RenderModuleParams): string => {
+  const definitions = [...typeDefinitions, ...valueDefinitions];
+  // A module without declarations, e.g. JavaScript for a schema with types only
+  if (definitions.length === 0) {
+    return "export {};\n";
+  }
+  const prelude = imports.length === 0 ? "" : imports.join("\n") + "\n\n";
+
+  if (generatedTypesExportsFormat === "ROOT_ONLY") {
+    const rootExports = [...exportedTypes.slice(0, 1), ...exportedValues];
+    return (
+      prelude +
+      definitions.join("\n\n") +
+      "\n\n" +
+      `export { ${rootExports.join(", ")} };` +
+      "\n"
+    );
+  }
+
+  const uniqueExports = [...new Set([...exportedTypes, ...exportedValues])];
+  return (
+    prelude +
+    definitions.join("\n\n") +
+    "\n\n" +
+    `export { \n${uniqueExports.join(",\n")} \n};` +
+    "\n"
+  );
+};
@@ -0,0 +1,144 @@
+/**
+ * Discovery and reading of configuration files.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+import { ConfigError } from "../errors";
+
+/**
+ * File names looked up in each directory, in order of precedence.
+ */
+export const CONFIG_FILE_NAMES = [
+  "json-schema-to-dts.config.json",
+  "json-schema-to-dts.config.js",
+  "json-schema-to-dts.config.mjs",
+  "json-schema-to-dts.config.cjs",
+];
+
+/**
+ * The `package.json` key that can hold the configuration instead of a dedicated file.
+ */
+export const PACKAGE_JSON_KEY = "json-schema-to-dts";
+
+/**
+ * Imports an ES module at runtime. Built with `Function` so the TypeScript
+ * CommonJS output keeps a real `import()` instead of rewriting it to `require`.
+ */
+const importModule = new Function("specifier", "return import(specifier)") as (
+  specifier: string,
+) => Promise<Record<string, unknown>>;
+
+/**
+ * Loads a JavaScript configuration file. CommonJS files are required directly;
+ * ES modules, and `.js` files that turn out to be ES modules, are imported.
+ */
+const loadModule = async (
+  filePath: string,
+): Promise<Record<string, unknown>> => {
+  if (path.extname(filePath) !== ".mjs") {
+    try {
+      return { default: createRequire(filePath)(filePath) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ERR_REQUIRE_ESM") {
+        throw error;
+      }
+    }
+  }
+  return importModule(pathToFileURL(filePath).href);
+};
+
+/**
+ * Reads and parses a JSON file, reporting syntax errors as a `ConfigError`.
+ */
+const readJsonFile = (filePath: string): unknown => {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new ConfigError({
+      filePath,
+      issues: [error instanceof Error ? error.message : String(error)],
+    });
+  }
+};
+
+/**
+ * Returns the configuration held in a `package.json` file, if any.
+ */
+const readPackageJsonConfig = (filePath: string): unknown => {
+  const packageJson = readJsonFile(filePath) as Record<string, unknown> | null;
+  return packageJson && typeof packageJson === "object"
+    ? packageJson[PACKAGE_JSON_KEY]
+    : undefined;
+};
+
+/**
+ * Searches for a configuration file, starting in a directory and walking up to
+ * the file system root. In each directory, the dedicated configuration files
+ * are tried first, then a `package.json` with a `"json-schema-to-dts"` key.
+ *
+ * @param cwd - The directory to start from
+ * @returns The path of the configuration file, or null if none was found
+ *
+ * @example
+ * findConfigFile('/repo/packages/api')
+ * // => '/repo/json-schema-to-dts.config.json'
+ */
+export const findConfigFile = (cwd: string): string | null => {
+  let directory = path.resolve(cwd);
+
+  for (;;) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const filePath = path.join(directory, fileName);
+      if (fs.existsSync(filePath)) return filePath;
+    }
+
+    const packageJsonPath = path.join(directory, "package.json");
+    if (
+      fs.existsSync(packageJsonPath) &&
+      readPackageJsonConfig(packageJsonPath) !== undefined
+    ) {
+      return packageJsonPath;
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) return null;
+    directory = parent;
+  }
+};
+
+/**
+ * Reads the raw configuration from a configuration file. JavaScript files
+ * may export the configuration as default export or as `module.exports`.
+ *
+ * @param filePath - Path of a JSON, JavaScript or `package.json` file
+ * @returns The configuration, not yet validated
+ * @throws ConfigError if the file is missing or cannot be loaded
+ */
+export const readConfigFile = async (filePath: string): Promise<unknown> => {
+  if (!fs.existsSync(filePath)) {
+    throw new ConfigError({ filePath, issues: ["File not found"] });
+  }
+
+  if (path.basename(filePath) === "package.json") {
+    return readPackageJsonConfig(filePath);
+  }
+  if (path.extname(filePath) === ".json") {
+    return readJsonFile(filePath);
+  }
+
+  let exported: Record<string, unknown>;
+  try {
+    exported = await loadModule(filePath);
+  } catch (error) {
+    throw new ConfigError({
+      filePath,
+      issues: [
+        `Cannot load file: ${error instanceof Error ? error.message : String(error)}`,
+      ],
+    });
+  }
+  return "default" in exported ? exported.default : exported;
+};
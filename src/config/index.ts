@@ -0,0 +1,17 @@
+/**
+ * Configuration file discovery, validation and loading.
+ */
+
+export {
+  CONFIG_FILE_NAMES,
+  PACKAGE_JSON_KEY,
+  findConfigFile,
+  readConfigFile,
+} from "./config-file";
+export { validateUserConfig } from "./validate";
+export {
+  loadConfig,
+  defineConfig,
+  LoadConfigParams,
+  LoadedConfig,
+} from "./load-config";
@@ -0,0 +1,142 @@
+/**
+ * Loading of the effective configuration: a configuration file merged with
+ * options given on the command line or by the caller.
+ */
+
+import * as path from "path";
+import { UserConfig, WatchTypesConfig } from "../types";
+import { ConfigError } from "../errors";
+import { findConfigFile, readConfigFile } from "./config-file";
+import { validateUserConfig } from "./validate";
+
+/**
+ * Parameters for loading the configuration.
+ */
+export interface LoadConfigParams {
+  /**
+   * The directory the configuration file is searched from, walking up.
+   * @default process.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * An explicit configuration file, relative to `cwd`. Disables the search;
+   * set to false to ignore configuration files altogether.
+   */
+  configFile?: string | false;
+
+  /**
+   * Options that take precedence over the configuration file. Undefined values
+   * are ignored, so unset command-line flags do not hide file settings.
+   */
+  overrides?: UserConfig;
+}
+
+/**
+ * The effective configuration and where it was loaded from.
+ */
+export interface LoadedConfig {
+  /** The merged configuration, ready to pass to `toTypes` or `watchTypes` */
+  config: WatchTypesConfig;
+
+  /** Path of the configuration file that was used, or null if there was none */
+  filePath: string | null;
+}
+
+/**
+ * Returns a copy of a configuration without its undefined values.
+ */
+const omitUndefined = (config: UserConfig): UserConfig =>
+  Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined),
+  );
+
+/**
+ * Resolves the input and output directories of a configuration file
+ * relative to the file, so it works from any working directory.
+ */
+const resolvePaths = (config: UserConfig, filePath: string): UserConfig => {
+  const directory = path.dirname(filePath);
+  const resolve = (target: string) => path.resolve(directory, target);
+  const { pathToJsonSchemas, pathToOutputDirectory } = config;
+
+  return {
+    ...config,
+    pathToJsonSchemas:
+      pathToJsonSchemas === undefined
+        ? undefined
+        : Array.isArray(pathToJsonSchemas)
+          ? pathToJsonSchemas.map(resolve)
+          : resolve(pathToJsonSchemas),
+    pathToOutputDirectory:
+      pathToOutputDirectory === undefined
+        ? undefined
+        : resolve(pathToOutputDirectory),
+  };
+};
+
+/**
+ * Loads the configuration file (found by searching upward from `cwd` unless
+ * one is given), validates it and merges it with the overrides.
+ *
+ * Paths in the configuration file are relative to the file; paths in the
+ * overrides are used as given.
+ *
+ * @param params - Where to look and what to override
+ * @returns The effective configuration and the file it came from
+ * @throws ConfigError if the file cannot be loaded, is invalid, or the
+ * merged configuration lacks the input or output directory
+ *
+ * @example
+ * const { config } = await loadConfig({ overrides: { check: true } });
+ * await toTypes(config);
+ */
+export const loadConfig = async ({
+  cwd = process.cwd(),
+  configFile,
+  overrides = {},
+}: LoadConfigParams = {}): Promise<LoadedConfig> => {
+  const filePath =
+    configFile === false
+      ? null
+      : configFile
+        ? path.resolve(cwd, configFile)
+        : findConfigFile(cwd);
+
+  const fileConfig = filePath
+    ? resolvePaths(
+        validateUserConfig(await readConfigFile(filePath), filePath),
+        filePath,
+      )
+    : {};
+  const overrideConfig = validateUserConfig(omitUndefined(overrides), null);
+
+  const config: UserConfig = {
+    generatedTypesExportsFormat: "UNIQUE_EXPORTS",
+    ...omitUndefined(fileConfig),
+    ...overrideConfig,
+  };
+
+  const missing = (["pathToJsonSchemas", "pathToOutputDirectory"] as const)
+    .filter((key) => config[key] === undefined)
+    .map((key) => `"${key}" is required`);
+  if (missing.length > 0) {
+    throw new ConfigError({ filePath, issues: missing });
+  }
+
+  return { config: config as WatchTypesConfig, filePath };
+};
+
+/**
+ * Identity helper that gives type checking and completion in
+ * `json-schema-to-dts.config.js` files.
+ *
+ * @param config - The configuration
+ * @returns The same configuration
+ *
+ * @example
+ * // json-schema-to-dts.config.mjs
+ * import { defineConfig } from '@safwanyp/json-schema-to-dts';
+ * export default defineConfig({ pathToJsonSchemas: './schemas', pathToOutputDirectory: './types' });
+ */
+export const defineConfig = (config: UserConfig): UserConfig => config;
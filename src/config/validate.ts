@@ -0,0 +1,307 @@
+/**
+ * Validation of user-supplied configuration, e.g. from a configuration file.
+ * Every problem is collected so users can fix them all at once.
+ */
+
+import { UserConfig } from "../types";
+import { ConfigError } from "../errors";
+import { findUnknownPlaceholders } from "../pipeline";
+
+/**
+ * How a single configuration field is checked.
+ */
+interface FieldRule {
+  /** Description of the accepted values, used in error messages */
+  expected: string;
+
+  /** Returns true if the value is acceptable */
+  isValid: (value: unknown) => boolean;
+}
+
+const isString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+const oneOf = (...allowed: string[]): FieldRule => ({
+  expected: `one of ${allowed.map((item) => `"${item}"`).join(", ")}`,
+  isValid: (value) => allowed.includes(value as string),
+});
+
+const BOOLEAN: FieldRule = {
+  expected: "a boolean",
+  isValid: (value) => typeof value === "boolean",
+};
+
+const STRING_ARRAY: FieldRule = {
+  expected: "an array of strings",
+  isValid: isStringArray,
+};
+
+const EXPORTS_FORMAT = oneOf("UNIQUE_EXPORTS", "ROOT_ONLY");
+
+/**
+ * Rules for the options that can be set per file in `overrides`.
+ */
+const OVERRIDE_FIELDS: Record<string, FieldRule> = {
+  files: {
+    expected: "a non-empty array of glob patterns",
+    isValid: (value) => isStringArray(value) && value.length > 0,
+  },
+  generatedTypesExportsFormat: EXPORTS_FORMAT,
+  strict: BOOLEAN,
+  lenientJson: BOOLEAN,
+};
+
+/**
+ * Rules for every top-level configuration field.
+ */
+const CONFIG_FIELDS: Record<string, FieldRule> = {
+  pathToJsonSchemas: {
+    expected: "a directory path or a non-empty array of directory paths",
+    isValid: (value) =>
+      isString(value) || (isStringArray(value) && value.length > 0),
+  },
+  pathToOutputDirectory: { expected: "a directory path", isValid: isString },
+  generatedTypesExportsFormat: EXPORTS_FORMAT,
+  include: STRING_ARRAY,
+  exclude: STRING_ARRAY,
+  ignoreFile: {
+    expected: "a file path or false",
+    isValid: (value) => isString(value) || value === false,
+  },
+  overrides: {
+    expected: "an array of objects",
+    isValid: (value) => Array.isArray(value),
+  },
+  incremental: BOOLEAN,
+  clean: BOOLEAN,
+  barrels: {
+    expected:
+      'true, false or an object with "directories", "root" and "collisions" ("namespace" or "prefix")',
+    isValid: (value) =>
+      typeof value === "boolean" ||
+      (!!value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.entries(value).every(([key, option]) =>
+          key === "collisions"
+            ? option === "namespace" || option === "prefix"
+            : (key === "directories" || key === "root") &&
+              typeof option === "boolean",
+        )),
+  },
+  bundle: {
+    expected:
+      'true, false or an object with "fileName" (a file path) and "namespaces" (a boolean)',
+    isValid: (value) =>
+      typeof value === "boolean" ||
+      (!!value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.entries(value).every(([key, option]) =>
+          key === "fileName"
+            ? isString(option)
+            : key === "namespaces" && typeof option === "boolean",
+        )),
+  },
+  outputPath: {
+    expected:
+      "a path template using {dir}, {name} and {base}, or a function returning a path",
+    isValid: (value) =>
+      typeof value === "function" ||
+      (isString(value) && findUnknownPlaceholders(value).length === 0),
+  },
+  fileNameCase: oneOf("preserve", "kebab", "snake", "camel", "pascal"),
+  flatten: BOOLEAN,
+  target: oneOf("d.ts", "ts", "js"),
+  runtimeValues: {
+    expected:
+      'true, false or an object with "enums", "consts" and "schema" (booleans)',
+    isValid: (value) =>
+      typeof value === "boolean" ||
+      (!!value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.entries(value).every(
+          ([key, option]) =>
+            ["enums", "consts", "schema"].includes(key) &&
+            typeof option === "boolean",
+        )),
+  },
+  header: {
+    expected:
+      'true, false or an object with "banner" (a string or false), "source", "version" and "hash" (booleans), "pragmas" (an array of strings) and "license" (a string)',
+    isValid: (value) =>
+      typeof value === "boolean" ||
+      (!!value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.entries(value).every(([key, option]) => {
+          switch (key) {
+            case "banner":
+              return option === false || isString(option);
+            case "source":
+            case "version":
+            case "hash":
+              return typeof option === "boolean";
+            case "pragmas":
+              return isStringArray(option);
+            case "license":
+              return isString(option);
+            default:
+              return false;
+          }
+        })),
+  },
+  check: BOOLEAN,
+  strict: BOOLEAN,
+  lenientJson: BOOLEAN,
+  loaders: {
+    expected: "an array of functions",
+    isValid: (value) =>
+      Array.isArray(value) &&
+      value.every((loader) => typeof loader === "function"),
+  },
+  concurrency: {
+    expected: "a positive integer",
+    isValid: (value) => Number.isInteger(value) && (value as number) > 0,
+  },
+  errorPolicy: oneOf("warn", "collect", "failFast"),
+  logLevel: oneOf("silent", "error", "warn", "info", "debug"),
+  logger: {
+    expected: "an object with debug, info, warn and error methods",
+    isValid: (value) =>
+      !!value &&
+      typeof value === "object" &&
+      ["debug", "info", "warn", "error"].every(
+        (method) =>
+          typeof (value as Record<string, unknown>)[method] === "function",
+      ),
+  },
+  events: {
+    expected: "an object of event handlers",
+    isValid: (value) => !!value && typeof value === "object",
+  },
+  debounceMs: {
+    expected: "a non-negative number",
+    isValid: (value) => typeof value === "number" && value >= 0,
+  },
+  onRegenerate: {
+    expected: "a function",
+    isValid: (value) => typeof value === "function",
+  },
+};
+
+/**
+ * Computes the edit distance between two strings.
+ */
+const getEditDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Suggests the known field closest to an unknown one, if any is close enough.
+ */
+const suggestField = (name: string, known: string[]): string | null => {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of known) {
+    const distance = getEditDistance(
+      name.toLowerCase(),
+      candidate.toLowerCase(),
+    );
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(name.length / 4)) ? best : null;
+};
+
+/**
+ * Checks an object's fields against a set of rules, collecting problems.
+ */
+const checkFields = (
+  value: Record<string, unknown>,
+  rules: Record<string, FieldRule>,
+  prefix: string,
+  issues: string[],
+): void => {
+  const known = Object.keys(rules);
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (!Object.prototype.hasOwnProperty.call(rules, key)) {
+      const suggestion = suggestField(key, known);
+      issues.push(
+        `Unknown option "${prefix}${key}"` +
+          (suggestion ? `. Did you mean "${prefix}${suggestion}"?` : ""),
+      );
+      continue;
+    }
+    if (fieldValue === undefined) continue;
+
+    const rule = rules[key];
+    if (!rule.isValid(fieldValue)) {
+      issues.push(
+        `"${prefix}${key}" must be ${rule.expected}, got ${JSON.stringify(fieldValue) ?? typeof fieldValue}`,
+      );
+    }
+  }
+};
+
+/**
+ * Validates a configuration object, such as the content of a configuration file.
+ * Fields are optional; required fields are checked once everything is merged.
+ *
+ * @param value - The configuration to validate
+ * @param filePath - Where the configuration comes from, for error messages
+ * @returns The configuration, typed
+ * @throws ConfigError listing every problem found
+ */
+export const validateUserConfig = (
+  value: unknown,
+  filePath: string | null,
+): UserConfig => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ConfigError({
+      filePath,
+      issues: ["The configuration must be an object"],
+    });
+  }
+
+  const issues: string[] = [];
+  const record = value as Record<string, unknown>;
+  checkFields(record, CONFIG_FIELDS, "", issues);
+
+  if (Array.isArray(record.overrides)) {
+    record.overrides.forEach((override, index) => {
+      const prefix = `overrides[${index}].`;
+      if (!override || typeof override !== "object") {
+        issues.push(`"overrides[${index}]" must be an object`);
+        return;
+      }
+      if (!("files" in override)) {
+        issues.push(`"${prefix}files" is required`);
+      }
+      checkFields(override, OVERRIDE_FIELDS, prefix, issues);
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError({ filePath, issues });
+  }
+  return value as UserConfig;
+};
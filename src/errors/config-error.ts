@@ -0,0 +1,30 @@
+/**
+ * Error raised for invalid or unreadable configuration.
+ */
+
+/**
+ * A configuration file cannot be loaded, or the configuration is invalid.
+ */
+export class ConfigError extends Error {
+  /** Path of the configuration file, or null if the problem is in the overrides */
+  readonly filePath: string | null;
+
+  /** Every problem found, one per line of the message */
+  readonly issues: string[];
+
+  constructor({
+    filePath,
+    issues,
+  }: {
+    filePath: string | null;
+    issues: string[];
+  }) {
+    super(
+      `Invalid configuration${filePath ? ` in ${filePath}` : ""}:\n` +
+        issues.map((issue) => `  - ${issue}`).join("\n"),
+    );
+    this.name = "ConfigError";
+    this.filePath = filePath;
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Error raised when schema files fail to convert under a strict error policy.
+ */
+
+import { FailedSchemaFile, ToTypesResult } from "../types";
+
+/**
+ * Formats an unknown thrown value as a single line.
+ */
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Rejection of `toTypes` when `errorPolicy` is 'collect' or 'failFast' and
+ * at least one schema file failed. Like `AggregateError`, it carries every
+ * underlying error in `errors`; `failedFiles` pairs them with their schema paths.
+ *
+ * @example
+ * try {
+ *   await toTypes({ ...config, errorPolicy: 'collect' });
+ * } catch (error) {
+ *   if (error instanceof GenerationFailedError) {
+ *     for (const { schemaPath, error: cause } of error.failedFiles) { ... }
+ *   }
+ * }
+ */
+export class GenerationFailedError extends Error {
+  /** The underlying errors, in processing order */
+  readonly errors: unknown[];
+
+  /** The schema files that failed, with their errors */
+  readonly failedFiles: FailedSchemaFile[];
+
+  /** The report of the run, up to the point where it stopped */
+  readonly result: ToTypesResult;
+
+  constructor(result: ToTypesResult) {
+    const { failedFiles } = result;
+    super(
+      `Failed to convert ${failedFiles.length} schema file(s):\n` +
+        failedFiles
+          .map(
+            ({ schemaPath, error }) =>
+              `  ${schemaPath}: ${describeError(error)}`,
+          )
+          .join("\n"),
+    );
+    this.name = "GenerationFailedError";
+    this.errors = failedFiles.map(({ error }) => error);
+    this.failedFiles = failedFiles;
+    this.result = result;
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Error classes raised by the converter.
+ */
+
+export { GenerationFailedError } from "./generation-failed-error";
+export { ConfigError } from "./config-error";
+export {
+  SchemaError,
+  SchemaParseError,
+  UnresolvedReferenceError,
+  UnsupportedKeywordError,
+  SchemaLoadError,
+  OutputWriteError,
+  OutputPathCollisionError,
+} from "./schema-errors";
@@ -0,0 +1,274 @@
+/**
+ * Errors describing why a single schema file could not be converted.
+ * Each carries the schema path and, where it applies, a JSON pointer into the
+ * schema, so tools and editors can jump to the offending location.
+ */
+
+import {
+  SourceLocation,
+  createCodeFrame,
+  findJsonSyntaxErrorOffset,
+  getSourceLocation,
+  Json5SyntaxError,
+  YamlSyntaxError,
+} from "../utils";
+
+/**
+ * Base class for errors about a specific schema file.
+ */
+export class SchemaError extends Error {
+  /**
+   * Path of the schema file, relative to its directory in `pathToJsonSchemas`.
+   * Unset when the schema was compiled in memory; the pipeline fills it in.
+   */
+  schemaPath?: string;
+
+  /** JSON pointer to the schema location the error is about, when known */
+  readonly pointer?: string;
+
+  constructor(
+    message: string,
+    { schemaPath, pointer }: { schemaPath?: string; pointer?: string } = {},
+  ) {
+    super(message);
+    this.name = "SchemaError";
+    this.schemaPath = schemaPath;
+    this.pointer = pointer;
+  }
+}
+
+/**
+ * Matches the parts of V8's `JSON.parse` messages that follow the reason, such as
+ * ` in JSON at position 12 (line 2 column 5)` or `, "{ broken" is not valid JSON`.
+ */
+const JSON_ERROR_DETAILS =
+  /,\s*(?:\.\.\.)?"|\s+in JSON at position|\s+\(line \d/;
+
+/**
+ * A schema file is not valid in its format (JSON, JSONC, JSON5 or YAML).
+ */
+export class SchemaParseError extends SchemaError {
+  /** 1-based line of the syntax error */
+  readonly line: number;
+
+  /** 1-based column of the syntax error */
+  readonly column: number;
+
+  /** The lines around the error, with the position marked */
+  readonly codeFrame: string;
+
+  /** The underlying parser error */
+  readonly cause: unknown;
+
+  constructor({
+    schemaPath,
+    source,
+    location,
+    reason,
+    cause,
+    format = "JSON",
+  }: {
+    schemaPath?: string;
+    source: string;
+    location: SourceLocation;
+    reason: string;
+    cause?: unknown;
+    /** The format the file is written in, named in the message */
+    format?: string;
+  }) {
+    const codeFrame = createCodeFrame({ source, location });
+    super(
+      `Invalid ${format} at line ${location.line}, column ${location.column}: ${reason}\n\n${codeFrame}`,
+      { schemaPath },
+    );
+    this.name = "SchemaParseError";
+    this.line = location.line;
+    this.column = location.column;
+    this.codeFrame = codeFrame;
+    this.cause = cause;
+  }
+
+  /**
+   * Wraps the `SyntaxError` thrown by `JSON.parse`, locating the error in the source.
+   *
+   * @param error - The error thrown by `JSON.parse`
+   * @param source - The text that was parsed
+   * @param schemaPath - Path of the schema file
+   * @returns The parse error
+   */
+  static fromJsonSyntaxError(
+    error: unknown,
+    source: string,
+    schemaPath?: string,
+  ): SchemaParseError {
+    const message = error instanceof Error ? error.message : String(error);
+    const offset = findJsonSyntaxErrorOffset(source);
+    const location = getSourceLocation(
+      source,
+      offset === -1 ? source.length : offset,
+    );
+    const reason = message.split(JSON_ERROR_DETAILS)[0];
+
+    return new SchemaParseError({
+      schemaPath,
+      source,
+      location,
+      reason,
+      cause: error,
+    });
+  }
+
+  /**
+   * Wraps an error thrown by `parseYaml` or `parseJson5`, which carry their location.
+   *
+   * @param error - The error thrown by the parser
+   * @param source - The text that was parsed
+   * @param format - The format the text is written in, e.g. 'YAML'
+   * @param schemaPath - Path of the schema file
+   * @returns The parse error
+   */
+  static fromLocatedSyntaxError(
+    error: YamlSyntaxError | Json5SyntaxError,
+    source: string,
+    format: string,
+    schemaPath?: string,
+  ): SchemaParseError {
+    return new SchemaParseError({
+      schemaPath,
+      source,
+      location: error.location,
+      reason: error.message,
+      cause: error,
+      format,
+    });
+  }
+}
+
+/**
+ * A `$ref` does not point at a schema that can be found.
+ */
+export class UnresolvedReferenceError extends SchemaError {
+  /** The `$ref` value */
+  readonly ref: string;
+
+  constructor({
+    ref,
+    pointer,
+    schemaPath,
+  }: {
+    ref: string;
+    pointer?: string;
+    schemaPath?: string;
+  }) {
+    super(`Cannot resolve reference "${ref}"`, { schemaPath, pointer });
+    this.name = "UnresolvedReferenceError";
+    this.ref = ref;
+  }
+}
+
+/**
+ * A schema referenced by URI could not be loaded.
+ */
+export class SchemaLoadError extends SchemaError {
+  /** The URI of the schema */
+  readonly uri: string;
+
+  /** The underlying error, if any */
+  readonly cause: unknown;
+
+  constructor({
+    uri,
+    reason,
+    cause,
+  }: {
+    uri: string;
+    reason: string;
+    cause?: unknown;
+  }) {
+    super(`Cannot load schema ${uri}: ${reason}`);
+    this.name = "SchemaLoadError";
+    this.uri = uri;
+    this.cause = cause;
+  }
+}
+
+/**
+ * A schema uses a keyword that affects its type but is not supported by the generator.
+ */
+export class UnsupportedKeywordError extends SchemaError {
+  /** The unsupported keyword */
+  readonly keyword: string;
+
+  constructor({
+    keyword,
+    pointer,
+    schemaPath,
+  }: {
+    keyword: string;
+    pointer: string;
+    schemaPath?: string;
+  }) {
+    super(`Unsupported keyword "${keyword}" at ${pointer}`, {
+      schemaPath,
+      pointer,
+    });
+    this.name = "UnsupportedKeywordError";
+    this.keyword = keyword;
+  }
+}
+
+/**
+ * A generated file could not be written.
+ */
+export class OutputWriteError extends SchemaError {
+  /** Path of the file that could not be written */
+  readonly outputPath: string;
+
+  /** The underlying file system error */
+  readonly cause: unknown;
+
+  constructor({
+    outputPath,
+    cause,
+    schemaPath,
+  }: {
+    outputPath: string;
+    cause: unknown;
+    schemaPath?: string;
+  }) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Cannot write ${outputPath}: ${reason}`, { schemaPath });
+    this.name = "OutputWriteError";
+    this.outputPath = outputPath;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Two schema files map to the same output file. The first one keeps it.
+ */
+export class OutputPathCollisionError extends SchemaError {
+  /** The output file both schema files map to */
+  readonly outputPath: string;
+
+  /** The schema file that keeps the output file */
+  readonly conflictingSchemaPath: string;
+
+  constructor({
+    outputPath,
+    conflictingSchemaPath,
+    schemaPath,
+  }: {
+    outputPath: string;
+    conflictingSchemaPath: string;
+    schemaPath?: string;
+  }) {
+    super(
+      `Output file ${outputPath} is already generated from ${conflictingSchemaPath}`,
+      { schemaPath },
+    );
+    this.name = "OutputPathCollisionError";
+    this.outputPath = outputPath;
+    this.conflictingSchemaPath = conflictingSchemaPath;
+  }
+}
@@ -5,6 +5,7 @@
 
 import { JsonSchema } from "../types";
 import { TypeNameRegistry } from "../registry";
+import { getSchemaReference } from "../scanning";
 import { generateJSDoc } from "./jsdoc";
 import { shouldUseTypeAlias, getDeclarationParts } from "./type-decider";
 import {
@@ -106,10 +107,11 @@ export const buildTypeFromSchema = (context: TypeBuildContext): string => {
     }
   }
 
-  // 2. Handle $ref
-  if (schema.$ref) {
+  // 2. Handle $ref, $dynamicRef and $recursiveRef
+  const ref = getSchemaReference(schema);
+  if (ref !== undefined) {
     return buildReferenceType({
-      ref: schema.$ref,
+      ref,
       rootSchema,
       registry,
       buildType: buildTypeFromSchema,
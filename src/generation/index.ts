@@ -13,6 +13,18 @@ export {
 // JSDoc generation
 export { generateJSDoc } from "./jsdoc";
 
+// Runtime values for .ts and .js modules
+export {
+  collectRuntimeValues,
+  getLiteralValue,
+  buildLiteralType,
+  renderRuntimeValue,
+  RuntimeValue,
+  RuntimeValueSource,
+  RuntimeValueSyntax,
+  CollectRuntimeValuesParams,
+} from "./runtime-values";
+
 // Type decision logic
 export {
   shouldUseTypeAlias,
@@ -0,0 +1,227 @@
+/**
+ * Runtime values derived from a schema, declared next to the types in `.ts`
+ * and `.js` modules: enum value arrays, const values and the schema itself.
+ */
+
+import { JsonSchema, RuntimeValueOptions } from "../types";
+import { getSchemaReference } from "../scanning";
+import { formatPropertyKey } from "../utils";
+import { buildConstType, hasObjectDefinition } from "./type-builders";
+
+/**
+ * A runtime value to declare in a module.
+ */
+export interface RuntimeValue {
+  /** The name of the constant, unique within the module */
+  name: string;
+
+  /** What the value is: an enum's values, a const's value or the schema document */
+  kind: "enum" | "const" | "schema";
+
+  /** The type the value belongs to, or null for the schema of a document without a root type */
+  typeName: string | null;
+
+  /** The JSON value */
+  value: unknown;
+}
+
+/**
+ * A generated type, with the schema it was generated from.
+ */
+export interface RuntimeValueSource {
+  typeName: string;
+  schema: JsonSchema;
+}
+
+/**
+ * Parameters for collecting the runtime values of a module.
+ */
+export interface CollectRuntimeValuesParams {
+  /** The schema document */
+  rootSchema: JsonSchema;
+
+  /** The name of the root type, or null if the root schema has none */
+  rootTypeName: string | null;
+
+  /** The exported types, in declaration order */
+  types: RuntimeValueSource[];
+
+  /** Names the values must not take, e.g. the names of the types */
+  reservedNames: string[];
+
+  /** Which values to collect */
+  options: RuntimeValueOptions;
+}
+
+/**
+ * How a runtime value is declared.
+ * - 'ts': `const X = ... as const;`
+ * - 'js': `const X = ...;`
+ * - 'd.ts': `declare const X: ...;`
+ */
+export type RuntimeValueSyntax = "ts" | "js" | "d.ts";
+
+/**
+ * Finds the value a type is built from, mirroring the precedence of
+ * `buildTypeFromSchema`: references, combinators and objects win over
+ * `const`, which wins over `enum`.
+ *
+ * @param schema - The schema of a generated type
+ * @returns The kind and value, or null if the type is not built from literals
+ *
+ * @example
+ * getLiteralValue({ enum: ['active', 'closed'] }) // => { kind: 'enum', value: ['active', 'closed'] }
+ * getLiteralValue({ $ref: '#/definitions/Status' }) // => null
+ */
+export const getLiteralValue = (
+  schema: JsonSchema,
+): Pick<RuntimeValue, "kind" | "value"> | null => {
+  if (
+    getSchemaReference(schema) !== undefined ||
+    schema.oneOf ||
+    schema.anyOf ||
+    schema.allOf ||
+    (hasObjectDefinition(schema) &&
+      (schema.properties || schema.additionalProperties))
+  ) {
+    return null;
+  }
+  if (schema.const !== undefined) {
+    return { kind: "const", value: schema.const };
+  }
+  if (Array.isArray(schema.enum)) {
+    return { kind: "enum", value: schema.enum };
+  }
+  return null;
+};
+
+/**
+ * Collects the runtime values of a module: the values of its enum and const
+ * types, then the schema document.
+ *
+ * @param params - The schema, its exported types and the enabled values
+ * @returns The values, named after their type with a unique suffix on clashes
+ *
+ * @example
+ * collectRuntimeValues({
+ *   rootSchema,
+ *   rootTypeName: 'User',
+ *   types: [{ typeName: 'UserStatus', schema: { enum: ['active'] } }],
+ *   reservedNames: ['User', 'UserStatus'],
+ *   options: { enums: true, schema: true },
+ * }).map(({ name }) => name); // => ['UserStatusValues', 'UserSchema']
+ */
+export const collectRuntimeValues = ({
+  rootSchema,
+  rootTypeName,
+  types,
+  reservedNames,
+  options,
+}: CollectRuntimeValuesParams): RuntimeValue[] => {
+  const { enums = true, consts = true, schema = true } = options;
+  const usedNames = new Set(reservedNames);
+  const getUniqueName = (baseName: string): string => {
+    let name = baseName;
+    for (let count = 1; usedNames.has(name); count++) {
+      name = `${baseName}_${count}`;
+    }
+    usedNames.add(name);
+    return name;
+  };
+
+  const values: RuntimeValue[] = [];
+  for (const { typeName, schema: typeSchema } of types) {
+    const literal = getLiteralValue(typeSchema);
+    if (literal?.kind === "enum" && enums) {
+      values.push({
+        name: getUniqueName(`${typeName}Values`),
+        typeName,
+        ...literal,
+      });
+    } else if (literal?.kind === "const" && consts) {
+      values.push({
+        name: getUniqueName(`${typeName}Value`),
+        typeName,
+        ...literal,
+      });
+    }
+  }
+  if (schema) {
+    values.push({
+      name: getUniqueName(rootTypeName ? `${rootTypeName}Schema` : "schema"),
+      kind: "schema",
+      typeName: rootTypeName,
+      value: rootSchema,
+    });
+  }
+  return values;
+};
+
+/**
+ * Builds the type of a JSON value declared `as const`.
+ *
+ * @param value - The JSON value
+ * @param indent - The indentation of the line the type starts on
+ * @returns The TypeScript literal type string
+ *
+ * @example
+ * buildLiteralType(['a', 1]) // => 'readonly ["a", 1]'
+ * buildLiteralType({ type: 'string' }) // => '{\n  readonly type: "string";\n}'
+ */
+export const buildLiteralType = (value: unknown, indent = ""): string => {
+  if (Array.isArray(value)) {
+    return `readonly [${value.map((item) => buildLiteralType(item, indent)).join(", ")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return "{}";
+    const innerIndent = `${indent}  `;
+    const lines = entries.map(
+      ([key, item]) =>
+        `${innerIndent}readonly ${formatPropertyKey(key)}: ${buildLiteralType(item, innerIndent)};`,
+    );
+    return `{\n${lines.join("\n")}\n${indent}}`;
+  }
+  // Strings are escaped; the type builders only quote them
+  return typeof value === "string"
+    ? JSON.stringify(value)
+    : buildConstType(value);
+};
+
+/**
+ * Renders the declaration of a runtime value, with a JSDoc comment naming its type.
+ *
+ * @param value - The runtime value
+ * @param syntax - How to declare it
+ * @returns The declaration
+ *
+ * @example
+ * renderRuntimeValue({ name: 'StatusValues', kind: 'enum', typeName: 'Status', value: ['a'] }, 'ts')
+ * // => '/** The values of {@link Status} *\/\nconst StatusValues = ["a"] as const;'
+ */
+export const renderRuntimeValue = (
+  { name, kind, typeName, value }: RuntimeValue,
+  syntax: RuntimeValueSyntax,
+): string => {
+  const description = {
+    enum: `The values of {@link ${typeName}}`,
+    const: `The value of {@link ${typeName}}`,
+    schema: "The JSON Schema this module is generated from",
+  }[kind];
+  const jsDoc = `/** ${description} */\n`;
+
+  if (syntax === "d.ts") {
+    return `${jsDoc}declare const ${name}: ${buildLiteralType(value)};`;
+  }
+  const initializer = isFlatArray(value)
+    ? `[${value.map((item) => JSON.stringify(item)).join(", ")}]`
+    : JSON.stringify(value, null, 2);
+  return `${jsDoc}const ${name} = ${initializer}${syntax === "ts" ? " as const" : ""};`;
+};
+
+/**
+ * Checks if a value is an array without nested arrays or objects, rendered on one line.
+ */
+const isFlatArray = (value: unknown): value is unknown[] =>
+  Array.isArray(value) &&
+  value.every((item) => item === null || typeof item !== "object");
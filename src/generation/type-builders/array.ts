@@ -39,7 +39,7 @@ export const buildArrayType = ({
   // Tuple type (items is an array of schemas)
   if (Array.isArray(schema.items)) {
     const tupleTypes = schema.items.map((item, index) => {
-      const childContext = createChildContext(context, item, `items/${index}`);
+      const childContext = createChildContext(context, item, "items", index);
       return buildType(childContext);
     });
     return `[${tupleTypes.join(", ")}]`;
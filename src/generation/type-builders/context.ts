@@ -4,6 +4,7 @@
 
 import { JsonSchema } from "../../types";
 import { TypeNameRegistry } from "../../registry";
+import { appendPointer } from "../../resolution";
 
 /**
  * Context passed to type builders containing all necessary information
@@ -31,17 +32,20 @@ export interface TypeBuildContext {
  *
  * @param parent - The parent context
  * @param schema - The child schema
- * @param pointerSuffix - The suffix to append to the parent's pointer
+ * @param tokens - The reference tokens leading from the parent to the child, unescaped
  * @returns A new context for the child schema
+ *
+ * @example
+ * createChildContext(context, propSchema, 'properties', 'e/mail').pointer // => '#/properties/e~1mail'
  */
 export const createChildContext = (
   parent: TypeBuildContext,
   schema: JsonSchema,
-  pointerSuffix: string,
+  ...tokens: Array<string | number>
 ): TypeBuildContext => ({
   schema,
   rootSchema: parent.rootSchema,
   registry: parent.registry,
-  pointer: `${parent.pointer}/${pointerSuffix}`,
+  pointer: appendPointer(parent.pointer, ...tokens),
   lookupInRegistry: true,
 });
@@ -36,7 +36,8 @@ export const buildIntersectionType = ({
     const childContext = createChildContext(
       parentContext,
       schema,
-      `allOf/${index}`,
+      "allOf",
+      index,
     );
     return buildType(childContext);
   });
@@ -4,6 +4,7 @@
  */
 
 import { JsonSchema } from "../../types";
+import { formatPropertyKey } from "../../utils";
 import { TypeBuildContext, createChildContext } from "./context";
 
 /**
@@ -44,11 +45,12 @@ export const buildObjectType = ({
       const childContext = createChildContext(
         context,
         propSchema,
-        `properties/${key}`,
+        "properties",
+        key,
       );
       const propType = buildType(childContext);
       const optional = isRequired ? "" : "?";
-      lines.push(`  ${key}${optional}: ${propType};`);
+      lines.push(`  ${formatPropertyKey(key)}${optional}: ${propType};`);
     });
   }
 
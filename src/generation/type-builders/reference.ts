@@ -5,7 +5,11 @@
 
 import { JsonSchema } from "../../types";
 import { TypeNameRegistry } from "../../registry";
-import { resolveRef } from "../../resolution";
+import {
+  getLastReferenceToken,
+  resolveAnchorReference,
+  resolveRef,
+} from "../../resolution";
 import { toPascalCase } from "../../utils";
 import { TypeBuildContext } from "./context";
 
@@ -41,7 +45,9 @@ export const buildReferenceType = ({
 }: BuildReferenceTypeParams): string => {
   // First, try to get the registered name
   if (registry) {
-    const registeredName = registry.get(ref);
+    const registeredName = registry.get(
+      resolveAnchorReference(ref, rootSchema),
+    );
     if (registeredName) {
       return registeredName;
     }
@@ -93,11 +99,9 @@ const resolveLegacyRef = ({
     }
 
     // Complex type - derive name from ref path
-    const parts = ref.split("/");
-    return toPascalCase(parts[parts.length - 1]);
+    return toPascalCase(getLastReferenceToken(ref));
   }
 
   // Last resort - derive name from ref path
-  const parts = ref.split("/");
-  return toPascalCase(parts[parts.length - 1]);
+  return toPascalCase(getLastReferenceToken(ref));
 };
@@ -40,7 +40,8 @@ export const buildUnionType = ({
     const childContext = createChildContext(
       parentContext,
       schema,
-      `${pointerSuffix}/${index}`,
+      pointerSuffix,
+      index,
     );
     return buildType(childContext);
   });
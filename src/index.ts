@@ -7,26 +7,149 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import { glob } from "tinyglobby";
 
 // Re-export types
-export { JsonSchema, TypeGenerationOptions, ToTypesConfig } from "./types";
+export {
+  JsonSchema,
+  TypeGenerationOptions,
+  ToTypesConfig,
+  WatchTypesConfig,
+  UserConfig,
+  FileOverride,
+  FileGenerationOptions,
+  BarrelOptions,
+  BarrelCollisionStrategy,
+  BundleOptions,
+  OutputPathInfo,
+  OutputPathMapper,
+  SchemaLoader,
+  SchemaLoaderContext,
+  FileNameCase,
+  OutputTarget,
+  RuntimeValueOptions,
+  HeaderOptions,
+  LogLevel,
+  ErrorPolicy,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  ToTypesResult,
+  ToTypesTotals,
+  SchemaFileReport,
+  SchemaFileStatus,
+  FailedSchemaFile,
+  WatchRegenerationResult,
+  CheckResult,
+  Logger,
+  ToTypesEvents,
+  FileStartEvent,
+  FileGeneratedEvent,
+  FileFailedEvent,
+  DoneEvent,
+} from "./types";
+
+// Re-export error classes
+export {
+  GenerationFailedError,
+  ConfigError,
+  SchemaError,
+  SchemaParseError,
+  UnresolvedReferenceError,
+  UnsupportedKeywordError,
+  SchemaLoadError,
+  OutputWriteError,
+  OutputPathCollisionError,
+} from "./errors";
+
+// Re-export configuration loading
+export {
+  loadConfig,
+  defineConfig,
+  findConfigFile,
+  LoadConfigParams,
+  LoadedConfig,
+} from "./config";
+
+// Re-export schema loaders
+export {
+  createFileLoader,
+  createNodeModulesLoader,
+  createHttpLoader,
+  NodeModulesLoaderOptions,
+  HttpLoaderOptions,
+} from "./pipeline";
+
+// Re-export watch mode
+export { watchTypes, TypesWatcher } from "./watch";
 
 // Re-export generation utilities
 export { generateTypeDefinition, GeneratedType } from "./generation";
 
+// Re-export in-memory compilation
+export {
+  compileSchema,
+  CompileSchemaOptions,
+  CompileSchemaResult,
+  ExternalDocument,
+  createSchemaStore,
+  getSchemaFileUri,
+  SchemaStore,
+  SchemaLocation,
+  compileBundle,
+  BundleDocument,
+  BundledDocument,
+  CompileBundleOptions,
+  CompileBundleResult,
+} from "./compilation";
+
 // Internal imports
-import { JsonSchema, ToTypesConfig } from "./types";
-import { createTypeNameRegistry } from "./registry";
-import { scanSchema } from "./scanning";
-import { generateTypeDefinition } from "./generation";
-import { resolvePointer } from "./resolution";
-import { GeneratedTypesExportFormat } from "./types/config";
+import {
+  CheckResult,
+  Logger,
+  SchemaFileReport,
+  ToTypesConfig,
+  ToTypesResult,
+} from "./types";
+import { resolveLogger } from "./logging";
+import { GenerationFailedError } from "./errors";
+import {
+  bundleSchemaFiles,
+  compareOutputs,
+  createBarrelFiles,
+  createFileWriter,
+  createIncrementalCache,
+  createFailedFileReport,
+  createFileOptionsResolver,
+  createSchemaModules,
+  getDeclaredUris,
+  createProcessedFileReport,
+  createRecordingWriter,
+  createToTypesResult,
+  emitFileEvent,
+  findSchemaFiles,
+  getInputRoots,
+  getLoadedSchemaPath,
+  loadExternalSchemas,
+  createOutputPathResolver,
+  findOutputPathCollisions,
+  listOutputFiles,
+  resolveOutputTarget,
+  resolveHeaderOptions,
+  renderHeader,
+  findGeneratedFiles,
+  hashContent,
+  processSchemaFile,
+  removeStaleOutputs,
+  startCompilerPool,
+  CompiledSchemaFile,
+} from "./pipeline";
 
 /**
  * Convert JSON Schema files to TypeScript type definition files.
  *
  * @param config - Configuration specifying input and output paths
+ * @returns A report of every schema file, with totals and timing
+ * @throws GenerationFailedError if a schema file fails and `errorPolicy` is 'collect' or 'failFast'
  *
  * @example
  * await toTypes({
@@ -34,158 +157,402 @@ import { GeneratedTypesExportFormat } from "./types/config";
  *   pathToOutputDirectory: './types'
  * });
  */
-export const toTypes = async (config: ToTypesConfig): Promise<void> => {
+export const toTypes = async (
+  config: ToTypesConfig,
+): Promise<ToTypesResult> => {
   const {
     pathToJsonSchemas,
     pathToOutputDirectory,
     generatedTypesExportsFormat,
+    include,
+    exclude,
+    ignoreFile,
+    incremental = false,
+    check = false,
+    errorPolicy = "warn",
+    strict = false,
+    lenientJson = false,
+    overrides = [],
+    concurrency = 1,
+    clean = false,
+    barrels = false,
+    bundle = false,
+    outputPath,
+    fileNameCase,
+    flatten,
+    loaders = [],
+    events,
   } = config;
+  const logger = resolveLogger(config);
+  const bundleOptions = bundle === true ? {} : bundle || null;
+  const resolveOutputFilePath = createOutputPathResolver(config);
+  const getFileOptions = createFileOptionsResolver(config);
+  const outputTarget = resolveOutputTarget(config);
+  const { target } = outputTarget;
+  const header = resolveHeaderOptions(config) ?? undefined;
+
+  // In check mode nothing is written; generated files are only recorded for comparison
+  const recordingWriter = check ? createRecordingWriter() : null;
+  const writer = recordingWriter ?? createFileWriter(logger);
 
   // Ensure output directory exists
-  if (!fs.existsSync(pathToOutputDirectory)) {
+  if (!check && !fs.existsSync(pathToOutputDirectory)) {
     fs.mkdirSync(pathToOutputDirectory, { recursive: true });
   }
 
   // Find all JSON schema files
-  const schemaFiles = await glob("**/*.json", {
-    cwd: pathToJsonSchemas,
-    absolute: false,
+  const roots = getInputRoots(pathToJsonSchemas);
+  const discoveredFiles = await findSchemaFiles({
+    roots,
+    include,
+    exclude,
+    ignoreFile,
+    logger,
+  });
+  logger.debug(
+    `Found ${discoveredFiles.length} schema file(s) in ${roots.join(", ")}`,
+  );
+
+  // Schemas referenced by URI are loaded up front and generated like schema files named by their URI
+  const loadedSchemas = await loadExternalSchemas({
+    schemaFiles: discoveredFiles,
+    getFileOptions,
+    loaders,
+    readOnly: check,
+    logger,
   });
+  const schemaFiles = [
+    ...discoveredFiles,
+    ...Array.from(loadedSchemas.keys(), (uri) => ({
+      root: "",
+      relativePath: uri,
+    })),
+  ];
+  const getOutputFilePath = (relativeSchemaPath: string): string =>
+    resolveOutputFilePath(
+      loadedSchemas.has(relativeSchemaPath)
+        ? getLoadedSchemaPath(relativeSchemaPath)
+        : relativeSchemaPath,
+    );
 
-  for (const relativeSchemaPath of schemaFiles) {
-    try {
-      await processSchemaFile({
-        relativeSchemaPath,
-        pathToJsonSchemas,
-        pathToOutputDirectory,
-        generatedTypesExportsFormat,
-      });
-    } catch (error) {
-      console.warn(
-        `Failed to process schema file ${relativeSchemaPath}:`,
-        error,
+  // A schema file mapped to an output file taken by an earlier one fails
+  const collisions = bundleOptions
+    ? new Map<string, Error>()
+    : findOutputPathCollisions(
+        new Map(
+          schemaFiles.map(({ relativePath }) => [
+            relativePath,
+            getOutputFilePath(relativePath),
+          ]),
+        ),
       );
+
+  // References between schema files are imported from the referenced file's module
+  const modules = bundleOptions
+    ? {}
+    : createSchemaModules({
+        schemaFiles,
+        getOutputFilePath,
+        getFileOptions,
+        collisions,
+        loadedSchemas,
+      });
+
+  // A mapper function cannot be hashed: the values it captures are not part of its source
+  const isOutputPathHashable = typeof outputPath !== "function";
+  if (incremental && !isOutputPathHashable) {
+    logger.debug(
+      "Incremental mode is off: outputs are never reused with an outputPath function",
+    );
+  }
+  const cache = createIncrementalCache({
+    roots,
+    pathToOutputDirectory,
+    outputOptions: {
+      generatedTypesExportsFormat,
+      strict,
+      lenientJson,
+      overrides,
+      outputPath: isOutputPathHashable ? outputPath : null,
+      fileNameCase,
+      flatten,
+      ...outputTarget,
+      header,
+    },
+    enabled: incremental && !check && !bundleOptions && isOutputPathHashable,
+    documentHashes: Object.fromEntries(
+      Array.from(loadedSchemas, ([uri, { sourceHash }]) => [uri, sourceHash]),
+    ),
+    declaredUris: getDeclaredUris(modules),
+    trackOutputs: clean && !check,
+  });
+  const startTime = Date.now();
+  const files: SchemaFileReport[] = [];
+  let isStopped = false;
+
+  /**
+   * Keeps a previously generated output in the list of owned files.
+   */
+  const carryOverOutput = (outputFilePath: string): void => {
+    const hash = cache.getPreviousOutputHash(outputFilePath);
+    if (hash) {
+      cache.recordOutput(outputFilePath, hash);
+    }
+  };
+
+  const upToDateEntries = schemaFiles.map(({ relativePath }) =>
+    cache.getUpToDateEntry(relativePath),
+  );
+
+  // Compile everything that is not cached on worker threads up front; results
+  // are still handled in discovery order below, so output and logs are stable
+  const pool = startCompilerPool({
+    concurrency: bundleOptions ? 1 : concurrency,
+    fileCount: upToDateEntries.filter((entry) => !entry).length,
+    sharedParams: { modules },
+    logger,
+  });
+  const compiledFiles = new Map<number, Promise<CompiledSchemaFile>>();
+  if (pool) {
+    for (const [index, { root, relativePath }] of schemaFiles.entries()) {
+      if (upToDateEntries[index] || collisions.has(relativePath)) continue;
+      const compiled = pool.compile({
+        relativeSchemaPath: relativePath,
+        pathToJsonSchemas: root,
+        ...getFileOptions(relativePath),
+        ...outputTarget,
+      });
+      // Failures are handled when the file's turn comes
+      compiled.catch(() => undefined);
+      compiledFiles.set(index, compiled);
     }
   }
-};
 
-/**
- * Parameters for processing a single schema file.
- */
-interface ProcessSchemaFileParams {
-  relativeSchemaPath: string;
-  pathToJsonSchemas: string;
-  pathToOutputDirectory: string;
-  generatedTypesExportsFormat: GeneratedTypesExportFormat;
-}
+  // In bundle mode every file is compiled and written up front, as one module
+  const schemaBundle = bundleOptions
+    ? bundleSchemaFiles({
+        schemaFiles,
+        pathToOutputDirectory,
+        options: bundleOptions,
+        getFileOptions,
+        writer,
+        logger,
+        header,
+        loadedSchemas,
+      })
+    : null;
 
-/**
- * Processes a single schema file and generates the output.
- */
-const processSchemaFile = async ({
-  relativeSchemaPath,
-  pathToJsonSchemas,
-  pathToOutputDirectory,
-  generatedTypesExportsFormat,
-}: ProcessSchemaFileParams): Promise<void> => {
-  const fullSchemaPath = path.join(pathToJsonSchemas, relativeSchemaPath);
-  const schemaContent = fs.readFileSync(fullSchemaPath, "utf-8");
-  const schema: JsonSchema = JSON.parse(schemaContent);
-
-  // Create a fresh registry for this schema
-  const registry = createTypeNameRegistry();
-
-  // Pass 1: Scan and register types
-  scanSchema({ schema, registry });
-
-  // Pass 2: Generate type definitions
-  const typeDefinitions: string[] = [];
-  const exportedTypes: string[] = [];
-
-  const allRegistered = registry.getAll();
-  const sortedPointers = Array.from(allRegistered.keys()).sort();
-
-  for (const pointer of sortedPointers) {
-    const typeName = allRegistered.get(pointer)!;
-    const fragment = resolvePointer({ root: schema, pointer });
-
-    if (fragment) {
-      const result = generateTypeDefinition({
-        name: typeName,
-        schema: fragment,
-        rootSchema: schema,
-        registry,
-        pointer,
+  try {
+    for (const [
+      index,
+      { root, relativePath: relativeSchemaPath },
+    ] of schemaFiles.entries()) {
+      const fileStartTime = Date.now();
+      events?.fileStart?.({
+        schemaPath: relativeSchemaPath,
+        index,
+        total: schemaFiles.length,
       });
-      typeDefinitions.push(result.definition);
-      exportedTypes.push(result.typeName);
+
+      let file: SchemaFileReport;
+      const upToDateEntry = upToDateEntries[index];
+      if (upToDateEntry) {
+        logger.debug(`Up to date: ${relativeSchemaPath}`);
+        cache.recordReused(relativeSchemaPath, upToDateEntry);
+        const outputFilePath = upToDateEntry.outputFile
+          ? path.join(pathToOutputDirectory, upToDateEntry.outputFile)
+          : null;
+        const [, declarationFilePath] = outputFilePath
+          ? listOutputFiles(outputFilePath, target)
+          : [];
+        if (outputFilePath) {
+          listOutputFiles(outputFilePath, target).forEach(carryOverOutput);
+        }
+        file = {
+          schemaPath: relativeSchemaPath,
+          outputPath: outputFilePath,
+          ...(declarationFilePath && { declarationPath: declarationFilePath }),
+          status: outputFilePath ? "cached" : "empty",
+          types: upToDateEntry.types,
+          exportedTypes: upToDateEntry.exportedTypes,
+          exportedValues: upToDateEntry.exportedValues,
+          diagnostics: upToDateEntry.diagnostics,
+          durationMs: Date.now() - fileStartTime,
+        };
+      } else {
+        try {
+          const collision = collisions.get(relativeSchemaPath);
+          if (collision) throw collision;
+          const processed = schemaBundle
+            ? schemaBundle.getProcessedFile(relativeSchemaPath)
+            : await processSchemaFile({
+                relativeSchemaPath,
+                pathToJsonSchemas: root,
+                outputFilePath: getOutputFilePath(relativeSchemaPath),
+                ...getFileOptions(relativeSchemaPath),
+                ...outputTarget,
+                modules,
+                header,
+                compiled: compiledFiles.get(index),
+                writer,
+                logger,
+              });
+          cache.recordProcessed(relativeSchemaPath, processed);
+          if (processed.outputFilePath && processed.outputHash) {
+            cache.recordOutput(processed.outputFilePath, processed.outputHash);
+          }
+          if (processed.declarationFilePath && processed.declarationHash) {
+            cache.recordOutput(
+              processed.declarationFilePath,
+              processed.declarationHash,
+            );
+          }
+          file = createProcessedFileReport({
+            schemaPath: relativeSchemaPath,
+            processed,
+            check,
+            durationMs: Date.now() - fileStartTime,
+          });
+        } catch (error) {
+          const message = `Failed to process schema file ${relativeSchemaPath}:`;
+          if (errorPolicy === "warn") {
+            logger.warn(message, error);
+          } else {
+            logger.error(message, error);
+          }
+          file = createFailedFileReport(
+            relativeSchemaPath,
+            error,
+            Date.now() - fileStartTime,
+          );
+        }
+      }
+
+      files.push(file);
+      emitFileEvent(events, { file, index, total: schemaFiles.length });
+
+      if (file.status === "failed" && errorPolicy === "failFast") {
+        logger.error("Stopping at the first failure (errorPolicy: failFast)");
+        isStopped = true;
+        break;
+      }
     }
+  } finally {
+    await pool?.close();
+  }
+
+  // The outputs of failed or skipped schema files stay owned, so they are not
+  // cleaned; a collision's output file belongs to the schema file that won it
+  const keptOutputFiles = schemaFiles
+    .filter(
+      ({ relativePath }, index) =>
+        (!files[index] || files[index].status === "failed") &&
+        !collisions.has(relativePath),
+    )
+    .flatMap(({ relativePath }) =>
+      listOutputFiles(getOutputFilePath(relativePath), target),
+    );
+  keptOutputFiles.forEach(carryOverOutput);
+
+  // Barrels list every module, so they are only written for a complete run
+  const barrelFiles =
+    barrels && !isStopped && !bundleOptions
+      ? createBarrelFiles({
+          pathToOutputDirectory,
+          modules: files.filter(
+            (file): file is SchemaFileReport & { outputPath: string } =>
+              file.outputPath !== null,
+          ),
+          options: barrels === true ? {} : barrels,
+          target,
+          header: header && renderHeader(header),
+          logger,
+        })
+      : new Map<string, string>();
+  const writtenBarrels: string[] = [];
+  const unchangedBarrels: string[] = [];
+  for (const [barrelPath, content] of barrelFiles) {
+    const isWritten = writer.write(barrelPath, content);
+    (isWritten ? writtenBarrels : unchangedBarrels).push(barrelPath);
+    cache.recordOutput(barrelPath, hashContent(content));
   }
 
-  // Generate output file
-  if (typeDefinitions.length > 0) {
-    writeOutputFile({
-      relativeSchemaPath,
+  // After a fail-fast stop the recorded files are incomplete, so they are not compared
+  let checkResult: CheckResult | undefined;
+  let deletedFiles: string[] = [];
+  if (recordingWriter && !isStopped) {
+    checkResult = compareOutputs({
+      expectedFiles: recordingWriter.getFiles(),
       pathToOutputDirectory,
-      typeDefinitions,
-      exportedTypes,
-      generatedTypesExportsFormat,
+      ignoredFiles: keptOutputFiles,
+      target,
+      generatedOnly: !!header,
     });
+    reportCheckResult(checkResult, logger);
+  } else if (!check) {
+    if (clean) {
+      // With a header, marked files no run owns any more are removed as well
+      const currentOutputFiles = new Set(
+        [
+          ...files.flatMap(({ outputPath, declarationPath }) => [
+            outputPath,
+            declarationPath,
+          ]),
+          ...barrelFiles.keys(),
+          ...keptOutputFiles,
+        ].flatMap((filePath) => (filePath ? [path.resolve(filePath)] : [])),
+      );
+      deletedFiles = removeStaleOutputs({
+        pathToOutputDirectory,
+        staleOutputs: cache.getStaleOutputs(),
+        markedOutputs: header
+          ? findGeneratedFiles(pathToOutputDirectory).filter(
+              (filePath) => !currentOutputFiles.has(path.resolve(filePath)),
+            )
+          : [],
+        logger,
+      });
+    }
+    cache.save();
   }
-};
 
-/**
- * Parameters for writing an output file.
- */
-interface WriteOutputFileParams {
-  relativeSchemaPath: string;
-  pathToOutputDirectory: string;
-  typeDefinitions: string[];
-  exportedTypes: string[];
-  generatedTypesExportsFormat: GeneratedTypesExportFormat;
-}
+  const result = createToTypesResult(files, Date.now() - startTime);
+  result.deletedFiles = deletedFiles;
+  if (!check) {
+    result.generatedFiles.push(...writtenBarrels);
+    result.unchangedFiles.push(...unchangedBarrels);
+  }
+  if (checkResult) {
+    result.check = checkResult;
+  }
+  events?.done?.({ result });
+
+  if (errorPolicy !== "warn" && result.failedFiles.length > 0) {
+    throw new GenerationFailedError(result);
+  }
+  return result;
+};
 
 /**
- * Writes the generated type definitions to a .d.ts file.
+ * Prints the outcome of check mode: a unified diff per stale file and a summary.
  */
-const writeOutputFile = ({
-  relativeSchemaPath,
-  pathToOutputDirectory,
-  typeDefinitions,
-  exportedTypes,
-  generatedTypesExportsFormat,
-}: WriteOutputFileParams): void => {
-  // Generate output file path
-  const outputFileName =
-    path.basename(relativeSchemaPath, ".json").replace(".schema", "") + ".d.ts";
-  const outputDir = path.join(
-    pathToOutputDirectory,
-    path.dirname(relativeSchemaPath),
-  );
-  const outputFilePath = path.join(outputDir, outputFileName);
-
-  // Ensure output subdirectory exists
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
+const reportCheckResult = (check: CheckResult, logger: Logger): void => {
+  if (check.isUpToDate) {
+    logger.info("Generated types are up to date");
+    return;
   }
 
-  // Write the type definitions with exports based on the specified format
-  if (generatedTypesExportsFormat === "UNIQUE_EXPORTS") {
-    const uniqueExports = [...new Set(exportedTypes)];
-    const content =
-      typeDefinitions.join("\n\n") +
-      "\n\n" +
-      `export { \n${uniqueExports.join(",\n")} \n};` +
-      "\n";
-    fs.writeFileSync(outputFilePath, content, "utf-8");
-  } else if (generatedTypesExportsFormat === "ROOT_ONLY") {
-    const rootTypeName = exportedTypes[0];
-    const content =
-      typeDefinitions.join("\n\n") +
-      "\n\n" +
-      `export { ${rootTypeName} };` +
-      "\n";
-    fs.writeFileSync(outputFilePath, content, "utf-8");
+  for (const diff of Object.values(check.diffs)) {
+    logger.error(diff);
   }
-  console.log(`Generated: ${outputFilePath}`);
+
+  const staleCount =
+    check.missingFiles.length +
+    check.changedFiles.length +
+    check.extraFiles.length;
+  logger.error(
+    `${staleCount} generated file(s) are out of date ` +
+      `(${check.missingFiles.length} missing, ${check.changedFiles.length} changed, ` +
+      `${check.extraFiles.length} extra). Regenerate the types to fix this.`,
+  );
 };
@@ -0,0 +1,87 @@
+/**
+ * Console-backed and custom loggers with level filtering.
+ */
+
+import { LogLevel, Logger } from "../types";
+
+/**
+ * Numeric severity for each level. A message is printed when its severity
+ * is less than or equal to the severity of the configured level.
+ */
+const LOG_LEVEL_SEVERITY: Record<LogLevel, number> = {
+  silent: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4,
+};
+
+/**
+ * Wraps a logger so that messages below the given level are dropped.
+ *
+ * @param target - The logger receiving the messages that pass
+ * @param level - The most verbose level to pass on (defaults to 'info')
+ * @returns A filtering logger
+ */
+export const createLevelFilteredLogger = (
+  target: Logger,
+  level: LogLevel = "info",
+): Logger => {
+  const threshold = LOG_LEVEL_SEVERITY[level];
+  const isEnabled = (messageLevel: LogLevel): boolean =>
+    LOG_LEVEL_SEVERITY[messageLevel] <= threshold;
+
+  return {
+    debug(message, ...args) {
+      if (isEnabled("debug")) target.debug(message, ...args);
+    },
+    info(message, ...args) {
+      if (isEnabled("info")) target.info(message, ...args);
+    },
+    warn(message, ...args) {
+      if (isEnabled("warn")) target.warn(message, ...args);
+    },
+    error(message, ...args) {
+      if (isEnabled("error")) target.error(message, ...args);
+    },
+  };
+};
+
+/**
+ * Creates a logger that writes to the console, dropping messages below the given level.
+ *
+ * @param level - The most verbose level to print (defaults to 'info')
+ * @returns A logger writing to `console`
+ *
+ * @example
+ * const logger = createConsoleLogger('warn');
+ * logger.info('Generated: types/user.d.ts'); // not printed
+ * logger.warn('Failed to process schema file broken.json'); // printed
+ */
+export const createConsoleLogger = (level: LogLevel = "info"): Logger =>
+  createLevelFilteredLogger(
+    {
+      debug: (message, ...args) => console.debug(message, ...args),
+      info: (message, ...args) => console.log(message, ...args),
+      warn: (message, ...args) => console.warn(message, ...args),
+      error: (message, ...args) => console.error(message, ...args),
+    },
+    level,
+  );
+
+/**
+ * Picks the logger for a run: the configured logger if there is one, otherwise the console.
+ *
+ * @param config - The `logger` and `logLevel` options
+ * @returns A logger honouring the log level
+ */
+export const resolveLogger = ({
+  logger,
+  logLevel,
+}: {
+  logger?: Logger;
+  logLevel?: LogLevel;
+}): Logger =>
+  logger
+    ? createLevelFilteredLogger(logger, logLevel)
+    : createConsoleLogger(logLevel);
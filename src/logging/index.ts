@@ -0,0 +1,9 @@
+/**
+ * Logging utilities.
+ */
+
+export {
+  createConsoleLogger,
+  createLevelFilteredLogger,
+  resolveLogger,
+} from "./console-logger";
@@ -0,0 +1,209 @@
+/**
+ * Barrel files: `index.d.ts` files (`index.ts` or `index.js` for the other
+ * output targets) re-exporting the generated modules, so consumers can import
+ * from a directory instead of deep module paths.
+ */
+
+import * as path from "path";
+import {
+  BarrelCollisionStrategy,
+  BarrelOptions,
+  Logger,
+  OutputTarget,
+} from "../types";
+import { toPascalCase } from "../utils";
+import { toModuleSpecifier } from "./output-path";
+
+/**
+ * Name of the barrel file written to each directory.
+ */
+export const BARREL_FILE_NAME = "index.d.ts";
+
+/**
+ * Names of the barrel files written to each directory, per output target.
+ * A JavaScript barrel gets a declaration file with the same re-exports.
+ */
+const BARREL_FILE_NAMES: Record<OutputTarget, string[]> = {
+  "d.ts": [BARREL_FILE_NAME],
+  ts: ["index.ts"],
+  js: ["index.js", BARREL_FILE_NAME],
+};
+
+/**
+ * A generated module to re-export.
+ */
+export interface BarrelModule {
+  /** Path of the generated module */
+  outputPath: string;
+
+  /** Names of the types it exports */
+  exportedTypes: string[];
+
+  /** Names of the runtime values it exports */
+  exportedValues?: string[];
+}
+
+/**
+ * Parameters for creating barrel files.
+ */
+export interface CreateBarrelFilesParams {
+  pathToOutputDirectory: string;
+  modules: BarrelModule[];
+  options: BarrelOptions;
+
+  /**
+   * The output target of the modules, deciding the barrel file names.
+   * @default 'd.ts'
+   */
+  target?: OutputTarget;
+
+  /** The rendered header written at the top of every barrel; none when omitted */
+  header?: string;
+  logger: Logger;
+}
+
+/**
+ * Creates the barrel files for a set of generated modules. Each directory
+ * barrel re-exports the modules in that directory; the root barrel, when
+ * enabled, re-exports every module in the output tree instead.
+ *
+ * @param params - The output directory, the modules and the barrel options
+ * @returns Map of barrel paths to their content
+ *
+ * @example
+ * createBarrelFiles({
+ *   pathToOutputDirectory: 'types',
+ *   modules: [{ outputPath: 'types/user.d.ts', exportedTypes: ['User'] }],
+ *   options: {},
+ *   logger,
+ * }); // => Map { 'types/index.d.ts' => 'export * from "./user";\n' }
+ */
+export const createBarrelFiles = ({
+  pathToOutputDirectory,
+  modules,
+  options,
+  target = "d.ts",
+  header = "",
+  logger,
+}: CreateBarrelFilesParams): Map<string, string> => {
+  const {
+    directories = true,
+    root = false,
+    collisions = "namespace",
+  } = options;
+  const [barrelFileName, ...companionFileNames] = BARREL_FILE_NAMES[target];
+  const barrels = new Map<string, BarrelModule[]>();
+
+  if (directories) {
+    for (const module of modules) {
+      const barrelPath = path.join(
+        path.dirname(module.outputPath),
+        barrelFileName,
+      );
+      barrels.set(barrelPath, [...(barrels.get(barrelPath) ?? []), module]);
+    }
+  }
+  if (root) {
+    barrels.set(path.join(pathToOutputDirectory, barrelFileName), modules);
+  }
+
+  const outputPaths = new Set(modules.map(({ outputPath }) => outputPath));
+  const files = new Map<string, string>();
+  for (const barrelPath of Array.from(barrels.keys()).sort()) {
+    if (outputPaths.has(barrelPath)) {
+      logger.warn(
+        `Not writing ${barrelPath}: a schema generates a file with the same name`,
+      );
+      continue;
+    }
+    for (const fileName of [barrelFileName, ...companionFileNames]) {
+      files.set(
+        path.join(path.dirname(barrelPath), fileName),
+        header +
+          renderBarrel(
+            path.dirname(barrelPath),
+            barrels.get(barrelPath)!,
+            collisions,
+            // A JavaScript barrel can only re-export the values that exist at runtime
+            fileName.endsWith(".js"),
+          ),
+      );
+    }
+  }
+  return files;
+};
+
+/**
+ * Renders a barrel re-exporting modules relative to its directory. Modules
+ * whose exported names clash with another module's are re-exported as a
+ * namespace, or with those names prefixed, named after the module path. Types
+ * are re-exported with `export type`, and left out of JavaScript barrels.
+ */
+const renderBarrel = (
+  directory: string,
+  modules: BarrelModule[],
+  collisions: BarrelCollisionStrategy,
+  valuesOnly: boolean,
+): string => {
+  const entries = modules
+    .map(({ outputPath, exportedTypes, exportedValues = [] }) => ({
+      exportedTypes,
+      exportedValues,
+      specifier: toModuleSpecifier(directory, outputPath),
+    }))
+    .sort((a, b) => (a.specifier < b.specifier ? -1 : 1));
+
+  // Counted over types and values alike, so every barrel of a directory uses the same names
+  const exportCounts = new Map<string, number>();
+  for (const { exportedTypes, exportedValues } of entries) {
+    for (const name of [...exportedTypes, ...exportedValues]) {
+      exportCounts.set(name, (exportCounts.get(name) ?? 0) + 1);
+    }
+  }
+  const isColliding = (name: string) => exportCounts.get(name)! > 1;
+
+  // Names re-exported as-is are taken; generated names get a numeric suffix on clashes
+  const usedNames = new Set(
+    Array.from(exportCounts.keys()).filter((name) => !isColliding(name)),
+  );
+  const getUniqueName = (baseName: string): string => {
+    let name = baseName;
+    for (let count = 1; usedNames.has(name); count++) {
+      name = `${baseName}_${count}`;
+    }
+    usedNames.add(name);
+    return name;
+  };
+
+  const lines = entries.flatMap(
+    ({ specifier, exportedTypes, exportedValues }) => {
+      if (![...exportedTypes, ...exportedValues].some(isColliding)) {
+        return [`export * from "${specifier}";`];
+      }
+
+      const prefix = toPascalCase(specifier);
+      if (collisions === "namespace") {
+        return [`export * as ${getUniqueName(prefix)} from "${specifier}";`];
+      }
+
+      // Type names are taken even when left out, so values keep the same names in every barrel
+      const [types, values] = [exportedTypes, exportedValues].map((names) =>
+        names.map((name) =>
+          isColliding(name)
+            ? `${name} as ${getUniqueName(prefix + name)}`
+            : name,
+        ),
+      );
+      return [
+        ...(types.length > 0 && !valuesOnly
+          ? [`export type { ${types.join(", ")} } from "${specifier}";`]
+          : []),
+        ...(values.length > 0
+          ? [`export { ${values.join(", ")} } from "${specifier}";`]
+          : []),
+      ];
+    },
+  );
+
+  return lines.join("\n") + "\n";
+};
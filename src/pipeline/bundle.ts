@@ -0,0 +1,182 @@
+/**
+ * Bundle mode: the types of every schema file written to a single file.
+ */
+
+import * as path from "path";
+import { BundleOptions, HeaderOptions, Logger } from "../types";
+import {
+  BundleDocument,
+  compileBundle,
+  CompileBundleResult,
+} from "../compilation";
+import { createSchemaStore, toDocumentUri } from "../resolution";
+import { SchemaError } from "../errors";
+import { DiscoveredSchemaFile } from "./discovery";
+import { ResolvedFileOptions } from "./file-options";
+import { hashContent } from "./incremental";
+import { HeaderSource, renderHeader } from "./header";
+import { OutputWriter } from "./output-writer";
+import { collectFileDependencies } from "./dependencies";
+import { LoadedSchema } from "./external-schemas";
+import {
+  logDiagnostics,
+  ProcessedSchemaFile,
+  readSchemaSource,
+} from "./process-schema-file";
+
+/**
+ * Name of the bundle when `BundleOptions.fileName` is not set.
+ */
+export const DEFAULT_BUNDLE_FILE_NAME = "schemas.d.ts";
+
+/**
+ * Parameters for bundling schema files.
+ */
+export interface BundleSchemaFilesParams {
+  schemaFiles: DiscoveredSchemaFile[];
+  pathToOutputDirectory: string;
+  options: BundleOptions;
+  getFileOptions: (relativeSchemaPath: string) => ResolvedFileOptions;
+  writer: OutputWriter;
+  logger: Logger;
+
+  /** The header written at the top of the bundle, naming every bundled schema file; none when omitted */
+  header?: HeaderOptions;
+
+  /** The schemas returned by loaders, by URI; they are listed in `schemaFiles` by their URI too */
+  loadedSchemas?: Map<string, LoadedSchema>;
+}
+
+/**
+ * A written bundle, with the results of the schema files it was built from.
+ */
+export interface SchemaBundle {
+  /** The path of the bundle file */
+  outputFilePath: string;
+
+  /**
+   * Returns the result of a schema file, shaped like the result of processing it on its own.
+   *
+   * @param relativeSchemaPath - The schema path, relative to its input directory
+   * @throws The error that kept the file out of the bundle
+   */
+  getProcessedFile(relativeSchemaPath: string): ProcessedSchemaFile;
+}
+
+/**
+ * Reads every schema file, compiles them into one module and writes it.
+ * A file that cannot be read, or that fails in strict mode, is left out and
+ * the others are bundled without it.
+ *
+ * @param params - The schema files, output location and bundle options
+ * @returns The bundle, to look up the result of each schema file
+ *
+ * @example
+ * const bundle = bundleSchemaFiles({ schemaFiles, pathToOutputDirectory: 'types', options: {}, ... });
+ * bundle.getProcessedFile('user.json').outputFilePath; // => 'types/schemas.d.ts'
+ */
+export const bundleSchemaFiles = ({
+  schemaFiles,
+  pathToOutputDirectory,
+  options,
+  getFileOptions,
+  writer,
+  logger,
+  header,
+  loadedSchemas = new Map(),
+}: BundleSchemaFilesParams): SchemaBundle => {
+  const failures = new Map<string, unknown>();
+  const schemas = new Map<string, BundleDocument["schema"]>();
+  const sourceHashes = new Map<string, string>();
+  let documents: BundleDocument[] = [];
+
+  for (const { root, relativePath } of schemaFiles) {
+    const source = loadedSchemas.get(relativePath);
+    logger.debug(
+      `Processing ${source ? relativePath : path.join(root, relativePath)}`,
+    );
+    try {
+      const { lenientJson, ...fileOptions } = getFileOptions(relativePath);
+      const { schema, sourceHash } =
+        source ?? readSchemaSource(relativePath, root, { lenientJson });
+      schemas.set(relativePath, schema);
+      sourceHashes.set(relativePath, sourceHash);
+      documents.push({ id: relativePath, schema, ...fileOptions });
+    } catch (error) {
+      failures.set(relativePath, error);
+    }
+  }
+
+  // A document failing in strict mode is left out, and the rest compiled again
+  let result: CompileBundleResult | undefined;
+  while (!result) {
+    try {
+      result = compileBundle(documents, { namespaces: options.namespaces });
+    } catch (error) {
+      const failedPath =
+        error instanceof SchemaError ? error.schemaPath : undefined;
+      if (!failedPath || !schemas.has(failedPath)) throw error;
+      failures.set(failedPath, error);
+      documents = documents.filter(({ id }) => id !== failedPath);
+    }
+  }
+
+  const outputFilePath = path.join(
+    pathToOutputDirectory,
+    options.fileName ?? DEFAULT_BUNDLE_FILE_NAME,
+  );
+  const sources = documents.map(({ id }): HeaderSource => {
+    const { $id } = schemas.get(id)!;
+    return {
+      schemaPath: id,
+      id: typeof $id === "string" ? $id : undefined,
+      hash: sourceHashes.get(id)!,
+    };
+  });
+  const content =
+    result.code && header
+      ? renderHeader(header, sources) + result.code
+      : result.code;
+  const isOutputChanged = content
+    ? writer.write(outputFilePath, content)
+    : false;
+  const outputHash = content ? hashContent(content) : null;
+
+  const store = createSchemaStore();
+  for (const [relativePath, schema] of schemas) {
+    store.add(schema, toDocumentUri(relativePath));
+  }
+  const processedFiles = new Map<string, ProcessedSchemaFile>();
+  for (const {
+    id: relativePath,
+    types,
+    exportedTypes,
+    diagnostics,
+  } of result.documents) {
+    logDiagnostics(relativePath, diagnostics, logger);
+    const hasTypes = types.length > 0;
+    const schema = schemas.get(relativePath)!;
+    processedFiles.set(relativePath, {
+      schema,
+      dependencies: collectFileDependencies(schema, relativePath, store),
+      outputFilePath: hasTypes ? outputFilePath : null,
+      isOutputChanged: hasTypes && isOutputChanged,
+      outputHash: hasTypes ? outputHash : null,
+      declarationFilePath: null,
+      declarationHash: null,
+      types,
+      exportedTypes,
+      exportedValues: [],
+      diagnostics,
+    });
+  }
+
+  return {
+    outputFilePath,
+    getProcessedFile(relativeSchemaPath) {
+      const processed = processedFiles.get(relativeSchemaPath);
+      if (!processed) throw failures.get(relativeSchemaPath);
+      return processed;
+    },
+  };
+};
@@ -0,0 +1,128 @@
+/**
+ * Check mode: compares generated files with the output directory without writing anything.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { globSync } from "tinyglobby";
+import { CheckResult, OutputTarget } from "../types";
+import { createUnifiedDiff } from "../utils";
+import { findGeneratedFiles } from "./header";
+import { OUTPUT_FILE_EXTENSIONS, listOutputFiles } from "./output-path";
+
+/**
+ * Parameters for comparing generated files with the output directory.
+ */
+export interface CompareOutputsParams {
+  /** The generated files, keyed by output path */
+  expectedFiles: Map<string, string>;
+
+  /** The output directory to compare against */
+  pathToOutputDirectory: string;
+
+  /** Output paths that must not be reported as extra (e.g. outputs of schemas that failed) */
+  ignoredFiles?: string[];
+
+  /**
+   * The output target, whose files are reported as extra when `generatedOnly`
+   * is not set
+   * @default 'd.ts'
+   */
+  target?: OutputTarget;
+
+  /**
+   * Only report extra files carrying the generated-file marker, of any output
+   * type, instead of every file of the target. Set when outputs have a header.
+   * @default false
+   */
+  generatedOnly?: boolean;
+}
+
+/**
+ * Compares generated files with the contents of the output directory.
+ *
+ * @param params - The comparison parameters
+ * @returns Missing, changed and extra files, with a unified diff for each
+ */
+export const compareOutputs = ({
+  expectedFiles,
+  pathToOutputDirectory,
+  ignoredFiles = [],
+  target = "d.ts",
+  generatedOnly = false,
+}: CompareOutputsParams): CheckResult => {
+  const result: CheckResult = {
+    isUpToDate: true,
+    missingFiles: [],
+    changedFiles: [],
+    extraFiles: [],
+    diffs: {},
+  };
+
+  const toLabel = (filePath: string): string =>
+    path.relative(pathToOutputDirectory, filePath).split(path.sep).join("/");
+
+  const sortedExpected = Array.from(expectedFiles.keys()).sort();
+  for (const filePath of sortedExpected) {
+    const content = expectedFiles.get(filePath)!;
+    let existing: string | null = null;
+    try {
+      existing = fs.readFileSync(filePath, "utf-8");
+    } catch {
+      // Missing file
+    }
+
+    if (existing === content) continue;
+
+    const label = toLabel(filePath);
+    (existing === null ? result.missingFiles : result.changedFiles).push(
+      filePath,
+    );
+    result.diffs[filePath] = createUnifiedDiff({
+      oldText: existing ?? "",
+      newText: content,
+      oldLabel: existing === null ? "/dev/null" : `a/${label}`,
+      newLabel: `b/${label}`,
+    });
+  }
+
+  if (fs.existsSync(pathToOutputDirectory)) {
+    const known = new Set(
+      [...expectedFiles.keys(), ...ignoredFiles].map((filePath) =>
+        path.resolve(filePath),
+      ),
+    );
+    const existingFiles = generatedOnly
+      ? findGeneratedFiles(pathToOutputDirectory)
+      : globSync(
+          listOutputFiles(`**/*${OUTPUT_FILE_EXTENSIONS[target]}`, target),
+          {
+            cwd: pathToOutputDirectory,
+            absolute: false,
+          },
+        )
+          .sort()
+          .map((relativePath) =>
+            path.join(pathToOutputDirectory, relativePath),
+          );
+
+    for (const filePath of existingFiles) {
+      if (known.has(path.resolve(filePath))) continue;
+
+      result.extraFiles.push(filePath);
+      result.diffs[filePath] = createUnifiedDiff({
+        oldText: fs.readFileSync(filePath, "utf-8"),
+        newText: "",
+        oldLabel: `a/${toLabel(filePath)}`,
+        newLabel: "/dev/null",
+      });
+    }
+  }
+
+  result.isUpToDate =
+    result.missingFiles.length === 0 &&
+    result.changedFiles.length === 0 &&
+    result.extraFiles.length === 0;
+
+  return result;
+};
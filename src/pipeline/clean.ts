@@ -0,0 +1,120 @@
+/**
+ * Removal of stale generated files.
+ *
+ * Only files listed in the manifest as owned by the generator are considered,
+ * and only if their content still matches what was generated, so hand-written
+ * or hand-edited files in the output directory are never deleted. Files
+ * carrying the generated-file header marker can be passed in as well; the
+ * marker declares them owned whether or not the manifest lists them.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Logger } from "../types";
+import { hashContent } from "./incremental";
+
+/**
+ * Parameters for removing stale outputs.
+ */
+export interface RemoveStaleOutputsParams {
+  pathToOutputDirectory: string;
+
+  /** Previously generated files that are no longer generated, relative to the output directory, with content hashes */
+  staleOutputs: Record<string, string>;
+
+  /** Files carrying the generated-file marker that are no longer generated; removed even if the manifest does not list them */
+  markedOutputs?: string[];
+
+  logger: Logger;
+}
+
+/**
+ * Deletes previously generated files that are no longer generated, then every
+ * directory left empty by the deletion, up to the output directory. A marked
+ * file the manifest lists is only deleted if its content matches the manifest.
+ *
+ * @param params - The output directory, the stale outputs and the marked files
+ * @returns Paths of the deleted files
+ *
+ * @example
+ * removeStaleOutputs({
+ *   pathToOutputDirectory: 'types',
+ *   staleOutputs: { 'old.d.ts': '3f2a…' },
+ *   logger,
+ * }); // => ['types/old.d.ts']
+ */
+export const removeStaleOutputs = ({
+  pathToOutputDirectory,
+  staleOutputs,
+  markedOutputs = [],
+  logger,
+}: RemoveStaleOutputsParams): string[] => {
+  const deletedFiles: string[] = [];
+  const staleOutputPaths = new Set(
+    Object.keys(staleOutputs).map((outputFile) =>
+      path.resolve(pathToOutputDirectory, outputFile),
+    ),
+  );
+
+  for (const [outputFile, hash] of Object.entries(staleOutputs)) {
+    const outputFilePath = path.join(pathToOutputDirectory, outputFile);
+    let content: string;
+    try {
+      content = fs.readFileSync(outputFilePath, "utf-8");
+    } catch {
+      continue; // Already gone
+    }
+
+    if (hashContent(content) !== hash) {
+      logger.warn(
+        `Not removing ${outputFilePath}: it was modified after it was generated`,
+      );
+      continue;
+    }
+
+    removeOutput(outputFilePath, pathToOutputDirectory, logger);
+    deletedFiles.push(outputFilePath);
+  }
+
+  for (const outputFilePath of markedOutputs) {
+    if (staleOutputPaths.has(path.resolve(outputFilePath))) continue;
+    removeOutput(outputFilePath, pathToOutputDirectory, logger);
+    deletedFiles.push(outputFilePath);
+  }
+
+  return deletedFiles;
+};
+
+/**
+ * Deletes an output file and the directories it leaves empty.
+ */
+const removeOutput = (
+  outputFilePath: string,
+  pathToOutputDirectory: string,
+  logger: Logger,
+): void => {
+  fs.unlinkSync(outputFilePath);
+  logger.info(`Removed: ${outputFilePath}`);
+  removeEmptyDirectories(path.dirname(outputFilePath), pathToOutputDirectory);
+};
+
+/**
+ * Removes a directory and its parents while they are empty, stopping at the output directory.
+ */
+const removeEmptyDirectories = (
+  directory: string,
+  pathToOutputDirectory: string,
+): void => {
+  const root = path.resolve(pathToOutputDirectory);
+  let current = path.resolve(directory);
+
+  while (current !== root && current.startsWith(root + path.sep)) {
+    try {
+      if (fs.readdirSync(current).length > 0) return;
+      fs.rmdirSync(current);
+    } catch {
+      return;
+    }
+    current = path.dirname(current);
+  }
+};
@@ -0,0 +1,73 @@
+/**
+ * Discovery of the schema files a schema references.
+ */
+
+import { JsonSchema } from "../types";
+import {
+  appendPointer,
+  createSchemaStore,
+  getSchemaFilePath,
+  resolveUri,
+  toDocumentUri,
+  SchemaStore,
+} from "../resolution";
+import { getSchemaReference } from "../scanning";
+
+/**
+ * Collects the schema files a schema references through `$ref`, by relative
+ * path or, with a store knowing the `$id`s of the other files, by URI.
+ * Internal (`#...`) references are ignored. A reference to a URI that no
+ * schema file declares is collected as that URI, without its fragment, so the
+ * schema can be regenerated once a file declares it.
+ *
+ * @param schema - The parsed schema
+ * @param relativeSchemaPath - The schema's path relative to the schema directory
+ * @param store - The store references are resolved through; the schema is added to it if missing
+ * @returns Referenced schema paths, relative to the schema directory, and unresolved URIs
+ *
+ * @example
+ * collectFileDependencies(
+ *   { properties: { address: { $ref: './address.json#/definitions/Address' } } },
+ *   'api/user.json',
+ * ) // => ['api/address.json']
+ * collectFileDependencies({ $ref: 'https://example.com/user.json#/$defs/Id' }, 'api/order.json')
+ * // => ['https://example.com/user.json']
+ */
+export const collectFileDependencies = (
+  schema: unknown,
+  relativeSchemaPath: string,
+  store: SchemaStore = createSchemaStore(),
+): string[] => {
+  const dependencies = new Set<string>();
+  const documentUri = toDocumentUri(relativeSchemaPath);
+  if (!store.getDocument(documentUri)) {
+    store.add(schema as JsonSchema, documentUri);
+  }
+
+  const visit = (node: unknown, pointer: string): void => {
+    if (!node || typeof node !== "object") return;
+
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => visit(item, appendPointer(pointer, index)));
+      return;
+    }
+
+    const ref = getSchemaReference(node as JsonSchema);
+    if (ref !== undefined && !ref.startsWith("#")) {
+      const from = { documentUri, pointer };
+      const location = store.resolve(ref, from);
+      const uri = location
+        ? location.documentUri
+        : resolveUri(ref, store.getBaseUri(from))?.split("#")[0];
+      if (uri) dependencies.add(getSchemaFilePath(uri) ?? uri);
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      visit(value, appendPointer(pointer, key));
+    }
+  };
+
+  visit(schema, "#");
+  dependencies.delete(relativeSchemaPath);
+  return Array.from(dependencies).sort();
+};
@@ -0,0 +1,127 @@
+/**
+ * Discovery of schema files on disk.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { glob } from "tinyglobby";
+import { Logger } from "../types";
+import { readIgnoreFile } from "./ignore-file";
+import { SCHEMA_FILE_EXTENSIONS } from "./schema-format";
+
+/**
+ * Patterns matched when no `include` patterns are configured.
+ */
+export const DEFAULT_INCLUDE_PATTERNS = Object.keys(SCHEMA_FILE_EXTENSIONS).map(
+  (extension) => `**/*${extension}`,
+);
+
+/**
+ * Name of the ignore file looked up in each input root by default.
+ */
+export const DEFAULT_IGNORE_FILE_NAME = ".json-schema-to-dts-ignore";
+
+/**
+ * Parameters for finding schema files.
+ */
+export interface FindSchemaFilesParams {
+  /** The input roots, in order of precedence */
+  roots: string[];
+
+  /** Glob patterns of files to pick up, relative to each root */
+  include?: string[];
+
+  /** Glob patterns of files to skip, relative to each root */
+  exclude?: string[];
+
+  /** Path of a `.gitignore`-style file, relative to each root; false to disable */
+  ignoreFile?: string | false;
+
+  /** Logger for reporting shadowed files */
+  logger?: Logger;
+}
+
+/**
+ * A discovered schema file.
+ */
+export interface DiscoveredSchemaFile {
+  /** The input root the file was found in */
+  root: string;
+
+  /** Posix path of the file, relative to its root */
+  relativePath: string;
+}
+
+/**
+ * Normalizes `pathToJsonSchemas` to a list of input roots.
+ *
+ * @param pathToJsonSchemas - One input directory or several
+ * @returns The input roots
+ */
+export const getInputRoots = (pathToJsonSchemas: string | string[]): string[] =>
+  Array.isArray(pathToJsonSchemas) ? pathToJsonSchemas : [pathToJsonSchemas];
+
+/**
+ * Finds the file a root-relative schema path refers to. The roots form one
+ * virtual tree, so the first root containing the file wins.
+ *
+ * @param roots - The input roots, in order of precedence
+ * @param relativePath - The schema path, relative to a root
+ * @returns The path of the file, or the path below the first root if no root contains it
+ */
+export const resolveSchemaFilePath = (
+  roots: string[],
+  relativePath: string,
+): string => {
+  for (const root of roots) {
+    const candidate = path.join(root, relativePath);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return path.join(roots[0], relativePath);
+};
+
+/**
+ * Finds all schema files below the input roots.
+ * When the same relative path exists in several roots, the first root wins.
+ *
+ * @param params - The roots and filters
+ * @returns The schema files, sorted by relative path
+ */
+export const findSchemaFiles = async ({
+  roots,
+  include = DEFAULT_INCLUDE_PATTERNS,
+  exclude = [],
+  ignoreFile = DEFAULT_IGNORE_FILE_NAME,
+  logger,
+}: FindSchemaFilesParams): Promise<DiscoveredSchemaFile[]> => {
+  const filesByPath = new Map<string, DiscoveredSchemaFile>();
+
+  for (const root of roots) {
+    const isIgnored = ignoreFile
+      ? readIgnoreFile(path.resolve(root, ignoreFile))
+      : null;
+    const matches = await glob(include, {
+      cwd: root,
+      ignore: exclude,
+      absolute: false,
+      onlyFiles: true,
+    });
+
+    for (const relativePath of matches) {
+      if (isIgnored?.(relativePath)) continue;
+
+      const existing = filesByPath.get(relativePath);
+      if (existing) {
+        logger?.warn(
+          `Skipping ${path.join(root, relativePath)}: ${relativePath} is already provided by ${existing.root}`,
+        );
+        continue;
+      }
+      filesByPath.set(relativePath, { root, relativePath });
+    }
+  }
+
+  return Array.from(filesByPath.keys())
+    .sort()
+    .map((relativePath) => filesByPath.get(relativePath)!);
+};
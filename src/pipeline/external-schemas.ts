@@ -0,0 +1,199 @@
+/**
+ * Loading of the schemas that `$ref`s point at outside the schema files.
+ *
+ * Before anything is compiled, every schema file is scanned for references to
+ * URIs no schema file declares, and the configured loaders are asked for them.
+ * Loaded schemas are scanned in turn, so their own references are loaded too.
+ * The pipeline then generates each loaded schema like a schema file named by
+ * its URI, and referencing files import its types.
+ */
+
+import {
+  JsonSchema,
+  Logger,
+  SchemaLoader,
+  SchemaLoaderContext,
+} from "../types";
+import {
+  createSchemaStore,
+  forEachSubschema,
+  getSchemaFileUri,
+  resolveUri,
+  SCHEMA_FILE_BASE_URI,
+} from "../resolution";
+import { getSchemaReference } from "../scanning";
+import { DiscoveredSchemaFile } from "./discovery";
+import { ResolvedFileOptions } from "./file-options";
+import { hashContent } from "./incremental";
+import { readSchemaSource } from "./process-schema-file";
+
+/**
+ * Directory, relative to the output directory, below which loaded schemas are
+ * generated, before `outputPath` and `flatten` apply.
+ */
+export const EXTERNAL_SCHEMAS_DIRECTORY = "_external";
+
+/**
+ * A schema returned by a loader.
+ */
+export interface LoadedSchema {
+  /** The schema */
+  schema: JsonSchema;
+
+  /** SHA-256 of the schema, serialized as JSON */
+  sourceHash: string;
+}
+
+/**
+ * Parameters for loading external schemas.
+ */
+export interface LoadExternalSchemasParams {
+  /** The schema files of the run */
+  schemaFiles: DiscoveredSchemaFile[];
+
+  /** Resolves a schema file's generation options */
+  getFileOptions: (relativeSchemaPath: string) => ResolvedFileOptions;
+
+  /** The loaders, tried in order */
+  loaders: SchemaLoader[];
+
+  /**
+   * If true, loaders must not write anything, as in check mode.
+   * @default false
+   */
+  readOnly?: boolean;
+
+  /** Logger for loader failures */
+  logger: Logger;
+}
+
+/**
+ * Loads every schema referenced by URI that no schema file declares,
+ * transitively. A schema no loader returns is left out; the references to it
+ * are reported when the referencing file is compiled.
+ *
+ * @param params - The schema files and the loaders
+ * @returns The loaded schemas, by the URI they were loaded from
+ *
+ * @example
+ * const loaded = await loadExternalSchemas({ schemaFiles, getFileOptions, loaders: [createNodeModulesLoader()], logger });
+ * loaded.get('pkg:@org/schemas/user.json')?.schema;
+ */
+export const loadExternalSchemas = async ({
+  schemaFiles,
+  getFileOptions,
+  loaders,
+  readOnly = false,
+  logger,
+}: LoadExternalSchemasParams): Promise<Map<string, LoadedSchema>> => {
+  const loaded = new Map<string, LoadedSchema>();
+  if (loaders.length === 0) return loaded;
+
+  const store = createSchemaStore();
+  const pending: string[] = [];
+  for (const { root, relativePath } of schemaFiles) {
+    try {
+      const { schema } = readSchemaSource(relativePath, root, {
+        lenientJson: getFileOptions(relativePath).lenientJson,
+      });
+      const documentUri = getSchemaFileUri(relativePath);
+      store.add(schema, documentUri);
+      pending.push(documentUri);
+    } catch {
+      // The file fails on its own when it is compiled
+    }
+  }
+
+  const attempted = new Set<string>();
+  for (let index = 0; index < pending.length; index++) {
+    const documentUri = pending[index];
+    const targets: string[] = [];
+    forEachSubschema(store.getDocument(documentUri)!, (subschema, pointer) => {
+      const ref = getSchemaReference(subschema);
+      if (ref === undefined || ref.startsWith("#")) return;
+
+      const from = { documentUri, pointer };
+      const location = store.resolve(ref, from);
+      if (location && store.getDocument(location.documentUri)) return;
+
+      const uri = resolveUri(ref, store.getBaseUri(from))?.split("#")[0];
+      if (!uri || uri.startsWith(SCHEMA_FILE_BASE_URI) || attempted.has(uri)) {
+        return;
+      }
+      attempted.add(uri);
+      targets.push(uri);
+    });
+
+    for (const uri of targets) {
+      const schema = await loadSchema(uri, loaders, { readOnly }, logger);
+      if (!schema) continue;
+      store.add(schema, uri);
+      loaded.set(uri, {
+        schema,
+        sourceHash: hashContent(JSON.stringify(schema)),
+      });
+      pending.push(uri);
+    }
+  }
+  return loaded;
+};
+
+/**
+ * Returns the path a loaded schema is named by when its output path is
+ * resolved, as if it were a schema file: its URI's host and path below
+ * `EXTERNAL_SCHEMAS_DIRECTORY`.
+ *
+ * @param uri - The URI the schema was loaded from
+ * @returns The path, with `/` separators
+ *
+ * @example
+ * getLoadedSchemaPath('https://example.com/schemas/address.json') // => '_external/example.com/schemas/address.json'
+ * getLoadedSchemaPath('pkg:@org/schemas/user.json') // => '_external/@org/schemas/user.json'
+ */
+export const getLoadedSchemaPath = (uri: string): string => {
+  const { host, pathname } = new URL(uri);
+  const segments = [host, ...pathname.split("/")]
+    .map((segment) => decodeSegment(segment).replace(/[^\w.@-]+/g, "_"))
+    .filter((segment) => segment !== "" && !/^\.+$/.test(segment));
+  return [EXTERNAL_SCHEMAS_DIRECTORY, ...segments].join("/");
+};
+
+/**
+ * Asks each loader for a schema in turn. Failures are logged, and the schema
+ * is then left out.
+ */
+const loadSchema = async (
+  uri: string,
+  loaders: SchemaLoader[],
+  context: SchemaLoaderContext,
+  logger: Logger,
+): Promise<JsonSchema | null> => {
+  for (const loader of loaders) {
+    try {
+      const schema = await loader(uri, context);
+      if (schema === null || schema === undefined) continue;
+      if (typeof schema !== "object" || Array.isArray(schema)) {
+        logger.warn(`Failed to load ${uri}: the loader returned no schema`);
+        return null;
+      }
+      logger.debug(`Loaded ${uri}`);
+      return schema;
+    } catch (error) {
+      logger.warn(`Failed to load ${uri}:`, error);
+      return null;
+    }
+  }
+  logger.debug(`No loader handles ${uri}`);
+  return null;
+};
+
+/**
+ * Decodes the percent-encoding of a URI path segment.
+ */
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
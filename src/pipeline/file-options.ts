@@ -0,0 +1,69 @@
+/**
+ * Per-file options: the run's options with matching `overrides` applied.
+ */
+
+import {
+  FileOverride,
+  GeneratedTypesExportFormat,
+  ToTypesConfig,
+} from "../types";
+import { createGlobMatcher } from "./ignore-file";
+
+/**
+ * The options used to generate a single schema file.
+ */
+export interface ResolvedFileOptions {
+  generatedTypesExportsFormat: GeneratedTypesExportFormat;
+  strict: boolean;
+  lenientJson: boolean;
+}
+
+/**
+ * Creates a function returning the options for a schema file.
+ *
+ * @param config - The run configuration
+ * @returns A function mapping a root-relative schema path to its options
+ *
+ * @example
+ * const getFileOptions = createFileOptionsResolver({
+ *   ...config,
+ *   overrides: [{ files: ['legacy/**'], generatedTypesExportsFormat: 'ROOT_ONLY' }],
+ * });
+ * getFileOptions('legacy/user.json').generatedTypesExportsFormat; // => 'ROOT_ONLY'
+ */
+export const createFileOptionsResolver = ({
+  generatedTypesExportsFormat,
+  strict = false,
+  lenientJson = false,
+  overrides = [],
+}: Pick<
+  ToTypesConfig,
+  "generatedTypesExportsFormat" | "strict" | "lenientJson" | "overrides"
+>): ((relativeSchemaPath: string) => ResolvedFileOptions) => {
+  const matchers = overrides.map((override: FileOverride) => ({
+    override,
+    matches: createGlobMatcher(override.files),
+  }));
+
+  return (relativeSchemaPath) => {
+    const options: ResolvedFileOptions = {
+      generatedTypesExportsFormat,
+      strict,
+      lenientJson,
+    };
+    for (const { override, matches } of matchers) {
+      if (!matches(relativeSchemaPath)) continue;
+      if (override.generatedTypesExportsFormat !== undefined) {
+        options.generatedTypesExportsFormat =
+          override.generatedTypesExportsFormat;
+      }
+      if (override.strict !== undefined) {
+        options.strict = override.strict;
+      }
+      if (override.lenientJson !== undefined) {
+        options.lenientJson = override.lenientJson;
+      }
+    }
+    return options;
+  };
+};
@@ -0,0 +1,153 @@
+/**
+ * The comment at the top of generated files: the `@generated` marker, a
+ * do-not-edit banner and the provenance of the file.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { globSync } from "tinyglobby";
+import { HeaderOptions, ToTypesConfig } from "../types";
+import { getPackageInfo } from "./package-info";
+
+/**
+ * The marker identifying files written by the generator.
+ */
+export const GENERATED_FILE_MARKER = "@generated";
+
+/**
+ * The banner used when `HeaderOptions.banner` is not set.
+ */
+export const DEFAULT_HEADER_BANNER =
+  "DO NOT EDIT. Changes are overwritten when the file is regenerated; edit the source schema instead.";
+
+/**
+ * The generated files that can carry the marker, relative to the output directory.
+ */
+const GENERATED_FILE_PATTERNS = ["**/*.{ts,mts,cts,js,mjs,cjs}"];
+
+/**
+ * Matches the lines of the comments at the top of a file.
+ */
+const COMMENT_LINE_PATTERN = /^\s*(\/\/|\/\*|\*|$)/;
+
+/**
+ * A schema file a generated file is built from.
+ */
+export interface HeaderSource {
+  /** The schema path, relative to its input directory */
+  schemaPath: string;
+
+  /** The `$id` of the schema, if it has one */
+  id?: string;
+
+  /** SHA-256 of the schema file content */
+  hash: string;
+}
+
+/**
+ * Resolves the `header` option of a run.
+ *
+ * @param config - The run configuration
+ * @returns The header options, or null if no header is written
+ */
+export const resolveHeaderOptions = ({
+  header = false,
+}: Pick<ToTypesConfig, "header">): HeaderOptions | null =>
+  header === true ? {} : header || null;
+
+/**
+ * Renders the header of a generated file.
+ *
+ * @param options - The header options
+ * @param sources - The schema files the file is built from; none for barrels
+ * @returns The header, ending with a blank line
+ *
+ * @example
+ * renderHeader({ version: false }, [{ schemaPath: 'user.json', hash: '3f2a…' }])
+ * // => '/*\n * @generated by @safwanyp/json-schema-to-dts\n * DO NOT EDIT. …\n *\n * Source: user.json\n * Source hash: sha256:3f2a…\n *\/\n\n'
+ */
+export const renderHeader = (
+  options: HeaderOptions,
+  sources: HeaderSource[] = [],
+): string => {
+  const {
+    banner = DEFAULT_HEADER_BANNER,
+    source = true,
+    version = true,
+    hash = true,
+    pragmas = [],
+    license,
+  } = options;
+  const { name, version: generatorVersion } = getPackageInfo();
+
+  const paragraphs: string[][] = [];
+  if (license) {
+    paragraphs.push(license.trim().split(/\r?\n/));
+  }
+  paragraphs.push([
+    `${GENERATED_FILE_MARKER} by ${name}${version ? ` ${generatorVersion}` : ""}`,
+    ...(banner ? banner.trim().split(/\r?\n/) : []),
+  ]);
+  for (const { schemaPath, id, hash: sourceHash } of sources) {
+    const lines = [
+      ...(source ? [`Source: ${schemaPath.split(path.sep).join("/")}`] : []),
+      ...(source && id ? [`$id: ${id}`] : []),
+      ...(hash ? [`Source hash: sha256:${sourceHash}`] : []),
+    ];
+    if (lines.length > 0) paragraphs.push(lines);
+  }
+
+  const commentLines = paragraphs
+    .map((lines) =>
+      lines
+        .map((line) => ` * ${line.replace(/\*\//g, "*\\/")}`.trimEnd())
+        .join("\n"),
+    )
+    .join("\n *\n");
+  return [...pragmas, `/*\n${commentLines}\n */`].join("\n") + "\n\n";
+};
+
+/**
+ * Checks if a file starts with comments carrying the generated-file marker of
+ * this package. Files other generators mark (e.g. `@generated by protoc-gen-ts`)
+ * are not matched.
+ *
+ * @param content - The file content
+ * @returns True if the marker is found before the first line of code
+ */
+export const hasGeneratedFileMarker = (content: string): boolean => {
+  const marker = `${GENERATED_FILE_MARKER} by ${getPackageInfo().name}`;
+  for (const line of content.split("\n")) {
+    if (!COMMENT_LINE_PATTERN.test(line)) return false;
+    const index = line.indexOf(marker);
+    // The name must end there, so `@generated by <name>-plugin` is not matched
+    if (index !== -1 && /^(\s|$)/.test(line.slice(index + marker.length))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Finds the files in an output directory that carry the generated-file marker.
+ *
+ * @param pathToOutputDirectory - The output directory
+ * @returns The paths of the marked files, sorted
+ */
+export const findGeneratedFiles = (pathToOutputDirectory: string): string[] => {
+  if (!fs.existsSync(pathToOutputDirectory)) return [];
+
+  return globSync(GENERATED_FILE_PATTERNS, {
+    cwd: pathToOutputDirectory,
+    absolute: false,
+  })
+    .sort()
+    .map((relativePath) => path.join(pathToOutputDirectory, relativePath))
+    .filter((filePath) => {
+      try {
+        return hasGeneratedFileMarker(fs.readFileSync(filePath, "utf-8"));
+      } catch {
+        return false;
+      }
+    });
+};
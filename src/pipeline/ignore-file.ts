@@ -0,0 +1,181 @@
+/**
+ * `.gitignore`-style ignore files for schema discovery.
+ *
+ * Supported syntax: comments (`#`), blank lines, negation (`!`), directory-only
+ * patterns (trailing `/`), anchored patterns (a `/` at the start or in the middle),
+ * `*`, `?`, `**` and character classes. As in Git, a file inside an ignored
+ * directory cannot be re-included.
+ */
+
+import * as fs from "fs";
+
+/**
+ * A single parsed line of an ignore file.
+ */
+interface IgnoreRule {
+  /** Matches a posix path relative to the directory of the ignore file */
+  regex: RegExp;
+
+  /** True for `!pattern` lines, which re-include matching paths */
+  isNegated: boolean;
+
+  /** True for patterns ending in `/`, which only match directories */
+  isDirectoryOnly: boolean;
+}
+
+/**
+ * Tests whether a path is ignored.
+ * @param relativePath - Posix path relative to the directory of the ignore file
+ */
+export type IgnoreMatcher = (relativePath: string) => boolean;
+
+/**
+ * Converts a gitignore glob (without negation or trailing slash) to a regular expression.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  const isAnchored = glob.includes("/");
+  const pattern = glob.replace(/^\//, "");
+
+  let source = "";
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === "*" && pattern[index + 1] === "*") {
+      const isSegmentStart = index === 0 || pattern[index - 1] === "/";
+      const next = pattern[index + 2];
+      if (isSegmentStart && next === "/") {
+        // "**/" matches zero or more directories
+        source += "(?:.*/)?";
+        index += 2;
+        continue;
+      }
+      if (isSegmentStart && next === undefined) {
+        // trailing "**" matches everything inside
+        source += ".*";
+        index += 1;
+        continue;
+      }
+    }
+
+    if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", index + 2);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = pattern.slice(index + 1, end).replace(/^!/, "^");
+        source += `[${body.replace(/\\/g, "\\\\")}]`;
+        index = end;
+      }
+    } else if (char === "\\" && index + 1 < pattern.length) {
+      source += pattern[++index].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${isAnchored ? "" : "(?:.*/)?"}${source}$`);
+};
+
+/**
+ * Parses the content of an ignore file.
+ */
+const parseIgnoreRules = (content: string): IgnoreRule[] => {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    const isNegated = line.startsWith("!");
+    if (isNegated) line = line.slice(1);
+    if (line.startsWith("\\#") || line.startsWith("\\!")) line = line.slice(1);
+
+    const isDirectoryOnly = line.endsWith("/");
+    if (isDirectoryOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    rules.push({ regex: globToRegExp(line), isNegated, isDirectoryOnly });
+  }
+
+  return rules;
+};
+
+/**
+ * Creates a matcher from the content of an ignore file.
+ *
+ * @param content - The ignore file content
+ * @returns A function telling whether a file path is ignored
+ *
+ * @example
+ * const isIgnored = createIgnoreMatcher('fixtures/\n*.example.json\n!keep.example.json');
+ * isIgnored('fixtures/user.json'); // => true
+ * isIgnored('api/order.example.json'); // => true
+ * isIgnored('keep.example.json'); // => false
+ */
+export const createIgnoreMatcher = (content: string): IgnoreMatcher => {
+  const rules = parseIgnoreRules(content);
+
+  /** Applies the rules in order; the last matching rule wins. */
+  const isMatched = (candidate: string, isDirectory: boolean): boolean => {
+    let isIgnored = false;
+    for (const rule of rules) {
+      if (rule.isDirectoryOnly && !isDirectory) continue;
+      if (rule.regex.test(candidate)) {
+        isIgnored = !rule.isNegated;
+      }
+    }
+    return isIgnored;
+  };
+
+  return (relativePath) => {
+    const segments = relativePath.split("/");
+    for (let depth = 1; depth < segments.length; depth++) {
+      if (isMatched(segments.slice(0, depth).join("/"), true)) {
+        return true;
+      }
+    }
+    return isMatched(relativePath, false);
+  };
+};
+
+/**
+ * Creates a matcher for a list of glob patterns, using the same matching rules
+ * as ignore files: patterns without a `/` match at any depth.
+ *
+ * @param patterns - The glob patterns
+ * @returns A function telling whether a posix path matches any of the patterns
+ *
+ * @example
+ * const matches = createGlobMatcher(['legacy/**', '*.v1.json']);
+ * matches('legacy/user.json'); // => true
+ * matches('api/order.v1.json'); // => true
+ */
+export const createGlobMatcher = (
+  patterns: string[],
+): ((relativePath: string) => boolean) => {
+  const regexes = patterns.map((pattern) =>
+    globToRegExp(pattern.replace(/\/$/, "/**")),
+  );
+  return (relativePath) => regexes.some((regex) => regex.test(relativePath));
+};
+
+/**
+ * Reads an ignore file and creates a matcher for it.
+ *
+ * @param filePath - Path of the ignore file
+ * @returns The matcher, or null if the file does not exist
+ */
+export const readIgnoreFile = (filePath: string): IgnoreMatcher | null => {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+  return createIgnoreMatcher(content);
+};
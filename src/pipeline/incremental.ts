@@ -0,0 +1,438 @@
+/**
+ * Content-hash based incremental builds.
+ *
+ * A manifest stored in the output directory records, per schema file, the hash
+ * of its content, the hashes of the files it references and the output it
+ * produced. A schema is skipped when none of those inputs changed since the
+ * previous run, the output still exists, and the generator version and output
+ * options are the same.
+ *
+ * The manifest also lists every output file the generator wrote, with a hash
+ * of its content, so `clean` can tell generated files from hand-written ones.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Diagnostic } from "../types";
+import { resolveSchemaFilePath } from "./discovery";
+import { getPackageInfo } from "./package-info";
+
+/**
+ * Name of the manifest file written to the output directory.
+ */
+export const MANIFEST_FILE_NAME = ".json-schema-to-dts-manifest.json";
+
+/**
+ * Version of the manifest layout. Bumped whenever the structure changes,
+ * so manifests from older releases are ignored instead of misread.
+ */
+const MANIFEST_FORMAT_VERSION = 5;
+
+/**
+ * What the manifest records about a single schema file.
+ */
+export interface ManifestEntry {
+  /** SHA-256 of the schema file content */
+  hash: string;
+
+  /**
+   * Referenced schema files (relative to the schema directory) and their
+   * hashes, null if missing. A URI no schema file declared is listed by the
+   * URI, with the hash of the file declaring it once there is one.
+   */
+  dependencies: Record<string, string | null>;
+
+  /** The output file, relative to the output directory, or null if no types were produced */
+  outputFile: string | null;
+
+  /** Names of the generated types */
+  types: string[];
+
+  /** Names of the exported types */
+  exportedTypes: string[];
+
+  /** Names of the exported runtime values */
+  exportedValues: string[];
+
+  /** Diagnostics reported when the file was last compiled */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * The manifest stored in the output directory.
+ */
+export interface Manifest {
+  formatVersion: number;
+  generatorVersion: string;
+  optionsHash: string;
+  files: Record<string, ManifestEntry>;
+
+  /** Output files owned by the generator (relative to the output directory) and the hash of their content */
+  outputs: Record<string, string>;
+}
+
+/**
+ * Hashes text content with SHA-256.
+ *
+ * @param content - The content to hash
+ * @returns The hex digest
+ */
+export const hashContent = (content: string): string =>
+  crypto.createHash("sha256").update(content).digest("hex");
+
+/**
+ * Reads the manifest from an output directory.
+ *
+ * @param pathToOutputDirectory - The output directory
+ * @returns The manifest, or null if it is missing, unreadable or from another format version
+ */
+export const readManifest = (
+  pathToOutputDirectory: string,
+): Manifest | null => {
+  try {
+    const manifest = JSON.parse(
+      fs.readFileSync(
+        path.join(pathToOutputDirectory, MANIFEST_FILE_NAME),
+        "utf-8",
+      ),
+    );
+    if (
+      manifest?.formatVersion !== MANIFEST_FORMAT_VERSION ||
+      typeof manifest.files !== "object" ||
+      typeof manifest.outputs !== "object"
+    ) {
+      return null;
+    }
+    return manifest as Manifest;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Writes the manifest to an output directory, unless it is unchanged.
+ *
+ * @param pathToOutputDirectory - The output directory
+ * @param manifest - The manifest to write
+ */
+export const writeManifest = (
+  pathToOutputDirectory: string,
+  manifest: Manifest,
+): void => {
+  writeFileIfChanged(
+    path.join(pathToOutputDirectory, MANIFEST_FILE_NAME),
+    JSON.stringify(manifest, null, 2) + "\n",
+  );
+};
+
+/**
+ * Writes a file only if its content differs from what is on disk,
+ * so unchanged outputs keep their modification time.
+ *
+ * @param filePath - The file to write
+ * @param content - The new content
+ * @returns True if the file was written, false if it was already up to date
+ */
+export const writeFileIfChanged = (
+  filePath: string,
+  content: string,
+): boolean => {
+  try {
+    if (fs.readFileSync(filePath, "utf-8") === content) {
+      return false;
+    }
+  } catch {
+    // Missing or unreadable: fall through and write it
+  }
+  fs.writeFileSync(filePath, content, "utf-8");
+  return true;
+};
+
+/**
+ * Returns a copy of a record with sorted keys, so the manifest does not churn between runs.
+ */
+const sortKeys = <T>(record: Record<string, T>): Record<string, T> => {
+  const sorted: Record<string, T> = {};
+  for (const key of Object.keys(record).sort()) {
+    sorted[key] = record[key];
+  }
+  return sorted;
+};
+
+/**
+ * Parameters for creating an incremental cache.
+ */
+export interface CreateIncrementalCacheParams {
+  /** The input roots, in order of precedence */
+  roots: string[];
+  pathToOutputDirectory: string;
+
+  /** The options that affect generated output; any change invalidates the cache */
+  outputOptions: Record<string, unknown>;
+
+  /** When false, nothing is reused and no manifest is written */
+  enabled: boolean;
+
+  /**
+   * Content hashes of the documents that are not schema files (schemas
+   * returned by loaders), by URI, so they are cached like schema files.
+   * @default {}
+   */
+  documentHashes?: Record<string, string>;
+
+  /**
+   * The schema file declaring each `$id`, by URI, so a reference to a URI
+   * that was not declared is invalidated once a file declares it.
+   * @default {}
+   */
+  declaredUris?: Record<string, string>;
+
+  /**
+   * When true, the manifest is read and written even if `enabled` is false,
+   * to keep track of the output files the generator owns.
+   * @default false
+   */
+  trackOutputs?: boolean;
+}
+
+/**
+ * What is recorded about a processed schema file.
+ */
+export interface RecordProcessedParams {
+  /** The schema files the file references, relative to their input root */
+  dependencies: string[];
+  outputFilePath: string | null;
+  types: string[];
+  exportedTypes: string[];
+  exportedValues: string[];
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Interface for the incremental build cache.
+ */
+export interface IncrementalCache {
+  /**
+   * Get the current content hash of a schema file.
+   *
+   * @param file - The schema path, relative to its input root
+   * @returns The hash, or null if the file does not exist
+   */
+  getHash(file: string): string | null;
+
+  /**
+   * Get the previous entry for a schema file if none of its inputs changed.
+   *
+   * @param file - The schema path, relative to its input root
+   * @returns The reusable entry, or null if the file must be regenerated
+   */
+  getUpToDateEntry(file: string): ManifestEntry | null;
+
+  /**
+   * Record a schema file whose previous entry was reused in this run.
+   *
+   * @param file - The schema path, relative to its input root
+   * @param entry - The reused entry
+   */
+  recordReused(file: string, entry: ManifestEntry): void;
+
+  /**
+   * Record a schema file that was processed in this run (no-op when disabled).
+   *
+   * @param file - The schema path, relative to its input root
+   * @param processed - The files it references, its output file and generated type names
+   */
+  recordProcessed(file: string, processed: RecordProcessedParams): void;
+
+  /**
+   * Get the output files owned after the previous run that were not recorded
+   * in this run, whether or not the rest of the previous manifest can be reused.
+   *
+   * @returns Map of output paths, relative to the output directory, to content hashes
+   */
+  getStaleOutputs(): Record<string, string>;
+
+  /**
+   * Record an output file owned by the generator after this run.
+   *
+   * @param outputFilePath - The output file
+   * @param hash - The hash of its content
+   */
+  recordOutput(outputFilePath: string, hash: string): void;
+
+  /**
+   * Get the recorded hash of an output file owned after the previous run.
+   *
+   * @param outputFilePath - The output file
+   * @returns The hash, or null if the file was not owned
+   */
+  getPreviousOutputHash(outputFilePath: string): string | null;
+
+  /**
+   * Write the manifest for this run (no-op unless enabled or tracking outputs).
+   */
+  save(): void;
+}
+
+/**
+ * Creates an incremental cache backed by the manifest in the output directory.
+ *
+ * @param params - The cache parameters
+ * @returns The cache for the current run
+ */
+export const createIncrementalCache = ({
+  roots,
+  pathToOutputDirectory,
+  outputOptions,
+  enabled,
+  documentHashes = {},
+  declaredUris = {},
+  trackOutputs = false,
+}: CreateIncrementalCacheParams): IncrementalCache => {
+  const generatorVersion = getPackageInfo().version;
+  const optionsHash = hashContent(JSON.stringify(outputOptions));
+  const isPersisted = enabled || trackOutputs;
+  const previous = isPersisted ? readManifest(pathToOutputDirectory) : null;
+  const isPreviousCompatible =
+    enabled &&
+    !!previous &&
+    previous.generatorVersion === generatorVersion &&
+    previous.optionsHash === optionsHash;
+
+  const hashes = new Map<string, string | null>();
+  const files: Record<string, ManifestEntry> = {};
+  const outputs: Record<string, string> = {};
+
+  const toOutputFile = (outputFilePath: string): string =>
+    path
+      .relative(pathToOutputDirectory, outputFilePath)
+      .split(path.sep)
+      .join("/");
+
+  const getHash = (file: string): string | null => {
+    if (Object.prototype.hasOwnProperty.call(documentHashes, file)) {
+      return documentHashes[file];
+    }
+    if (Object.prototype.hasOwnProperty.call(declaredUris, file)) {
+      return getHash(declaredUris[file]);
+    }
+    if (!hashes.has(file)) {
+      try {
+        hashes.set(
+          file,
+          hashContent(
+            fs.readFileSync(resolveSchemaFilePath(roots, file), "utf-8"),
+          ),
+        );
+      } catch {
+        hashes.set(file, null);
+      }
+    }
+    return hashes.get(file)!;
+  };
+
+  /**
+   * Checks a file and, transitively, everything it references.
+   */
+  const isUpToDate = (file: string, visited: Set<string>): boolean => {
+    if (visited.has(file)) return true;
+    visited.add(file);
+
+    const entry = previous!.files[file];
+    if (!entry || entry.hash !== getHash(file)) return false;
+
+    return Object.entries(entry.dependencies).every(
+      ([dependency, hash]) =>
+        getHash(dependency) === hash &&
+        (hash === null ||
+          !previous!.files[dependency] ||
+          isUpToDate(dependency, visited)),
+    );
+  };
+
+  return {
+    getHash,
+
+    getUpToDateEntry(file) {
+      if (!isPreviousCompatible) return null;
+
+      const entry = previous!.files[file];
+      if (!entry || !isUpToDate(file, new Set())) return null;
+
+      if (
+        entry.outputFile !== null &&
+        !fs.existsSync(path.join(pathToOutputDirectory, entry.outputFile))
+      ) {
+        return null;
+      }
+
+      return entry;
+    },
+
+    recordReused(file, entry) {
+      files[file] = entry;
+    },
+
+    recordProcessed(
+      file,
+      {
+        dependencies: dependencyPaths,
+        outputFilePath,
+        types,
+        exportedTypes,
+        exportedValues,
+        diagnostics,
+      },
+    ) {
+      if (!enabled) return;
+
+      const dependencies: Record<string, string | null> = {};
+      for (const dependency of dependencyPaths) {
+        dependencies[dependency] = getHash(dependency);
+      }
+
+      files[file] = {
+        hash: getHash(file)!,
+        dependencies,
+        outputFile: outputFilePath ? toOutputFile(outputFilePath) : null,
+        types,
+        exportedTypes,
+        exportedValues,
+        diagnostics,
+      };
+    },
+
+    getStaleOutputs() {
+      const staleOutputs: Record<string, string> = {};
+      for (const [outputFile, hash] of Object.entries(
+        previous?.outputs ?? {},
+      )) {
+        if (!(outputFile in outputs)) {
+          staleOutputs[outputFile] = hash;
+        }
+      }
+      return staleOutputs;
+    },
+
+    recordOutput(outputFilePath, hash) {
+      outputs[toOutputFile(outputFilePath)] = hash;
+    },
+
+    getPreviousOutputHash(outputFilePath) {
+      return previous?.outputs[toOutputFile(outputFilePath)] ?? null;
+    },
+
+    save() {
+      if (!isPersisted) return;
+
+      writeManifest(pathToOutputDirectory, {
+        formatVersion: MANIFEST_FORMAT_VERSION,
+        generatorVersion,
+        optionsHash,
+        files: sortKeys(files),
+        outputs: sortKeys(outputs),
+      });
+    },
+  };
+};
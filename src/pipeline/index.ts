@@ -0,0 +1,132 @@
+/**
+ * File-level generation pipeline shared by `toTypes` and watch mode.
+ */
+
+export {
+  processSchemaFile,
+  compileSchemaFile,
+  readSchemaFile,
+  readSchemaSource,
+  logDiagnostics,
+  createSchemaModules,
+  getDeclaredUris,
+  ProcessSchemaFileParams,
+  ProcessedSchemaFile,
+  CompileSchemaFileParams,
+  CompiledSchemaFile,
+  SchemaModule,
+  CreateSchemaModulesParams,
+} from "./process-schema-file";
+export {
+  findSchemaFiles,
+  getInputRoots,
+  resolveSchemaFilePath,
+  DEFAULT_INCLUDE_PATTERNS,
+  DEFAULT_IGNORE_FILE_NAME,
+  FindSchemaFilesParams,
+  DiscoveredSchemaFile,
+} from "./discovery";
+export {
+  createIgnoreMatcher,
+  readIgnoreFile,
+  IgnoreMatcher,
+} from "./ignore-file";
+export { getPackageInfo } from "./package-info";
+export { collectFileDependencies } from "./dependencies";
+export {
+  loadExternalSchemas,
+  getLoadedSchemaPath,
+  EXTERNAL_SCHEMAS_DIRECTORY,
+  LoadedSchema,
+  LoadExternalSchemasParams,
+} from "./external-schemas";
+export {
+  createFileLoader,
+  createNodeModulesLoader,
+  createHttpLoader,
+  NodeModulesLoaderOptions,
+  HttpLoaderOptions,
+} from "./loaders";
+export {
+  createIncrementalCache,
+  readManifest,
+  writeFileIfChanged,
+  hashContent,
+  IncrementalCache,
+  RecordProcessedParams,
+  Manifest,
+  ManifestEntry,
+  MANIFEST_FILE_NAME,
+} from "./incremental";
+export {
+  createFileWriter,
+  createRecordingWriter,
+  OutputWriter,
+  RecordingWriter,
+} from "./output-writer";
+export { compareOutputs, CompareOutputsParams } from "./check";
+export { removeStaleOutputs, RemoveStaleOutputsParams } from "./clean";
+export {
+  createBarrelFiles,
+  BARREL_FILE_NAME,
+  BarrelModule,
+  CreateBarrelFilesParams,
+} from "./barrels";
+export {
+  createOutputPathResolver,
+  findOutputPathCollisions,
+  findUnknownPlaceholders,
+  getOutputPathInfo,
+  renderOutputPathTemplate,
+  changeFileNameCase,
+  getDeclarationFilePath,
+  listOutputFiles,
+  toModuleSpecifier,
+  DEFAULT_OUTPUT_PATH_TEMPLATE,
+  OUTPUT_PATH_PLACEHOLDERS,
+  OUTPUT_FILE_EXTENSIONS,
+} from "./output-path";
+export { resolveOutputTarget, OutputTargetOptions } from "./output-target";
+export {
+  parseSchemaContent,
+  getSchemaFileFormat,
+  stripSchemaFileExtension,
+  SCHEMA_FILE_EXTENSIONS,
+  SchemaFileFormat,
+} from "./schema-format";
+export {
+  resolveHeaderOptions,
+  renderHeader,
+  hasGeneratedFileMarker,
+  findGeneratedFiles,
+  GENERATED_FILE_MARKER,
+  DEFAULT_HEADER_BANNER,
+  HeaderSource,
+} from "./header";
+export {
+  bundleSchemaFiles,
+  DEFAULT_BUNDLE_FILE_NAME,
+  BundleSchemaFilesParams,
+  SchemaBundle,
+} from "./bundle";
+export {
+  createProcessedFileReport,
+  createFailedFileReport,
+  createToTypesResult,
+  emitFileEvent,
+  summarizeFileReports,
+  CreateProcessedFileReportParams,
+} from "./report";
+export { createFileOptionsResolver, ResolvedFileOptions } from "./file-options";
+export {
+  createCompilerPool,
+  startCompilerPool,
+  serializeError,
+  deserializeError,
+  SCHEMA_WORKER_PATH,
+  MIN_FILES_PER_WORKER,
+  CompilerPool,
+  CreateCompilerPoolParams,
+  StartCompilerPoolParams,
+  SerializedError,
+} from "./worker-pool";
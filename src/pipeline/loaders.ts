@@ -0,0 +1,286 @@
+/**
+ * Built-in schema loaders, for `$ref`s to documents that are not schema files.
+ *
+ * Loaders are only used when configured in `loaders`; none of them touches the
+ * network unless `createHttpLoader` is among them.
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { JsonSchema, SchemaLoader } from "../types";
+import { SchemaLoadError } from "../errors";
+import { parseSchemaContent } from "./schema-format";
+import { hashContent } from "./incremental";
+
+/**
+ * Number of redirects the default HTTP request follows.
+ */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Milliseconds the HTTP loader waits for a download by default.
+ */
+const DEFAULT_HTTP_TIMEOUT = 30000;
+
+/**
+ * Creates a loader for `file:` URIs, reading the schema in the format of its extension.
+ *
+ * @returns The loader
+ *
+ * @example
+ * loaders: [createFileLoader()] // resolves { "$ref": "file:///opt/schemas/user.json" }
+ */
+export const createFileLoader = (): SchemaLoader => (uri) => {
+  if (!uri.startsWith("file:")) return null;
+  return readSchema(uri, fileURLToPath(uri));
+};
+
+/**
+ * Options for the node_modules loader.
+ */
+export interface NodeModulesLoaderOptions {
+  /**
+   * The URI scheme naming files of installed packages.
+   * @default 'pkg:'
+   */
+  scheme?: string;
+
+  /**
+   * The directory packages are resolved from, as by `require.resolve`.
+   * @default process.cwd()
+   */
+  resolveFrom?: string;
+}
+
+/**
+ * Creates a loader for schema files of installed packages, named like
+ * `pkg:@org/schemas/user.json`.
+ *
+ * @param options - The URI scheme and where packages are resolved from
+ * @returns The loader
+ *
+ * @example
+ * loaders: [createNodeModulesLoader({ resolveFrom: __dirname })]
+ */
+export const createNodeModulesLoader = ({
+  scheme = "pkg:",
+  resolveFrom = process.cwd(),
+}: NodeModulesLoaderOptions = {}): SchemaLoader => {
+  return (uri) => {
+    if (!uri.startsWith(scheme)) return null;
+
+    const specifier = decodeURIComponent(uri.slice(scheme.length));
+    let filePath: string;
+    try {
+      filePath = require.resolve(specifier, { paths: [resolveFrom] });
+    } catch (error) {
+      throw new SchemaLoadError({
+        uri,
+        reason: `${specifier} is not installed`,
+        cause: error,
+      });
+    }
+    return readSchema(uri, filePath);
+  };
+};
+
+/**
+ * Options for the HTTP loader.
+ */
+export interface HttpLoaderOptions {
+  /**
+   * The directory downloaded schemas are cached in. A cached schema is never
+   * downloaded again; delete its file to refresh it.
+   */
+  cacheDirectory: string;
+
+  /**
+   * If true, schemas are only read from the cache and nothing is downloaded;
+   * a schema missing from the cache fails to load. Use it to replay a run
+   * without network access, e.g. in CI with a committed cache.
+   * @default false
+   */
+  offline?: boolean;
+
+  /**
+   * Milliseconds to wait for a download, redirects included, before the
+   * schema fails to load.
+   * @default 30000
+   */
+  timeout?: number;
+
+  /**
+   * Downloads the content at a URL.
+   * @default a GET request following up to 5 redirects
+   */
+  request?: (url: string) => Promise<string>;
+}
+
+/**
+ * What the HTTP loader stores per URL.
+ */
+interface CachedResponse {
+  uri: string;
+  content: string;
+}
+
+/**
+ * Creates a loader for `http:` and `https:` URLs that caches every downloaded
+ * schema on disk. In check mode the cache is read but not written.
+ *
+ * @param options - The cache directory, whether to download at all and the request timeout
+ * @returns The loader
+ *
+ * @example
+ * loaders: [createHttpLoader({ cacheDirectory: '.schema-cache', offline: !!process.env.CI })]
+ */
+export const createHttpLoader = ({
+  cacheDirectory,
+  offline = false,
+  timeout = DEFAULT_HTTP_TIMEOUT,
+  request = (url) => requestText(url, timeout),
+}: HttpLoaderOptions): SchemaLoader => {
+  return async (uri, { readOnly }) => {
+    if (!/^https?:/i.test(uri)) return null;
+
+    const cacheFilePath = path.join(cacheDirectory, `${hashContent(uri)}.json`);
+    const cached = readCachedResponse(cacheFilePath, uri);
+    if (cached !== null) return parseSchema(uri, cached);
+    if (offline) {
+      throw new SchemaLoadError({
+        uri,
+        reason: `not in the cache at ${cacheDirectory} (offline)`,
+      });
+    }
+
+    let content: string;
+    try {
+      content = await withTimeout(request(uri), timeout);
+    } catch (error) {
+      throw new SchemaLoadError({
+        uri,
+        reason: error instanceof Error ? error.message : String(error),
+        cause: error,
+      });
+    }
+    // Only schemas that parse are cached, so a broken response is retried
+    const schema = parseSchema(uri, content);
+    if (!readOnly) {
+      const response: CachedResponse = { uri, content };
+      fs.mkdirSync(cacheDirectory, { recursive: true });
+      fs.writeFileSync(cacheFilePath, JSON.stringify(response, null, 2) + "\n");
+    }
+    return schema;
+  };
+};
+
+/**
+ * Returns the cached content of a URL, or null if it is not cached.
+ */
+const readCachedResponse = (
+  cacheFilePath: string,
+  uri: string,
+): string | null => {
+  try {
+    const cached: CachedResponse = JSON.parse(
+      fs.readFileSync(cacheFilePath, "utf-8"),
+    );
+    return cached.uri === uri ? cached.content : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads and parses a schema file on disk.
+ */
+const readSchema = (uri: string, filePath: string): JsonSchema => {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf-8");
+  } catch (error) {
+    throw new SchemaLoadError({
+      uri,
+      reason: `cannot read ${filePath}`,
+      cause: error,
+    });
+  }
+  return parseSchema(filePath, content);
+};
+
+/**
+ * Parses loaded content in the format of its file or URL extension, JSON by default.
+ */
+const parseSchema = (name: string, content: string): JsonSchema =>
+  parseSchemaContent(content, name);
+
+/**
+ * Rejects when a download takes longer than the timeout.
+ */
+const withTimeout = <T>(promise: Promise<T>, timeout: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`no response within ${timeout} ms`)),
+      timeout,
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+
+/**
+ * Downloads the content at a URL, following redirects. The socket is closed
+ * once it has been idle for the timeout, so a stalled server is not waited on.
+ */
+const requestText = (
+  url: string,
+  timeout: number,
+  redirects = 0,
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const client = url.startsWith("https:") ? https : http;
+    const req = client.get(url, (response) => {
+      const { statusCode = 0, headers } = response;
+      if (statusCode >= 300 && statusCode < 400 && headers.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          reject(new Error(`more than ${MAX_REDIRECTS} redirects`));
+          return;
+        }
+        resolve(
+          requestText(
+            new URL(headers.location, url).href,
+            timeout,
+            redirects + 1,
+          ),
+        );
+        return;
+      }
+      if (statusCode !== 200) {
+        response.resume();
+        reject(new Error(`HTTP ${statusCode}`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      response.on("data", (chunk: Buffer) => chunks.push(chunk));
+      response.on("end", () =>
+        resolve(Buffer.concat(chunks).toString("utf-8")),
+      );
+      response.on("error", reject);
+    });
+    req.setTimeout(timeout, () =>
+      req.destroy(new Error(`no response within ${timeout} ms`)),
+    );
+    req.on("error", reject);
+  });
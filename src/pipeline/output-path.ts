@@ -0,0 +1,298 @@
+/**
+ * Mapping of schema files to the paths of their output files.
+ */
+
+import * as path from "path";
+import {
+  FileNameCase,
+  OutputPathInfo,
+  OutputTarget,
+  ToTypesConfig,
+} from "../types";
+import { splitWords } from "../utils";
+import { ConfigError, OutputPathCollisionError } from "../errors";
+import { stripSchemaFileExtension } from "./schema-format";
+
+/**
+ * The output path template used when `outputPath` is not set.
+ */
+export const DEFAULT_OUTPUT_PATH_TEMPLATE = "{dir}/{name}{ext}";
+
+/**
+ * The placeholders an output path template can use.
+ */
+export const OUTPUT_PATH_PLACEHOLDERS = ["dir", "name", "base", "ext"] as const;
+
+/**
+ * The extension of the files written for each output target.
+ */
+export const OUTPUT_FILE_EXTENSIONS: Record<OutputTarget, string> = {
+  "d.ts": ".d.ts",
+  ts: ".ts",
+  js: ".js",
+};
+
+/**
+ * Matches a placeholder in an output path template.
+ */
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+/**
+ * Describes a schema file for output path templates and mappers.
+ *
+ * @param relativeSchemaPath - The schema path, relative to its input directory
+ * @param target - The kind of module written for the schema file
+ * @returns The placeholders for the schema file
+ *
+ * @example
+ * getOutputPathInfo('api/user.schema.v2.json')
+ * // => { schemaPath: 'api/user.schema.v2.json', dir: 'api', name: 'user.v2', base: 'user.schema.v2', ext: '.d.ts' }
+ */
+export const getOutputPathInfo = (
+  relativeSchemaPath: string,
+  target: OutputTarget = "d.ts",
+): OutputPathInfo => {
+  const schemaPath = relativeSchemaPath.split(path.sep).join("/");
+  const dir = path.posix.dirname(schemaPath);
+  const base = stripSchemaFileExtension(path.posix.basename(schemaPath));
+  return {
+    schemaPath,
+    dir: dir === "." ? "" : dir,
+    name: base.replace(/\.schema(?=\.|$)/, ""),
+    base,
+    ext: OUTPUT_FILE_EXTENSIONS[target],
+  };
+};
+
+/**
+ * Lists the placeholders of an output path template that are not supported.
+ *
+ * @param template - The template, e.g. `{dir}/{name}.types.d.ts`
+ * @returns The unknown placeholders, with their braces
+ *
+ * @example
+ * findUnknownPlaceholders('{dir}/{file}.d.ts') // => ['{file}']
+ */
+export const findUnknownPlaceholders = (template: string): string[] =>
+  Array.from(template.matchAll(PLACEHOLDER_PATTERN))
+    .filter(
+      ([, name]) =>
+        !(OUTPUT_PATH_PLACEHOLDERS as readonly string[]).includes(name),
+    )
+    .map(([placeholder]) => placeholder);
+
+/**
+ * Fills in the placeholders of an output path template.
+ *
+ * @param template - The template, e.g. `{dir}/{name}.types.d.ts`
+ * @param info - The placeholders for a schema file
+ * @returns The output path, relative to the output directory
+ */
+export const renderOutputPathTemplate = (
+  template: string,
+  info: OutputPathInfo,
+): string =>
+  template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    (OUTPUT_PATH_PLACEHOLDERS as readonly string[]).includes(name)
+      ? info[name as keyof OutputPathInfo]
+      : placeholder,
+  );
+
+/**
+ * Changes the casing of a file name.
+ *
+ * @example
+ * changeFileNameCase('user_profile.v2', 'kebab') // => 'user-profile-v2'
+ */
+export const changeFileNameCase = (
+  fileName: string,
+  fileNameCase: FileNameCase,
+): string => {
+  if (fileNameCase === "preserve") return fileName;
+
+  const words = splitWords(fileName).map((word) => word.toLowerCase());
+  const capitalize = (word: string) =>
+    word.charAt(0).toUpperCase() + word.slice(1);
+  switch (fileNameCase) {
+    case "kebab":
+      return words.join("-");
+    case "snake":
+      return words.join("_");
+    case "camel":
+      return words
+        .map((word, index) => (index === 0 ? word : capitalize(word)))
+        .join("");
+    case "pascal":
+      return words.map(capitalize).join("");
+  }
+};
+
+/**
+ * Creates a function returning the path of a schema's output file.
+ *
+ * @param config - The output directory and naming options
+ * @returns A function mapping a root-relative schema path to its output file
+ * @throws ConfigError if the template uses an unknown placeholder, or when the
+ * returned function maps a schema file outside the output directory
+ *
+ * @example
+ * const getOutputFilePath = createOutputPathResolver({
+ *   pathToOutputDirectory: 'types',
+ *   outputPath: '{dir}/{name}.types.d.ts',
+ *   fileNameCase: 'kebab',
+ * });
+ * getOutputFilePath('api/userProfile.schema.json'); // => 'types/api/user-profile.types.d.ts'
+ */
+export const createOutputPathResolver = ({
+  pathToOutputDirectory,
+  outputPath = DEFAULT_OUTPUT_PATH_TEMPLATE,
+  fileNameCase = "preserve",
+  flatten = false,
+  target = "d.ts",
+}: Pick<
+  ToTypesConfig,
+  "pathToOutputDirectory" | "outputPath" | "fileNameCase" | "flatten" | "target"
+>): ((relativeSchemaPath: string) => string) => {
+  const unknownPlaceholders =
+    typeof outputPath === "string" ? findUnknownPlaceholders(outputPath) : [];
+  if (unknownPlaceholders.length > 0) {
+    throw new ConfigError({
+      filePath: null,
+      issues: [
+        `"outputPath" uses unknown placeholder(s) ${unknownPlaceholders.join(", ")}; expected {dir}, {name}, {base} or {ext}`,
+      ],
+    });
+  }
+
+  return (relativeSchemaPath) => {
+    const info = getOutputPathInfo(relativeSchemaPath, target);
+    const file: OutputPathInfo = {
+      ...info,
+      dir: flatten ? "" : info.dir,
+      name: changeFileNameCase(info.name, fileNameCase),
+      base: changeFileNameCase(info.base, fileNameCase),
+    };
+    const relativeOutputPath =
+      typeof outputPath === "function"
+        ? outputPath(file)
+        : renderOutputPathTemplate(outputPath, file);
+    const outputFilePath = path.join(
+      pathToOutputDirectory,
+      path.posix.normalize(relativeOutputPath).replace(/^\/+/, ""),
+    );
+    if (!isInsideDirectory(pathToOutputDirectory, outputFilePath)) {
+      throw new ConfigError({
+        filePath: null,
+        issues: [
+          `"outputPath" maps ${info.schemaPath} to ${outputFilePath}, outside the output directory ${pathToOutputDirectory}`,
+        ],
+      });
+    }
+    return outputFilePath;
+  };
+};
+
+/**
+ * Returns the path of the declaration file written next to a JavaScript module.
+ *
+ * @param outputFilePath - The path of the `.js`, `.mjs` or `.cjs` module
+ * @returns The path of its `.d.ts`, `.d.mts` or `.d.cts` file
+ *
+ * @example
+ * getDeclarationFilePath('types/user.js') // => 'types/user.d.ts'
+ */
+export const getDeclarationFilePath = (outputFilePath: string): string => {
+  const match = /\.([mc]?)js$/.exec(outputFilePath);
+  return match
+    ? `${outputFilePath.slice(0, match.index)}.d.${match[1]}ts`
+    : `${outputFilePath}.d.ts`;
+};
+
+/**
+ * Lists the files written for an output file: the file itself, and for the
+ * 'js' target its declaration file.
+ *
+ * @param outputFilePath - The path of the output file
+ * @param target - The output target
+ * @returns The paths of the written files
+ */
+export const listOutputFiles = (
+  outputFilePath: string,
+  target: OutputTarget = "d.ts",
+): string[] =>
+  target === "js"
+    ? [outputFilePath, getDeclarationFilePath(outputFilePath)]
+    : [outputFilePath];
+
+/**
+ * Finds the schema files whose output file is already taken by an earlier one.
+ * Paths differing only in case collide too, as they do on case-insensitive file systems.
+ *
+ * @param outputPaths - The output file of each schema file, in processing order
+ * @returns An `OutputPathCollisionError` for every schema file that lost its output file
+ *
+ * @example
+ * findOutputPathCollisions(new Map([['a/user.json', 'types/user.d.ts'], ['b/user.json', 'types/user.d.ts']]))
+ * // => Map { 'b/user.json' => OutputPathCollisionError }
+ */
+export const findOutputPathCollisions = (
+  outputPaths: Map<string, string>,
+): Map<string, OutputPathCollisionError> => {
+  const owners = new Map<string, string>();
+  const collisions = new Map<string, OutputPathCollisionError>();
+
+  for (const [schemaPath, outputPath] of outputPaths) {
+    const key = outputPath.toLowerCase();
+    const owner = owners.get(key);
+    if (owner === undefined) {
+      owners.set(key, schemaPath);
+      continue;
+    }
+    collisions.set(
+      schemaPath,
+      new OutputPathCollisionError({
+        outputPath,
+        conflictingSchemaPath: owner,
+        schemaPath,
+      }),
+    );
+  }
+
+  return collisions;
+};
+
+/**
+ * Computes the import specifier of a generated module from a directory.
+ *
+ * @param directory - The directory of the importing file
+ * @param outputPath - The path of the generated module
+ * @returns The relative specifier without its extension
+ *
+ * @example
+ * toModuleSpecifier('types', 'types/v2/offer.d.ts') // => './v2/offer'
+ * toModuleSpecifier('types/v2', 'types/common/address.ts') // => '../common/address'
+ */
+export const toModuleSpecifier = (
+  directory: string,
+  outputPath: string,
+): string => {
+  const relativePath = path
+    .relative(directory, outputPath)
+    .split(path.sep)
+    .join("/")
+    .replace(/(\.d)?\.[jt]s$/, "");
+  return relativePath.startsWith(".") ? relativePath : `./${relativePath}`;
+};
+
+/**
+ * Checks if a path is strictly inside a directory.
+ */
+const isInsideDirectory = (directory: string, filePath: string): boolean => {
+  const relativePath = path.relative(directory, filePath);
+  return (
+    relativePath !== "" &&
+    relativePath !== ".." &&
+    !relativePath.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relativePath)
+  );
+};
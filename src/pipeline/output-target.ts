@@ -0,0 +1,52 @@
+/**
+ * The kind of module written for each schema file.
+ */
+
+import { OutputTarget, RuntimeValueOptions, ToTypesConfig } from "../types";
+import { ConfigError } from "../errors";
+
+/**
+ * The output target of a run, with the runtime values to declare.
+ * Plain data, so it can be sent to a worker thread.
+ */
+export interface OutputTargetOptions {
+  target: OutputTarget;
+  runtimeValues: RuntimeValueOptions;
+}
+
+/**
+ * Resolves the output target and runtime value options of a run.
+ *
+ * @param config - The run configuration
+ * @returns The target, and the runtime values with `true` and `false` expanded
+ * @throws ConfigError if a bundle is combined with a target other than 'd.ts'
+ *
+ * @example
+ * resolveOutputTarget({ target: 'ts', runtimeValues: false })
+ * // => { target: 'ts', runtimeValues: { enums: false, consts: false, schema: false } }
+ */
+export const resolveOutputTarget = ({
+  target = "d.ts",
+  runtimeValues = true,
+  bundle = false,
+}: Pick<
+  ToTypesConfig,
+  "target" | "runtimeValues" | "bundle"
+>): OutputTargetOptions => {
+  if (bundle && target !== "d.ts") {
+    throw new ConfigError({
+      filePath: null,
+      issues: [
+        `"bundle" only supports the "d.ts" target, got target "${target}"`,
+      ],
+    });
+  }
+
+  return {
+    target,
+    runtimeValues:
+      typeof runtimeValues === "boolean"
+        ? { enums: runtimeValues, consts: runtimeValues, schema: runtimeValues }
+        : runtimeValues,
+  };
+};
@@ -0,0 +1,91 @@
+/**
+ * Destinations for generated files.
+ * The pipeline hands every generated file to an `OutputWriter`, which either
+ * writes it to disk or, in check mode, only records it for comparison.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Logger } from "../types";
+import { OutputWriteError } from "../errors";
+import { writeFileIfChanged } from "./incremental";
+
+/**
+ * Interface for receiving generated files.
+ */
+export interface OutputWriter {
+  /**
+   * Emit a generated file.
+   *
+   * @param filePath - Where the file belongs
+   * @param content - The generated content
+   * @returns False if the file on disk already has this exact content
+   */
+  write(filePath: string, content: string): boolean;
+}
+
+/**
+ * Creates a writer that writes files to disk, creating directories as needed.
+ * Files whose content is already identical are not rewritten, so tools
+ * watching the output directory are not triggered needlessly.
+ *
+ * @param logger - Logger for reporting written files
+ * @returns A writer that writes to disk, throwing `OutputWriteError` on failure
+ */
+export const createFileWriter = (logger: Logger): OutputWriter => ({
+  write(filePath, content) {
+    let isWritten: boolean;
+    try {
+      const directory = path.dirname(filePath);
+      if (!fs.existsSync(directory)) {
+        fs.mkdirSync(directory, { recursive: true });
+      }
+      isWritten = writeFileIfChanged(filePath, content);
+    } catch (error) {
+      throw new OutputWriteError({ outputPath: filePath, cause: error });
+    }
+
+    if (!isWritten) {
+      logger.debug(`Unchanged: ${filePath}`);
+      return false;
+    }
+    logger.info(`Generated: ${filePath}`);
+    return true;
+  },
+});
+
+/**
+ * A writer that records files instead of writing them.
+ */
+export interface RecordingWriter extends OutputWriter {
+  /**
+   * Get every recorded file.
+   *
+   * @returns Map of file paths to their generated content
+   */
+  getFiles(): Map<string, string>;
+}
+
+/**
+ * Creates a writer that never touches the disk and only records what would be written.
+ *
+ * @returns A recording writer
+ */
+export const createRecordingWriter = (): RecordingWriter => {
+  const files = new Map<string, string>();
+
+  return {
+    write(filePath, content) {
+      files.set(filePath, content);
+      try {
+        return fs.readFileSync(filePath, "utf-8") !== content;
+      } catch {
+        return true;
+      }
+    },
+
+    getFiles() {
+      return files;
+    },
+  };
+};
@@ -0,0 +1,35 @@
+/**
+ * Access to this package's own metadata.
+ * Lives in the pipeline rather than `utils` because it reads from disk,
+ * and the compilation core must stay free of filesystem access.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * The subset of package.json fields the generator relies on.
+ */
+interface PackageInfo {
+  name: string;
+  version: string;
+}
+
+let cachedPackageInfo: PackageInfo | null = null;
+
+/**
+ * Reads this package's name and version from its package.json.
+ * Works from both `src/` and the compiled `dist/` tree, which sit at the same depth.
+ *
+ * @returns The package name and version
+ */
+export const getPackageInfo = (): PackageInfo => {
+  if (!cachedPackageInfo) {
+    const packageJsonPath = path.join(__dirname, "..", "..", "package.json");
+    const { name, version } = JSON.parse(
+      fs.readFileSync(packageJsonPath, "utf-8"),
+    );
+    cachedPackageInfo = { name, version };
+  }
+  return cachedPackageInfo;
+};
@@ -0,0 +1,557 @@
+/**
+ * Per-file generation pipeline: read a schema file, compile it and write the output.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Diagnostic,
+  GeneratedTypesExportFormat,
+  HeaderOptions,
+  JsonSchema,
+  Logger,
+  OutputTarget,
+  RuntimeValueOptions,
+} from "../types";
+import { compileSchema, ExternalDocument } from "../compilation";
+import { createSchemaStore, toDocumentUri, SchemaStore } from "../resolution";
+import { SchemaError } from "../errors";
+import { OutputWriter } from "./output-writer";
+import { hashContent } from "./incremental";
+import { getDeclarationFilePath, toModuleSpecifier } from "./output-path";
+import { renderHeader } from "./header";
+import { parseSchemaContent, ParseSchemaContentOptions } from "./schema-format";
+import { DiscoveredSchemaFile } from "./discovery";
+import { ResolvedFileOptions } from "./file-options";
+import { collectFileDependencies } from "./dependencies";
+import { LoadedSchema } from "./external-schemas";
+
+/**
+ * Where a schema file is read from and written to, so references to it from
+ * other schema files can be imported from its module.
+ * Plain data, so it can be sent to a worker thread.
+ */
+export interface SchemaModule {
+  /** The input directory the file was found in; empty for loaded schemas */
+  pathToJsonSchemas: string;
+
+  /** The schema, for schemas returned by a loader instead of read from a file */
+  source?: LoadedSchema;
+
+  /** The path of the file's output */
+  outputFilePath: string;
+
+  /** How the file's module exports its types */
+  generatedTypesExportsFormat: GeneratedTypesExportFormat;
+
+  /** Whether the file is read like `.jsonc` when it is a `.json` file */
+  lenientJson?: boolean;
+
+  /** The `$id`s and anchors the file declares, resolved to absolute URIs, and the pointer of each */
+  uris?: Record<string, string>;
+}
+
+/**
+ * Parameters for compiling a single schema file.
+ * Plain data, so they can be sent to a worker thread.
+ */
+export interface CompileSchemaFileParams {
+  relativeSchemaPath: string;
+  pathToJsonSchemas: string;
+  generatedTypesExportsFormat: GeneratedTypesExportFormat;
+  strict?: boolean;
+  lenientJson?: boolean;
+  target?: OutputTarget;
+  runtimeValues?: RuntimeValueOptions;
+
+  /**
+   * The module of every schema file of the run, by relative path. A `$ref` to
+   * another listed file, by path or by one of its `$id`s, is imported from its
+   * module; without an entry for the compiled file itself, references to
+   * other files are left unresolved.
+   */
+  modules?: Record<string, SchemaModule>;
+}
+
+/**
+ * Result of compiling a single schema file, before anything is written.
+ */
+export interface CompiledSchemaFile {
+  /** The parsed schema */
+  schema: JsonSchema;
+
+  /** SHA-256 of the schema file content */
+  sourceHash: string;
+
+  /** The schema files the schema references, relative to the input directory */
+  dependencies: string[];
+
+  /** The module text, or an empty string if the schema produced no types */
+  code: string;
+
+  /** For the 'js' target, the declaration module typing `code` */
+  declarations?: string;
+
+  /** Names of the generated types */
+  types: string[];
+
+  /** Names of the exported types */
+  exportedTypes: string[];
+
+  /** Names of the exported runtime values */
+  exportedValues: string[];
+
+  /** Problems and notices found while compiling */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Parameters for processing a single schema file.
+ */
+export interface ProcessSchemaFileParams extends CompileSchemaFileParams {
+  /** Where the output is written, if the schema produces types */
+  outputFilePath: string;
+  writer: OutputWriter;
+  logger: Logger;
+
+  /** The header written at the top of the output files; none when omitted */
+  header?: HeaderOptions;
+
+  /**
+   * The file compiled elsewhere, e.g. on a worker thread. When omitted, the
+   * file is compiled in-process.
+   */
+  compiled?: Promise<CompiledSchemaFile>;
+}
+
+/**
+ * Result of processing a single schema file.
+ */
+export interface ProcessedSchemaFile {
+  /** The parsed schema */
+  schema: JsonSchema;
+
+  /** The schema files the schema references, relative to the input directory */
+  dependencies: string[];
+
+  /** The path of the output file, or null if the schema produced no types */
+  outputFilePath: string | null;
+
+  /** False if the output file already had identical content and was left untouched */
+  isOutputChanged: boolean;
+
+  /** SHA-256 of the output content, or null if the schema produced no types */
+  outputHash: string | null;
+
+  /** For the 'js' target, the path of the declaration file next to the output file; null otherwise */
+  declarationFilePath: string | null;
+
+  /** SHA-256 of the declaration file content, or null if there is none */
+  declarationHash: string | null;
+
+  /** Names of the generated types */
+  types: string[];
+
+  /** Names of the exported types */
+  exportedTypes: string[];
+
+  /** Names of the exported runtime values */
+  exportedValues: string[];
+
+  /** Problems and notices found while compiling */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Processes a single schema file and generates the output.
+ *
+ * @returns The parsed schema, the path of the output file and the compile results
+ * @throws SchemaError (or a subclass) carrying `relativeSchemaPath` if the file cannot be converted
+ */
+export const processSchemaFile = async (
+  params: ProcessSchemaFileParams,
+): Promise<ProcessedSchemaFile> => {
+  try {
+    return await convertSchemaFile(params);
+  } catch (error) {
+    if (error instanceof SchemaError && !error.schemaPath) {
+      error.schemaPath = params.relativeSchemaPath;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Reads, parses and compiles a single schema file. Does no logging or writing,
+ * so it can run on a worker thread.
+ *
+ * @param params - The file and its generation options
+ * @returns The parsed schema and the compile results
+ * @throws SchemaParseError if the file is not valid in its format
+ */
+export const compileSchemaFile = ({
+  relativeSchemaPath,
+  pathToJsonSchemas,
+  generatedTypesExportsFormat,
+  strict,
+  lenientJson,
+  target,
+  runtimeValues,
+  modules = {},
+}: CompileSchemaFileParams): CompiledSchemaFile => {
+  const module = getSchemaModule(modules, relativeSchemaPath);
+  const { schema, sourceHash } =
+    module?.source ??
+    readSchemaSource(relativeSchemaPath, pathToJsonSchemas, { lenientJson });
+  const store = createModuleStore(modules);
+  const compiled = compileSchema(schema, {
+    generatedTypesExportsFormat,
+    strict,
+    target,
+    runtimeValues,
+    schemaPath: relativeSchemaPath,
+    resolveDocument: module
+      ? (schemaPath) =>
+          readSchemaModule(schemaPath, modules, module.outputFilePath)
+      : undefined,
+    store,
+  });
+  return {
+    schema,
+    sourceHash,
+    dependencies: collectFileDependencies(schema, relativeSchemaPath, store),
+    ...compiled,
+  };
+};
+
+/**
+ * Parameters for listing the modules of a run's schema files.
+ */
+export interface CreateSchemaModulesParams {
+  /** The schema files of the run */
+  schemaFiles: DiscoveredSchemaFile[];
+
+  /** Maps a schema file to its output file */
+  getOutputFilePath: (relativeSchemaPath: string) => string;
+
+  /** Resolves a schema file's generation options */
+  getFileOptions: (relativeSchemaPath: string) => ResolvedFileOptions;
+
+  /** Schema files whose output path is taken by another file, left out */
+  collisions?: Map<string, Error>;
+
+  /** The schemas returned by loaders, by URI; they are listed in `schemaFiles` by their URI too */
+  loadedSchemas?: Map<string, LoadedSchema>;
+}
+
+/**
+ * Lists the module of each schema file, for resolving references between files.
+ *
+ * @param params - The schema files and how their outputs are named
+ * @returns The modules, by relative schema path
+ */
+export const createSchemaModules = ({
+  schemaFiles,
+  getOutputFilePath,
+  getFileOptions,
+  collisions = new Map(),
+  loadedSchemas = new Map(),
+}: CreateSchemaModulesParams): Record<string, SchemaModule> => {
+  const modules: Record<string, SchemaModule> = {};
+  for (const { root, relativePath } of schemaFiles) {
+    if (collisions.has(relativePath)) continue;
+    const { generatedTypesExportsFormat, lenientJson } =
+      getFileOptions(relativePath);
+    const source = loadedSchemas.get(relativePath);
+    modules[relativePath] = {
+      pathToJsonSchemas: root,
+      ...(source && { source }),
+      outputFilePath: getOutputFilePath(relativePath),
+      generatedTypesExportsFormat,
+      lenientJson,
+      uris: source
+        ? getSchemaUris(source.schema, relativePath)
+        : readSchemaUris(relativePath, root, lenientJson),
+    };
+  }
+  return modules;
+};
+
+/**
+ * Indexes the schema files of a run by the URIs they declare through `$id`.
+ *
+ * @param modules - The modules of the run's schema files
+ * @returns The schema path declaring each URI, without its fragment; the first file wins
+ *
+ * @example
+ * getDeclaredUris({ 'user.json': { ...module, uris: { 'https://example.com/user.json': '#' } } })
+ * // => { 'https://example.com/user.json': 'user.json' }
+ */
+export const getDeclaredUris = (
+  modules: Record<string, SchemaModule>,
+): Record<string, string> => {
+  const declaredUris: Record<string, string> = {};
+  for (const [relativeSchemaPath, { uris = {} }] of Object.entries(modules)) {
+    for (const uri of Object.keys(uris)) {
+      const base = uri.split("#")[0];
+      if (!Object.prototype.hasOwnProperty.call(declaredUris, base)) {
+        declaredUris[base] = relativeSchemaPath;
+      }
+    }
+  }
+  return declaredUris;
+};
+
+/**
+ * Reads the `$id`s and anchors a schema file declares, by resolved URI. Files
+ * without `$id`, `$anchor` or `$dynamicAnchor` are not parsed, and files that
+ * cannot be parsed declare none.
+ */
+const readSchemaUris = (
+  relativeSchemaPath: string,
+  pathToJsonSchemas: string,
+  lenientJson?: boolean,
+): Record<string, string> => {
+  try {
+    const content = fs.readFileSync(
+      path.join(pathToJsonSchemas, relativeSchemaPath),
+      "utf-8",
+    );
+    if (!/\$(?:id|anchor|dynamicAnchor)\b/.test(content)) return {};
+    return getSchemaUris(
+      parseSchemaContent(content, relativeSchemaPath, { lenientJson }),
+      relativeSchemaPath,
+    );
+  } catch {
+    // The file fails on its own when it is compiled
+    return {};
+  }
+};
+
+/**
+ * Returns the `$id`s and anchors a schema declares, by resolved URI, other
+ * than the retrieval URI of its path.
+ */
+const getSchemaUris = (
+  schema: JsonSchema,
+  relativeSchemaPath: string,
+): Record<string, string> => {
+  const uris: Record<string, string> = {};
+  const documentUri = toDocumentUri(relativeSchemaPath);
+  const store = createSchemaStore();
+  store.add(schema, documentUri);
+  for (const [uri, { pointer }] of store.getUris()) {
+    if (uri !== documentUri) uris[uri] = pointer;
+  }
+  return uris;
+};
+
+/**
+ * Creates a store knowing the `$id`s and anchors of every listed schema file,
+ * so references by URI resolve to the file declaring it.
+ */
+const createModuleStore = (
+  modules: Record<string, SchemaModule>,
+): SchemaStore => {
+  const store = createSchemaStore();
+  for (const [relativeSchemaPath, { uris = {} }] of Object.entries(modules)) {
+    const documentUri = toDocumentUri(relativeSchemaPath);
+    store.register(documentUri, { documentUri, pointer: "#" });
+    for (const [uri, pointer] of Object.entries(uris)) {
+      store.register(uri, { documentUri, pointer });
+    }
+  }
+  return store;
+};
+
+/**
+ * Returns the module of a schema file, or undefined if it is not listed.
+ */
+const getSchemaModule = (
+  modules: Record<string, SchemaModule>,
+  relativeSchemaPath: string,
+): SchemaModule | undefined =>
+  Object.prototype.hasOwnProperty.call(modules, relativeSchemaPath)
+    ? modules[relativeSchemaPath]
+    : undefined;
+
+/**
+ * Reads a referenced schema file as a document importable from the module
+ * written next to `outputFilePath`, or returns null if it is not a schema file
+ * of the run or cannot be parsed. A file that cannot be parsed fails on its
+ * own, so references to it are only reported as unresolved.
+ */
+const readSchemaModule = (
+  relativeSchemaPath: string,
+  modules: Record<string, SchemaModule>,
+  outputFilePath: string,
+): ExternalDocument | null => {
+  const module = getSchemaModule(modules, relativeSchemaPath);
+  if (!module) return null;
+  try {
+    const { schema } =
+      module.source ??
+      readSchemaSource(relativeSchemaPath, module.pathToJsonSchemas, {
+        lenientJson: module.lenientJson,
+      });
+    return {
+      schema,
+      modulePath: toModuleSpecifier(
+        path.dirname(outputFilePath),
+        module.outputFilePath,
+      ),
+      generatedTypesExportsFormat: module.generatedTypesExportsFormat,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads and parses a single schema file.
+ *
+ * @param relativeSchemaPath - The schema path, relative to the input directory
+ * @param pathToJsonSchemas - The input directory
+ * @param options - The parse options
+ * @returns The parsed schema
+ * @throws SchemaParseError if the file is not valid in its format
+ */
+export const readSchemaFile = (
+  relativeSchemaPath: string,
+  pathToJsonSchemas: string,
+  options: ParseSchemaContentOptions = {},
+): JsonSchema =>
+  readSchemaSource(relativeSchemaPath, pathToJsonSchemas, options).schema;
+
+/**
+ * Reads and parses a single schema file, hashing its content.
+ *
+ * @param relativeSchemaPath - The schema path, relative to the input directory
+ * @param pathToJsonSchemas - The input directory
+ * @param options - The parse options
+ * @returns The parsed schema and the SHA-256 of the file content
+ * @throws SchemaParseError if the file is not valid in its format
+ */
+export const readSchemaSource = (
+  relativeSchemaPath: string,
+  pathToJsonSchemas: string,
+  options: ParseSchemaContentOptions = {},
+): { schema: JsonSchema; sourceHash: string } => {
+  const fullSchemaPath = path.join(pathToJsonSchemas, relativeSchemaPath);
+  const schemaContent = fs.readFileSync(fullSchemaPath, "utf-8");
+
+  return {
+    schema: parseSchemaContent(schemaContent, relativeSchemaPath, options),
+    sourceHash: hashContent(schemaContent),
+  };
+};
+
+/**
+ * Logs the diagnostics of a schema file: notices at debug level, problems as warnings.
+ *
+ * @param relativeSchemaPath - The schema path, used as the message prefix
+ * @param diagnostics - The diagnostics to log
+ * @param logger - The logger
+ */
+export const logDiagnostics = (
+  relativeSchemaPath: string,
+  diagnostics: Diagnostic[],
+  logger: Logger,
+): void => {
+  for (const diagnostic of diagnostics) {
+    const message = `${relativeSchemaPath}: ${diagnostic.message}`;
+    if (diagnostic.severity === "info") {
+      logger.debug(message);
+    } else {
+      logger.warn(message);
+    }
+  }
+};
+
+/**
+ * Compiles a single schema file (unless it was compiled already), then logs
+ * its diagnostics and writes the output.
+ */
+const convertSchemaFile = async ({
+  compiled,
+  outputFilePath,
+  writer,
+  logger,
+  header,
+  ...compileParams
+}: ProcessSchemaFileParams): Promise<ProcessedSchemaFile> => {
+  const { relativeSchemaPath, pathToJsonSchemas } = compileParams;
+  logger.debug(
+    `Processing ${pathToJsonSchemas ? path.join(pathToJsonSchemas, relativeSchemaPath) : relativeSchemaPath}`,
+  );
+
+  const {
+    schema,
+    sourceHash,
+    dependencies,
+    code,
+    declarations,
+    types,
+    exportedTypes,
+    exportedValues,
+    diagnostics,
+  } = compiled ? await compiled : compileSchemaFile(compileParams);
+
+  logDiagnostics(relativeSchemaPath, diagnostics, logger);
+
+  // Generate output file
+  if (!code) {
+    return {
+      schema,
+      dependencies,
+      outputFilePath: null,
+      isOutputChanged: false,
+      outputHash: null,
+      declarationFilePath: null,
+      declarationHash: null,
+      types,
+      exportedTypes,
+      exportedValues,
+      diagnostics,
+    };
+  }
+
+  const headerText = header
+    ? renderHeader(header, [
+        {
+          schemaPath: relativeSchemaPath,
+          id: typeof schema.$id === "string" ? schema.$id : undefined,
+          hash: sourceHash,
+        },
+      ])
+    : "";
+  const content = headerText + code;
+  const declarationContent =
+    declarations === undefined ? null : headerText + declarations;
+
+  let isOutputChanged = writer.write(outputFilePath, content);
+  const declarationFilePath =
+    declarationContent === null ? null : getDeclarationFilePath(outputFilePath);
+  if (declarationFilePath) {
+    // Both files are always written, so neither is left behind the other
+    const isDeclarationChanged = writer.write(
+      declarationFilePath,
+      declarationContent!,
+    );
+    isOutputChanged = isOutputChanged || isDeclarationChanged;
+  }
+  return {
+    schema,
+    dependencies,
+    outputFilePath,
+    isOutputChanged,
+    outputHash: hashContent(content),
+    declarationFilePath,
+    declarationHash:
+      declarationContent === null ? null : hashContent(declarationContent),
+    types,
+    exportedTypes,
+    exportedValues,
+    diagnostics,
+  };
+};
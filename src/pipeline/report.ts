@@ -0,0 +1,166 @@
+/**
+ * Building the structured report returned by `toTypes`.
+ */
+
+import {
+  FileGeneratedEvent,
+  SchemaFileReport,
+  SchemaFileStatus,
+  ToTypesResult,
+  ToTypesEvents,
+  ToTypesTotals,
+} from "../types";
+import { ProcessedSchemaFile } from "./process-schema-file";
+
+/**
+ * Parameters for reporting a successfully processed schema file.
+ */
+export interface CreateProcessedFileReportParams {
+  schemaPath: string;
+  processed: ProcessedSchemaFile;
+  /** True in check mode, where changed outputs are stale rather than generated */
+  check: boolean;
+  durationMs: number;
+}
+
+/**
+ * Builds the report for a schema file that was processed successfully.
+ *
+ * @returns The file report
+ */
+export const createProcessedFileReport = ({
+  schemaPath,
+  processed,
+  check,
+  durationMs,
+}: CreateProcessedFileReportParams): SchemaFileReport => {
+  let status: SchemaFileStatus = "empty";
+  if (processed.outputFilePath) {
+    if (!processed.isOutputChanged) {
+      status = "unchanged";
+    } else {
+      status = check ? "stale" : "generated";
+    }
+  }
+
+  return {
+    schemaPath,
+    outputPath: processed.outputFilePath,
+    ...(processed.declarationFilePath && {
+      declarationPath: processed.declarationFilePath,
+    }),
+    status,
+    types: processed.types,
+    exportedTypes: processed.exportedTypes,
+    exportedValues: processed.exportedValues,
+    diagnostics: processed.diagnostics,
+    durationMs,
+  };
+};
+
+/**
+ * Builds the report for a schema file that failed to convert.
+ *
+ * @param schemaPath - The schema path, relative to the input directory
+ * @param error - The error raised while processing the file
+ * @param durationMs - Time spent on the file
+ * @returns The file report
+ */
+export const createFailedFileReport = (
+  schemaPath: string,
+  error: unknown,
+  durationMs: number,
+): SchemaFileReport => ({
+  schemaPath,
+  outputPath: null,
+  status: "failed",
+  types: [],
+  exportedTypes: [],
+  exportedValues: [],
+  diagnostics: [],
+  error,
+  durationMs,
+});
+
+/**
+ * Emits `fileGenerated` or `fileFailed` for a finished schema file.
+ *
+ * @param events - The configured event handlers, if any
+ * @param event - The file report and its position in the run
+ */
+export const emitFileEvent = (
+  events: ToTypesEvents | undefined,
+  { file, index, total }: FileGeneratedEvent,
+): void => {
+  if (file.status === "failed") {
+    events?.fileFailed?.({ file, error: file.error, index, total });
+  } else {
+    events?.fileGenerated?.({ file, index, total });
+  }
+};
+
+/**
+ * Counts schema files per status, types and diagnostics.
+ *
+ * @param files - The per-file reports
+ * @returns Totals for the run
+ */
+export const summarizeFileReports = (
+  files: SchemaFileReport[],
+): ToTypesTotals => {
+  const byStatus: Record<SchemaFileStatus, number> = {
+    generated: 0,
+    unchanged: 0,
+    cached: 0,
+    stale: 0,
+    empty: 0,
+    failed: 0,
+  };
+  let types = 0;
+  let diagnostics = 0;
+
+  for (const file of files) {
+    byStatus[file.status]++;
+    types += file.types.length;
+    diagnostics += file.diagnostics.length;
+  }
+
+  return { schemaFiles: files.length, byStatus, types, diagnostics };
+};
+
+/**
+ * Builds the result of a run from its per-file reports.
+ *
+ * @param files - The per-file reports, in processing order
+ * @param durationMs - Wall-clock time of the run
+ * @returns The run result, without the check mode comparison
+ */
+export const createToTypesResult = (
+  files: SchemaFileReport[],
+  durationMs: number,
+): ToTypesResult => {
+  // Several schema files share one output path in bundle mode
+  const outputPathsWithStatus = (...statuses: SchemaFileStatus[]): string[] => [
+    ...new Set(
+      files
+        .filter((file) => file.outputPath && statuses.includes(file.status))
+        .flatMap((file) =>
+          file.declarationPath
+            ? [file.outputPath as string, file.declarationPath]
+            : [file.outputPath as string],
+        ),
+    ),
+  ];
+
+  return {
+    files,
+    totals: summarizeFileReports(files),
+    durationMs,
+    generatedFiles: outputPathsWithStatus("generated"),
+    unchangedFiles: outputPathsWithStatus("unchanged", "cached"),
+    deletedFiles: [],
+    failedFiles: files
+      .filter((file) => file.status === "failed")
+      .map(({ schemaPath, error }) => ({ schemaPath, error })),
+  };
+};
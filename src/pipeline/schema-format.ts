@@ -0,0 +1,136 @@
+/**
+ * The formats schema files can be written in, chosen by file extension.
+ */
+
+import * as path from "path";
+import { JsonSchema } from "../types";
+import { SchemaParseError } from "../errors";
+import {
+  Json5SyntaxError,
+  parseJson5,
+  parseYaml,
+  YamlSyntaxError,
+} from "../utils";
+
+/**
+ * A format schema files can be written in.
+ */
+export type SchemaFileFormat = "json" | "jsonc" | "json5" | "yaml";
+
+/**
+ * The format of each schema file extension. Files with other extensions,
+ * picked up through custom `include` patterns, are read as JSON.
+ */
+export const SCHEMA_FILE_EXTENSIONS: Record<string, SchemaFileFormat> = {
+  ".json": "json",
+  ".jsonc": "jsonc",
+  ".json5": "json5",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+};
+
+/**
+ * The name of each format in parse errors.
+ */
+const FORMAT_NAMES: Record<SchemaFileFormat, string> = {
+  json: "JSON",
+  jsonc: "JSONC",
+  json5: "JSON5",
+  yaml: "YAML",
+};
+
+/**
+ * Options for parsing a schema file.
+ */
+export interface ParseSchemaContentOptions {
+  /**
+   * Read `.json` files like `.jsonc`, allowing comments and trailing commas.
+   * @default false
+   */
+  lenientJson?: boolean;
+}
+
+/**
+ * Returns the format of a schema file from its extension.
+ *
+ * @param schemaPath - Path of the schema file
+ * @param options - The parse options
+ * @returns The format, 'json' (or 'jsonc' with `lenientJson`) for unknown extensions
+ *
+ * @example
+ * getSchemaFileFormat('api/user.schema.yml') // => 'yaml'
+ * getSchemaFileFormat('api/user.json', { lenientJson: true }) // => 'jsonc'
+ */
+export const getSchemaFileFormat = (
+  schemaPath: string,
+  { lenientJson = false }: ParseSchemaContentOptions = {},
+): SchemaFileFormat => {
+  const format =
+    SCHEMA_FILE_EXTENSIONS[path.extname(schemaPath).toLowerCase()] ?? "json";
+  return format === "json" && lenientJson ? "jsonc" : format;
+};
+
+/**
+ * Removes a schema file extension from a file name.
+ *
+ * @param fileName - The file name
+ * @returns The file name without its extension, or unchanged if it has no schema file extension
+ *
+ * @example
+ * stripSchemaFileExtension('user.schema.yaml') // => 'user.schema'
+ */
+export const stripSchemaFileExtension = (fileName: string): string => {
+  const extension = path.extname(fileName);
+  return Object.prototype.hasOwnProperty.call(
+    SCHEMA_FILE_EXTENSIONS,
+    extension.toLowerCase(),
+  )
+    ? fileName.slice(0, -extension.length)
+    : fileName;
+};
+
+/**
+ * Parses the content of a schema file in the format of its extension.
+ *
+ * @param content - The file content
+ * @param relativeSchemaPath - The schema path, deciding the format and used in errors
+ * @param options - The parse options
+ * @returns The parsed schema
+ * @throws SchemaParseError with the line and column if the content is not valid in its format
+ */
+export const parseSchemaContent = (
+  content: string,
+  relativeSchemaPath: string,
+  options: ParseSchemaContentOptions = {},
+): JsonSchema => {
+  const format = getSchemaFileFormat(relativeSchemaPath, options);
+  if (format === "json") {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw SchemaParseError.fromJsonSyntaxError(
+        error,
+        content,
+        relativeSchemaPath,
+      );
+    }
+  }
+
+  try {
+    return (
+      format === "yaml" ? parseYaml(content) : parseJson5(content, format)
+    ) as JsonSchema;
+  } catch (error) {
+    if (
+      !(error instanceof YamlSyntaxError || error instanceof Json5SyntaxError)
+    ) {
+      throw error;
+    }
+    throw SchemaParseError.fromLocatedSyntaxError(
+      error,
+      content,
+      FORMAT_NAMES[format],
+      relativeSchemaPath,
+    );
+  }
+};
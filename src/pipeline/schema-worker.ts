@@ -0,0 +1,31 @@
+/**
+ * Worker thread entry point: compiles the schema files sent by a `CompilerPool`.
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import {
+  compileSchemaFile,
+  CompileSchemaFileParams,
+} from "./process-schema-file";
+import { WorkerRequest, WorkerResponse, serializeError } from "./worker-pool";
+
+const sharedParams: Partial<CompileSchemaFileParams> = workerData ?? {};
+
+parentPort?.on("message", ({ id, params }: WorkerRequest) => {
+  let response: WorkerResponse;
+  try {
+    response = {
+      id,
+      result: compileSchemaFile({ ...sharedParams, ...params }),
+    };
+  } catch (error) {
+    response = {
+      id,
+      error:
+        error instanceof Error
+          ? serializeError(error)
+          : { isError: false, value: error },
+    };
+  }
+  parentPort!.postMessage(response);
+});
@@ -0,0 +1,331 @@
+/**
+ * A pool of worker threads compiling schema files in parallel.
+ *
+ * Workers only read, parse and compile; results are sent back to the main
+ * thread, which logs and writes them in discovery order so the output does not
+ * depend on which worker finishes first.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { Logger } from "../types";
+import {
+  ConfigError,
+  OutputPathCollisionError,
+  OutputWriteError,
+  SchemaError,
+  SchemaLoadError,
+  SchemaParseError,
+  UnresolvedReferenceError,
+  UnsupportedKeywordError,
+} from "../errors";
+import {
+  CompileSchemaFileParams,
+  CompiledSchemaFile,
+} from "./process-schema-file";
+
+/**
+ * Path of the worker entry point, next to this module in the build output.
+ */
+export const SCHEMA_WORKER_PATH = path.join(__dirname, "schema-worker.js");
+
+/**
+ * Fewest schema files worth handing to a worker. Starting a worker takes a
+ * few dozen milliseconds, so smaller runs are faster in-process.
+ */
+export const MIN_FILES_PER_WORKER = 10;
+
+/**
+ * An error flattened so it can cross a thread boundary without losing its
+ * class or properties.
+ */
+export interface SerializedError {
+  isError: true;
+  name: string;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * A task sent to a worker.
+ */
+export interface WorkerRequest {
+  id: number;
+  params: CompileSchemaFileParams;
+}
+
+/**
+ * A worker's answer to a task: the compiled file or the error it raised.
+ */
+export type WorkerResponse =
+  | { id: number; result: CompiledSchemaFile }
+  | { id: number; error: SerializedError | { isError: false; value: unknown } };
+
+/**
+ * Error classes restored with their prototype, so `instanceof` keeps working.
+ */
+const ERROR_CLASSES: Record<string, { prototype: Error }> = {
+  Error,
+  SyntaxError,
+  TypeError,
+  RangeError,
+  ConfigError,
+  SchemaError,
+  SchemaParseError,
+  UnresolvedReferenceError,
+  SchemaLoadError,
+  UnsupportedKeywordError,
+  OutputWriteError,
+  OutputPathCollisionError,
+};
+
+const isSerializedError = (value: unknown): value is SerializedError =>
+  !!value && typeof value === "object" && (value as SerializedError).isError;
+
+/**
+ * Flattens an error, including nested `cause` errors, into plain data.
+ *
+ * @param error - The error to serialize
+ * @returns The serialized error
+ */
+export const serializeError = (error: Error): SerializedError => {
+  const properties: Record<string, unknown> = {};
+  for (const key of Object.getOwnPropertyNames(error)) {
+    const value = (error as unknown as Record<string, unknown>)[key];
+    properties[key] = value instanceof Error ? serializeError(value) : value;
+  }
+  return { isError: true, name: error.name, properties };
+};
+
+/**
+ * Restores an error flattened by `serializeError`. Unknown classes become a
+ * plain `Error` with the same properties.
+ *
+ * @param serialized - The serialized error
+ * @returns An error with the original class, message, stack and properties
+ */
+export const deserializeError = (serialized: SerializedError): Error => {
+  const ErrorClass = Object.prototype.hasOwnProperty.call(
+    ERROR_CLASSES,
+    serialized.name,
+  )
+    ? ERROR_CLASSES[serialized.name]
+    : Error;
+  const error = Object.create(ErrorClass.prototype) as Error;
+  for (const [key, value] of Object.entries(serialized.properties)) {
+    Object.defineProperty(error, key, {
+      value: isSerializedError(value) ? deserializeError(value) : value,
+      writable: true,
+      configurable: true,
+      enumerable: key !== "message" && key !== "stack",
+    });
+  }
+  return error;
+};
+
+/**
+ * Parameters for creating a compiler pool.
+ */
+export interface CreateCompilerPoolParams {
+  /** Number of worker threads */
+  size: number;
+
+  /** The worker entry point (defaults to `SCHEMA_WORKER_PATH`) */
+  workerPath?: string;
+
+  /**
+   * Parameters shared by every file, sent to each worker once instead of with
+   * every file (e.g. the `modules` of the run)
+   */
+  sharedParams?: Partial<CompileSchemaFileParams>;
+}
+
+/**
+ * Interface for compiling schema files on worker threads.
+ */
+export interface CompilerPool {
+  /**
+   * Queue a schema file for compilation.
+   *
+   * @param params - The file and its generation options
+   * @returns The compiled file, or a rejection with the error the worker raised
+   */
+  compile(params: CompileSchemaFileParams): Promise<CompiledSchemaFile>;
+
+  /**
+   * Stop every worker. Files that are still queued are rejected.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Creates a pool of worker threads that compile schema files.
+ * A worker that crashes or exits fails its current file and is replaced; if a
+ * worker fails to start, every queued file is rejected with that error.
+ *
+ * @param params - The pool size and worker entry point
+ * @returns The pool
+ */
+export const createCompilerPool = ({
+  size,
+  workerPath = SCHEMA_WORKER_PATH,
+  sharedParams = {},
+}: CreateCompilerPoolParams): CompilerPool => {
+  interface Task {
+    request: WorkerRequest;
+    resolve: (result: CompiledSchemaFile) => void;
+    reject: (error: unknown) => void;
+  }
+
+  const workers = new Set<Worker>();
+  const idleWorkers: Worker[] = [];
+  const runningTasks = new Map<Worker, Task>();
+  const queue: Task[] = [];
+  let nextId = 0;
+  let startupError: unknown = null;
+  let isClosed = false;
+
+  const dispatch = () => {
+    while (idleWorkers.length > 0 && queue.length > 0) {
+      const worker = idleWorkers.pop()!;
+      const task = queue.shift()!;
+      runningTasks.set(worker, task);
+      worker.postMessage(task.request);
+    }
+  };
+
+  const rejectQueued = (error: unknown) => {
+    for (const task of queue.splice(0)) {
+      task.reject(error);
+    }
+  };
+
+  const removeWorker = (worker: Worker) => {
+    workers.delete(worker);
+    const idleIndex = idleWorkers.indexOf(worker);
+    if (idleIndex !== -1) idleWorkers.splice(idleIndex, 1);
+  };
+
+  const spawn = () => {
+    const worker = new Worker(workerPath, { workerData: sharedParams });
+    workers.add(worker);
+    idleWorkers.push(worker);
+
+    worker.on("message", (response: WorkerResponse) => {
+      const task = runningTasks.get(worker);
+      runningTasks.delete(worker);
+      idleWorkers.push(worker);
+      if (task) {
+        if ("result" in response) {
+          task.resolve(response.result);
+        } else {
+          task.reject(
+            response.error.isError
+              ? deserializeError(response.error)
+              : response.error.value,
+          );
+        }
+      }
+      dispatch();
+    });
+
+    worker.on("error", (error) => fail(worker, error));
+
+    // A worker stopped without an error (e.g. `process.exit()`) would
+    // otherwise leave its file pending forever
+    worker.on("exit", (exitCode) => {
+      if (!workers.has(worker)) return;
+      fail(worker, new Error(`Worker stopped with exit code ${exitCode}`));
+    });
+  };
+
+  const fail = (worker: Worker, error: unknown) => {
+    const task = runningTasks.get(worker);
+    runningTasks.delete(worker);
+    removeWorker(worker);
+    if (isClosed) return;
+
+    if (task) {
+      task.reject(error);
+      spawn();
+      dispatch();
+    } else {
+      // The worker failed before doing any work: others would fail too
+      startupError = error;
+      rejectQueued(error);
+    }
+  };
+
+  for (let index = 0; index < size; index++) {
+    spawn();
+  }
+
+  return {
+    compile(params) {
+      return new Promise((resolve, reject) => {
+        if (isClosed || startupError) {
+          reject(startupError ?? new Error("The compiler pool is closed"));
+          return;
+        }
+        queue.push({ request: { id: nextId++, params }, resolve, reject });
+        dispatch();
+      });
+    },
+
+    async close() {
+      isClosed = true;
+      rejectQueued(new Error("The compiler pool is closed"));
+      await Promise.all([...workers].map((worker) => worker.terminate()));
+      workers.clear();
+    },
+  };
+};
+
+/**
+ * Parameters for starting a compiler pool for a run.
+ */
+export interface StartCompilerPoolParams {
+  /** The requested number of worker threads */
+  concurrency: number;
+
+  /** Number of schema files that need compiling */
+  fileCount: number;
+
+  /** Parameters shared by every file, see `CreateCompilerPoolParams.sharedParams` */
+  sharedParams?: Partial<CompileSchemaFileParams>;
+
+  logger: Logger;
+}
+
+/**
+ * Starts a compiler pool sized for a run, or returns null when the run is
+ * better done in-process: too few files per worker, a concurrency of 1, or
+ * no compiled worker entry point (e.g. when running from sources).
+ *
+ * @param params - The requested concurrency and the run size
+ * @returns The pool, or null to compile in-process
+ */
+export const startCompilerPool = ({
+  concurrency,
+  fileCount,
+  sharedParams,
+  logger,
+}: StartCompilerPoolParams): CompilerPool | null => {
+  const size = Math.min(
+    Math.floor(concurrency),
+    Math.floor(fileCount / MIN_FILES_PER_WORKER),
+  );
+  if (size < 2) return null;
+
+  if (!fs.existsSync(SCHEMA_WORKER_PATH)) {
+    logger.debug(
+      `Worker entry point not found at ${SCHEMA_WORKER_PATH}, compiling in-process`,
+    );
+    return null;
+  }
+
+  logger.debug(
+    `Compiling ${fileCount} schema file(s) on ${size} worker threads`,
+  );
+  return createCompilerPool({ size, sharedParams });
+};
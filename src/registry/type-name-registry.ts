@@ -3,6 +3,8 @@
  * Ensures that generated type names don't conflict by appending numeric suffixes when needed.
  */
 
+import { normalizePointer } from "../resolution/json-pointer";
+
 /**
  * Interface for the type name registry.
  * Provides methods for registering, looking up, and managing type names.
@@ -61,6 +63,8 @@ interface RegistryEntry {
 
 /**
  * Creates a new TypeNameRegistry instance.
+ * Pointers are keyed by their canonical form, so `#/definitions/has space`
+ * and `#/definitions/has%20space` name the same type.
  *
  * @returns A new registry for managing type names
  *
@@ -89,22 +93,24 @@ export const createTypeNameRegistry = (): TypeNameRegistry => {
 
   return {
     register(pointer, name) {
+      const key = normalizePointer(pointer);
+
       // Return existing registration if already registered
-      if (jsonPointerToEntryMap.has(pointer)) {
-        return jsonPointerToEntryMap.get(pointer)!.name;
+      if (jsonPointerToEntryMap.has(key)) {
+        return jsonPointerToEntryMap.get(key)!.name;
       }
 
       const uniqueName = getUniqueTypeName(name);
-      jsonPointerToEntryMap.set(pointer, { name: uniqueName, baseName: name });
+      jsonPointerToEntryMap.set(key, { name: uniqueName, baseName: name });
       return uniqueName;
     },
 
     get(pointer) {
-      return jsonPointerToEntryMap.get(pointer)?.name;
+      return jsonPointerToEntryMap.get(normalizePointer(pointer))?.name;
     },
 
     getBaseName(pointer) {
-      return jsonPointerToEntryMap.get(pointer)?.baseName;
+      return jsonPointerToEntryMap.get(normalizePointer(pointer))?.baseName;
     },
 
     getAll() {
@@ -116,7 +122,7 @@ export const createTypeNameRegistry = (): TypeNameRegistry => {
     },
 
     delete(pointer) {
-      jsonPointerToEntryMap.delete(pointer);
+      jsonPointerToEntryMap.delete(normalizePointer(pointer));
     },
   };
 };
@@ -0,0 +1,92 @@
+/**
+ * The anchors (`$anchor`, `$dynamicAnchor`) a reference can name instead of a
+ * pointer, resolved to the pointer of the schema declaring them.
+ */
+
+import { JsonSchema } from "../types";
+import { parsePointer } from "./json-pointer";
+import { forEachSubschema } from "./subschemas";
+
+/**
+ * Anchor indexes by root schema, since the generator resolves references
+ * against the same root many times.
+ */
+const anchorIndexes = new WeakMap<JsonSchema, Map<string, string>>();
+
+/**
+ * Returns the plain-name anchors a schema declares: its `$anchor`, its
+ * `$dynamicAnchor` and, as in Draft-07, an `$id` of the form `#name`.
+ *
+ * @param schema - The schema
+ * @returns The anchor names, without `#`
+ *
+ * @example
+ * getSchemaAnchors({ $anchor: 'address', $dynamicAnchor: 'node' }) // => ['address', 'node']
+ */
+export const getSchemaAnchors = (schema: JsonSchema): string[] => {
+  const anchors: string[] = [];
+  if (typeof schema.$anchor === "string") anchors.push(schema.$anchor);
+  if (typeof schema.$dynamicAnchor === "string") {
+    anchors.push(schema.$dynamicAnchor);
+  }
+  if (typeof schema.$id === "string" && /^#[^/]/.test(schema.$id)) {
+    anchors.push(schema.$id.slice(1));
+  }
+  return anchors;
+};
+
+/**
+ * Indexes the anchors declared anywhere in a schema by name. When a name is
+ * declared twice, the first declaration in document order wins.
+ *
+ * @param schema - The root schema
+ * @returns The pointer of the schema declaring each anchor
+ *
+ * @example
+ * indexAnchors({ $defs: { node: { $dynamicAnchor: 'node' } } }) // => Map { 'node' => '#/$defs/node' }
+ */
+export const indexAnchors = (schema: JsonSchema): Map<string, string> => {
+  const cached = anchorIndexes.get(schema);
+  if (cached) return cached;
+
+  const anchors = new Map<string, string>();
+  forEachSubschema(schema, (subschema, pointer) => {
+    for (const anchor of getSchemaAnchors(subschema)) {
+      if (!anchors.has(anchor)) anchors.set(anchor, pointer);
+    }
+  });
+  anchorIndexes.set(schema, anchors);
+  return anchors;
+};
+
+/**
+ * Resolves a reference to an anchor of the root schema (`#name`) to the
+ * pointer of the schema declaring it. Other references, and anchors the
+ * schema does not declare, are returned unchanged.
+ *
+ * @param ref - The reference
+ * @param rootSchema - The document the reference is made in
+ * @returns The pointer, or `ref`
+ *
+ * @example
+ * resolveAnchorReference('#node', { $defs: { node: { $anchor: 'node' } } }) // => '#/$defs/node'
+ * resolveAnchorReference('#/$defs/node', schema) // => '#/$defs/node'
+ */
+export const resolveAnchorReference = (
+  ref: string,
+  rootSchema: JsonSchema,
+): string => {
+  if (!ref.startsWith("#") || parsePointer(ref) !== null) return ref;
+  return indexAnchors(rootSchema).get(decodeAnchor(ref.slice(1))) ?? ref;
+};
+
+/**
+ * Decodes the percent-encoding of an anchor fragment.
+ */
+const decodeAnchor = (fragment: string): string => {
+  try {
+    return decodeURIComponent(fragment);
+  } catch {
+    return fragment;
+  }
+};
@@ -1,10 +1,36 @@
 /**
- * JSON Pointer resolution utilities.
+ * JSON Pointer and URI resolution utilities.
  */
 
+export {
+  appendPointer,
+  compilePointer,
+  escapePointerToken,
+  getLastReferenceToken,
+  getPointerValue,
+  normalizePointer,
+  parsePointer,
+  unescapePointerToken,
+} from "./json-pointer";
+export {
+  getSchemaAnchors,
+  indexAnchors,
+  resolveAnchorReference,
+} from "./anchors";
+export { forEachSubschema } from "./subschemas";
 export {
   resolvePointer,
   resolveRef,
   ResolvePointerParams,
   ResolveRefParams,
 } from "./pointer-resolver";
+export {
+  createSchemaStore,
+  getSchemaFileUri,
+  getSchemaFilePath,
+  toDocumentUri,
+  resolveUri,
+  SCHEMA_FILE_BASE_URI,
+  SchemaStore,
+  SchemaLocation,
+} from "./schema-store";
@@ -0,0 +1,179 @@
+/**
+ * JSON Pointers (RFC 6901) in their URI fragment form, as `$ref`s use them.
+ *
+ * Pointers built here are canonical: each reference token is escaped (`~` as
+ * `~0`, `/` as `~1`) and then percent-encoded where a URI fragment requires it,
+ * so `#/definitions/has space` and `#/definitions/has%20space` both become
+ * `#/definitions/has%20space`. Registries and stores key locations by this
+ * form, so a location matches however a `$ref` spelled it.
+ */
+
+/**
+ * Matches a reference token naming an array element.
+ */
+const ARRAY_INDEX_PATTERN = /^(?:0|[1-9]\d*)$/;
+
+/**
+ * Escapes a reference token, `~` as `~0` and `/` as `~1`.
+ *
+ * @param token - The unescaped token (e.g. a property name)
+ * @returns The escaped token
+ *
+ * @example
+ * escapePointerToken('a/b~c') // => 'a~1b~0c'
+ */
+export const escapePointerToken = (token: string): string =>
+  token.replace(/~/g, "~0").replace(/\//g, "~1");
+
+/**
+ * Reverses `escapePointerToken`.
+ *
+ * @param token - The escaped token
+ * @returns The unescaped token
+ *
+ * @example
+ * unescapePointerToken('a~1b~0c') // => 'a/b~c'
+ */
+export const unescapePointerToken = (token: string): string =>
+  token.replace(/~1/g, "/").replace(/~0/g, "~");
+
+/**
+ * Splits a pointer in URI fragment form into its unescaped reference tokens.
+ *
+ * @param pointer - The pointer, starting with `#`
+ * @returns The tokens (none for `#`), or null if it is not a JSON Pointer (e.g. an anchor like `#user`)
+ *
+ * @example
+ * parsePointer('#/properties/a~1b/has%20space') // => ['properties', 'a/b', 'has space']
+ * parsePointer('#') // => []
+ */
+export const parsePointer = (pointer: string): string[] | null => {
+  if (!pointer.startsWith("#")) return null;
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pointer.slice(1));
+  } catch {
+    return null;
+  }
+  if (decoded === "") return [];
+  if (!decoded.startsWith("/")) return null;
+  return decoded.slice(1).split("/").map(unescapePointerToken);
+};
+
+/**
+ * Builds a canonical pointer from unescaped reference tokens.
+ *
+ * @param tokens - The tokens, e.g. property names and array indexes
+ * @returns The pointer in URI fragment form
+ *
+ * @example
+ * compilePointer(['properties', 'a/b', 'has space']) // => '#/properties/a~1b/has%20space'
+ */
+export const compilePointer = (tokens: Array<string | number>): string =>
+  appendPointer("#", ...tokens);
+
+/**
+ * Appends reference tokens to a canonical pointer.
+ *
+ * @param pointer - The pointer to extend
+ * @param tokens - The unescaped tokens to append
+ * @returns The extended pointer
+ *
+ * @example
+ * appendPointer('#/definitions', 'User', 'properties', 'e-mail') // => '#/definitions/User/properties/e-mail'
+ */
+export const appendPointer = (
+  pointer: string,
+  ...tokens: Array<string | number>
+): string =>
+  tokens.reduce<string>(
+    (result, token) =>
+      `${result}/${encodeFragment(escapePointerToken(String(token)))}`,
+    pointer,
+  );
+
+/**
+ * Returns the canonical form of a pointer. Values that are not pointers, such
+ * as anchors or keys of imported types, are returned unchanged.
+ *
+ * @param pointer - The pointer, as written in a `$ref`
+ * @returns The canonical pointer
+ *
+ * @example
+ * normalizePointer('#/definitions/has space') // => '#/definitions/has%20space'
+ * normalizePointer('common/address.json#/definitions/Address') // => unchanged
+ */
+export const normalizePointer = (pointer: string): string => {
+  const tokens = parsePointer(pointer);
+  return tokens ? compilePointer(tokens) : pointer;
+};
+
+/**
+ * Returns the last segment of a `$ref`, which type names are derived from:
+ * the unescaped last token of its pointer, its anchor name, or else the last
+ * segment of its path.
+ *
+ * @param ref - The reference
+ * @returns The segment
+ *
+ * @example
+ * getLastReferenceToken('#/definitions/a~1b') // => 'a/b'
+ * getLastReferenceToken('tree.json#node') // => 'node'
+ * getLastReferenceToken('./common/address.json') // => 'address.json'
+ */
+export const getLastReferenceToken = (ref: string): string => {
+  const hashIndex = ref.indexOf("#");
+  const fragment = hashIndex === -1 ? "" : ref.slice(hashIndex);
+  const tokens = fragment ? parsePointer(fragment) : null;
+  if (tokens && tokens.length > 0) return tokens[tokens.length - 1];
+  // An anchor, such as `#node`
+  if (!tokens && fragment.length > 1) return fragment.slice(1);
+  const parts = ref.split("/");
+  return parts[parts.length - 1];
+};
+
+/**
+ * Returns the value a pointer names within a document, or undefined. Only own
+ * properties are followed, and array elements only by their index.
+ *
+ * @param root - The document
+ * @param pointer - The pointer, in URI fragment form
+ * @returns The value
+ *
+ * @example
+ * getPointerValue({ items: [{ type: 'string' }] }, '#/items/0') // => { type: 'string' }
+ * getPointerValue({}, '#/constructor') // => undefined
+ */
+export const getPointerValue = (root: unknown, pointer: string): unknown => {
+  const tokens = parsePointer(pointer);
+  if (!tokens) return undefined;
+
+  let current = root;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      if (!ARRAY_INDEX_PATTERN.test(token)) return undefined;
+      current = current[Number(token)];
+    } else if (
+      current !== null &&
+      typeof current === "object" &&
+      Object.prototype.hasOwnProperty.call(current, token)
+    ) {
+      current = (current as Record<string, unknown>)[token];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+};
+
+/**
+ * Percent-encodes the characters a URI fragment cannot contain.
+ */
+const encodeFragment = (token: string): string => {
+  try {
+    return encodeURI(token).replace(/#/g, "%23");
+  } catch {
+    // Lone surrogates cannot be encoded
+    return token;
+  }
+};
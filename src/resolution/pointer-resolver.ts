@@ -4,6 +4,8 @@
  */
 
 import { JsonSchema } from "../types";
+import { resolveAnchorReference } from "./anchors";
+import { getPointerValue } from "./json-pointer";
 
 /**
  * Parameters for resolving a JSON Pointer.
@@ -17,6 +19,8 @@ export interface ResolvePointerParams {
 
 /**
  * Resolves a JSON Pointer to a schema fragment within a root schema.
+ * Reference tokens are unescaped and percent-decoded, and only own
+ * properties are followed.
  *
  * @param params - The resolution parameters
  * @returns The resolved schema fragment, or null if not found
@@ -31,21 +35,8 @@ export const resolvePointer = ({
   root,
   pointer,
 }: ResolvePointerParams): JsonSchema | null => {
-  if (pointer === "#") return root;
-
-  // Remove #/ prefix and split into path segments
-  const pathParts = pointer.replace(/^#\//, "").split("/");
-  let current: unknown = root;
-
-  for (const part of pathParts) {
-    if (current && typeof current === "object" && part in current) {
-      current = (current as Record<string, unknown>)[part];
-    } else {
-      return null;
-    }
-  }
-
-  return current as JsonSchema;
+  const value = getPointerValue(root, pointer);
+  return value === undefined ? null : (value as JsonSchema);
 };
 
 /**
@@ -60,7 +51,8 @@ export interface ResolveRefParams {
 
 /**
  * Resolves a $ref string to its target schema object.
- * Supports #/definitions/, #/$defs/, and arbitrary JSON Pointer paths.
+ * Supports any JSON Pointer into the document, such as #/definitions/User or
+ * #/$defs/User, and anchors the document declares, such as #user.
  *
  * @param params - The resolution parameters
  * @returns The resolved schema object, or an empty object if not found
@@ -75,21 +67,7 @@ export const resolveRef = ({
   ref,
   rootSchema,
 }: ResolveRefParams): JsonSchema => {
-  // Handle #/definitions/ shorthand
-  if (ref.startsWith("#/definitions/")) {
-    return rootSchema.definitions?.[ref.replace("#/definitions/", "")] || {};
-  }
-
-  // Handle #/$defs/ shorthand
-  if (ref.startsWith("#/$defs/")) {
-    return rootSchema.$defs?.[ref.replace("#/$defs/", "")] || {};
-  }
-
-  // Handle arbitrary JSON Pointer paths
-  if (ref.startsWith("#/")) {
-    const result = resolvePointer({ root: rootSchema, pointer: ref });
-    return result || {};
-  }
-
-  return {};
+  const pointer = resolveAnchorReference(ref, rootSchema);
+  if (!pointer.startsWith("#")) return {};
+  return resolvePointer({ root: rootSchema, pointer }) || {};
 };
@@ -0,0 +1,294 @@
+/**
+ * An index of schema documents by URI, for resolving `$ref`s that name a
+ * schema by its `$id` instead of by file path.
+ *
+ * Every document is addressable by its retrieval URI (for schema files, a
+ * `schema-file:` URI built from the path), by its `$id`, by the `$id` of any
+ * subschema it embeds, and by its anchors (`$anchor` and `$dynamicAnchor`,
+ * as `#name` of the nearest `$id`). References are resolved against the nearest base
+ * URI, as RFC 3986 describes. Nothing is fetched: a URI only resolves if a
+ * document declaring it was added.
+ */
+
+import { JsonSchema } from "../types";
+import { getSchemaAnchors } from "./anchors";
+import { normalizePointer } from "./json-pointer";
+import { forEachSubschema } from "./subschemas";
+
+/**
+ * Base of the retrieval URIs of schema files, which are named by their path
+ * relative to the schema directory (`schema-file:///api/user.json`).
+ */
+export const SCHEMA_FILE_BASE_URI = "schema-file:///";
+
+/**
+ * Matches strings that start with a URI scheme (e.g. `https:`, `urn:`).
+ */
+const URI_SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * Where a schema is: the document it belongs to and its pointer within it.
+ */
+export interface SchemaLocation {
+  /** Retrieval URI of the document */
+  documentUri: string;
+
+  /** JSON pointer of the schema within the document, in canonical form (see `normalizePointer`) */
+  pointer: string;
+}
+
+/**
+ * An index of schema documents and the URIs they declare.
+ */
+export interface SchemaStore {
+  /**
+   * Adds a document, indexing it by its retrieval URI, its `$id` and the
+   * `$id` of every embedded subschema. The first document declaring a URI
+   * keeps it.
+   *
+   * @param schema - The document
+   * @param retrievalUri - Where the document was read from; defaults to its `$id`
+   * @returns The canonical URI of the document: its `$id` resolved against the retrieval URI
+   * @throws Error if neither a retrieval URI nor an absolute `$id` names the document
+   */
+  add(schema: JsonSchema, retrievalUri?: string): string;
+
+  /**
+   * Indexes a URI without adding the document declaring it, e.g. when only
+   * the `$id`s of a document are known.
+   *
+   * @param uri - The absolute URI, without fragment
+   * @param location - The schema it names
+   */
+  register(uri: string, location: SchemaLocation): void;
+
+  /**
+   * Returns a document added under a retrieval URI.
+   *
+   * @param documentUri - The retrieval URI
+   * @returns The document, or undefined if it was not added
+   */
+  getDocument(documentUri: string): JsonSchema | undefined;
+
+  /**
+   * Returns the base URI references at a location are resolved against: the
+   * `$id` of the nearest enclosing schema declaring one, or the document's
+   * retrieval URI.
+   *
+   * @param location - The location
+   * @returns The absolute base URI
+   */
+  getBaseUri(location: SchemaLocation): string;
+
+  /**
+   * Resolves a `$ref` made at a location. A reference that does not resolve
+   * against the base URI is retried against the document's retrieval URI, so
+   * file-relative references keep working in documents with an `$id`.
+   *
+   * @param ref - The `$ref` value
+   * @param from - Where the reference is made
+   * @returns The location the reference points at, or null if no added
+   *   document declares its URI (schema files resolve by path even then)
+   */
+  resolve(ref: string, from: SchemaLocation): SchemaLocation | null;
+
+  /**
+   * Returns every indexed URI and the schema it names.
+   */
+  getUris(): Map<string, SchemaLocation>;
+}
+
+/**
+ * Creates an empty schema store.
+ *
+ * @returns The store
+ *
+ * @example
+ * const store = createSchemaStore();
+ * store.add({ $id: 'https://example.com/address.json', title: 'Address' });
+ * store.add({ title: 'User' }, getSchemaFileUri('api/user.json'));
+ * store.resolve('https://example.com/address.json#/properties/street', {
+ *   documentUri: getSchemaFileUri('api/user.json'),
+ *   pointer: '#',
+ * });
+ * // => { documentUri: 'https://example.com/address.json', pointer: '#/properties/street' }
+ */
+export const createSchemaStore = (): SchemaStore => {
+  const documents = new Map<string, JsonSchema>();
+  const uris = new Map<string, SchemaLocation>();
+  /** Base URIs of the subschemas declaring an `$id`, by document and pointer */
+  const bases = new Map<string, Map<string, string>>();
+
+  const register = (uri: string, location: SchemaLocation): void => {
+    if (!uris.has(uri)) uris.set(uri, location);
+  };
+
+  const getBaseUri = ({ documentUri, pointer }: SchemaLocation): string => {
+    const documentBases = bases.get(documentUri);
+    const segments = normalizePointer(pointer).split("/");
+    for (let length = segments.length; length > 0; length--) {
+      const base = documentBases?.get(segments.slice(0, length).join("/"));
+      if (base) return base;
+    }
+    return documentUri;
+  };
+
+  /**
+   * Finds the location a resolved URI names, or null.
+   */
+  const find = (uri: string): SchemaLocation | null => {
+    const hashIndex = uri.indexOf("#");
+    const base = hashIndex === -1 ? uri : uri.slice(0, hashIndex);
+    const fragment = hashIndex === -1 ? "" : uri.slice(hashIndex + 1);
+    if (fragment && !fragment.startsWith("/")) return uris.get(uri) ?? null;
+
+    const location =
+      uris.get(base) ??
+      (base.startsWith(SCHEMA_FILE_BASE_URI)
+        ? { documentUri: base, pointer: "#" }
+        : null);
+    if (!location) return null;
+    return {
+      documentUri: location.documentUri,
+      pointer: location.pointer + normalizePointer(`#${fragment}`).slice(1),
+    };
+  };
+
+  return {
+    add(schema, retrievalUri) {
+      const ownId = getId(schema);
+      const documentUri =
+        retrievalUri ?? (ownId !== null ? resolveUri(ownId, "") : null);
+      if (documentUri === null) {
+        throw new Error(
+          "A schema added without a retrieval URI needs an absolute $id",
+        );
+      }
+
+      documents.set(documentUri, schema);
+      const documentBases = new Map<string, string>();
+      bases.set(documentUri, documentBases);
+      register(documentUri, { documentUri, pointer: "#" });
+
+      forEachSubschema(schema, (subschema, pointer) => {
+        const id = getId(subschema);
+        const uri =
+          id === null
+            ? null
+            : resolveUri(
+                id,
+                getBaseUri({
+                  documentUri,
+                  pointer: pointer.slice(0, pointer.lastIndexOf("/")) || "#",
+                }),
+              );
+        if (uri !== null) {
+          documentBases.set(pointer, uri);
+          register(uri, { documentUri, pointer });
+        }
+
+        // Anchors name a schema within the resource of its nearest `$id`
+        for (const anchor of getSchemaAnchors(subschema)) {
+          const base = getBaseUri({ documentUri, pointer });
+          register(`${base}#${anchor}`, { documentUri, pointer });
+        }
+      });
+
+      return documentBases.get("#") ?? documentUri;
+    },
+
+    register,
+
+    getDocument(documentUri) {
+      return documents.get(documentUri);
+    },
+
+    getBaseUri,
+
+    resolve(ref, from) {
+      const candidates = [getBaseUri(from), from.documentUri];
+      for (const base of candidates) {
+        const uri = resolveUri(ref, base);
+        const location = uri === null ? null : find(uri);
+        if (location) return location;
+      }
+      return null;
+    },
+
+    getUris() {
+      return new Map(uris);
+    },
+  };
+};
+
+/**
+ * Returns the retrieval URI of a schema file.
+ *
+ * @param relativeSchemaPath - The path relative to the schema directory, with `/` separators
+ * @returns The URI
+ *
+ * @example
+ * getSchemaFileUri('api/user schema.json') // => 'schema-file:///api/user%20schema.json'
+ */
+export const getSchemaFileUri = (relativeSchemaPath: string): string =>
+  new URL(
+    relativeSchemaPath.split("/").map(encodeURIComponent).join("/"),
+    SCHEMA_FILE_BASE_URI,
+  ).href;
+
+/**
+ * Returns the retrieval URI of a document named by its schema file path or,
+ * for a document that is not a schema file, by its absolute URI.
+ *
+ * @example
+ * toDocumentUri('api/user.json') // => 'schema-file:///api/user.json'
+ * toDocumentUri('https://example.com/user.json') // => 'https://example.com/user.json'
+ */
+export const toDocumentUri = (schemaPath: string): string =>
+  URI_SCHEME_PATTERN.test(schemaPath)
+    ? schemaPath
+    : getSchemaFileUri(schemaPath);
+
+/**
+ * Returns the path of the schema file a retrieval URI names.
+ *
+ * @param uri - The URI
+ * @returns The path relative to the schema directory, or null for other URIs
+ *
+ * @example
+ * getSchemaFilePath('schema-file:///api/user.json') // => 'api/user.json'
+ * getSchemaFilePath('https://example.com/user.json') // => null
+ */
+export const getSchemaFilePath = (uri: string): string | null =>
+  uri.startsWith(SCHEMA_FILE_BASE_URI)
+    ? decodeURIComponent(uri.slice(SCHEMA_FILE_BASE_URI.length).split("#")[0])
+    : null;
+
+/**
+ * Resolves a URI reference against a base URI (RFC 3986), dropping an empty
+ * fragment. Returns null if the result is not an absolute URI.
+ *
+ * @example
+ * resolveUri('address.json', 'https://example.com/api/user.json') // => 'https://example.com/api/address.json'
+ */
+export const resolveUri = (
+  reference: string,
+  baseUri: string,
+): string | null => {
+  try {
+    return new URL(reference, baseUri || undefined).href.replace(/#$/, "");
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns a schema's `$id`, or null if it has none. An `$id` that is only a
+ * fragment names a location, not a document, and is ignored.
+ */
+const getId = (schema: JsonSchema): string | null =>
+  typeof schema.$id === "string" &&
+  schema.$id !== "" &&
+  !schema.$id.startsWith("#")
+    ? schema.$id
+    : null;
@@ -0,0 +1,110 @@
+/**
+ * Generic walk over every subschema of a document, regardless of whether
+ * the generator understands the keyword that contains it.
+ */
+
+import { JsonSchema } from "../types";
+import { appendPointer } from "./json-pointer";
+
+/**
+ * Keywords whose value is a single subschema.
+ */
+const SCHEMA_KEYWORDS = [
+  "additionalProperties",
+  "additionalItems",
+  "items",
+  "contains",
+  "propertyNames",
+  "not",
+  "if",
+  "then",
+  "else",
+  "unevaluatedProperties",
+  "unevaluatedItems",
+];
+
+/**
+ * Keywords whose value is an array of subschemas.
+ */
+const SCHEMA_ARRAY_KEYWORDS = [
+  "allOf",
+  "anyOf",
+  "oneOf",
+  "prefixItems",
+  "items",
+];
+
+/**
+ * Keywords whose value maps names to subschemas.
+ */
+const SCHEMA_MAP_KEYWORDS = [
+  "properties",
+  "patternProperties",
+  "definitions",
+  "$defs",
+  "dependentSchemas",
+];
+
+/**
+ * Returns true for values that can be treated as a schema object.
+ */
+const isSchemaObject = (value: unknown): value is JsonSchema =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Calls `visit` for the schema and every nested subschema, depth first.
+ * Values of non-schema keywords such as `enum`, `const` and `default` are never entered.
+ *
+ * @param schema - The schema to walk
+ * @param visit - Called with each subschema and its canonical JSON pointer
+ * @param pointer - The pointer of `schema` (defaults to '#')
+ *
+ * @example
+ * forEachSubschema(schema, (subschema, pointer) => {
+ *   if (subschema.$ref) console.log(pointer, subschema.$ref);
+ * });
+ */
+export const forEachSubschema = (
+  schema: JsonSchema,
+  visit: (subschema: JsonSchema, pointer: string) => void,
+  pointer = "#",
+): void => {
+  if (!isSchemaObject(schema)) return;
+  visit(schema, pointer);
+
+  const record = schema as Record<string, unknown>;
+  const hasKeyword = (keyword: string): boolean =>
+    Object.prototype.hasOwnProperty.call(record, keyword);
+
+  for (const keyword of SCHEMA_KEYWORDS) {
+    if (hasKeyword(keyword) && isSchemaObject(record[keyword])) {
+      forEachSubschema(
+        record[keyword] as JsonSchema,
+        visit,
+        appendPointer(pointer, keyword),
+      );
+    }
+  }
+
+  for (const keyword of SCHEMA_ARRAY_KEYWORDS) {
+    const value = record[keyword];
+    if (hasKeyword(keyword) && Array.isArray(value)) {
+      value.forEach((item, index) =>
+        forEachSubschema(item, visit, appendPointer(pointer, keyword, index)),
+      );
+    }
+  }
+
+  for (const keyword of SCHEMA_MAP_KEYWORDS) {
+    const value = record[keyword];
+    if (hasKeyword(keyword) && isSchemaObject(value)) {
+      for (const [key, subschema] of Object.entries(value)) {
+        forEachSubschema(
+          subschema as JsonSchema,
+          visit,
+          appendPointer(pointer, keyword, key),
+        );
+      }
+    }
+  }
+};
@@ -2,5 +2,12 @@
  * Schema scanning and type registration.
  */
 
-export { scanSchema, ScanSchemaParams } from "./scanner";
+export {
+  scanSchema,
+  scanDocuments,
+  ScanSchemaParams,
+  ScanDocumentsParams,
+  ScanSchemaResult,
+} from "./scanner";
 export { traverse, TraverseParams } from "./traverser";
+export { getSchemaReference, REFERENCE_KEYWORDS } from "./references";
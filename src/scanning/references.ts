@@ -0,0 +1,41 @@
+/**
+ * The keywords a schema references another schema with.
+ *
+ * Dynamic references are resolved statically, as if the document were
+ * evaluated on its own: `{ "$dynamicRef": "#node" }` names the schema of the
+ * same document declaring `"$dynamicAnchor": "node"`, and
+ * `{ "$recursiveRef": "#" }` the document root. That is the schema a recursive
+ * structure refers to unless another document extends it.
+ */
+
+import { JsonSchema } from "../types";
+
+/**
+ * Keywords whose value references another schema, in order of precedence.
+ */
+export const REFERENCE_KEYWORDS = [
+  "$ref",
+  "$dynamicRef",
+  "$recursiveRef",
+] as const;
+
+/**
+ * Returns the schema a schema references, through `$ref`, `$dynamicRef` or
+ * `$recursiveRef`.
+ *
+ * @param schema - The schema
+ * @returns The reference, or undefined if the schema references none
+ *
+ * @example
+ * getSchemaReference({ $dynamicRef: '#node' }) // => '#node'
+ * getSchemaReference({ type: 'string' }) // => undefined
+ */
+export const getSchemaReference = (schema: JsonSchema): string | undefined => {
+  for (const keyword of REFERENCE_KEYWORDS) {
+    const value = Object.prototype.hasOwnProperty.call(schema, keyword)
+      ? schema[keyword]
+      : undefined;
+    if (typeof value === "string") return value;
+  }
+  return undefined;
+};
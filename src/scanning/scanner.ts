@@ -5,9 +5,14 @@
 
 import { JsonSchema } from "../types";
 import { TypeNameRegistry } from "../registry";
-import { resolvePointer } from "../resolution";
+import {
+  getLastReferenceToken,
+  resolveAnchorReference,
+  resolvePointer,
+} from "../resolution";
 import { toPascalCase } from "../utils";
 import { traverse } from "./traverser";
+import { getSchemaReference } from "./references";
 
 /**
  * Parameters for scanning a schema.
@@ -23,6 +28,18 @@ export interface ScanSchemaParams {
   rootPointer?: string;
 }
 
+/**
+ * Result of scanning a schema.
+ */
+export interface ScanSchemaResult {
+  /**
+   * Every `$ref`, `$dynamicRef` and `$recursiveRef` value found in the schema,
+   * in discovery order; references to anchors of the schema are replaced by
+   * the pointer of the anchored schema
+   */
+  references: string[];
+}
+
 /**
  * Scans a JSON Schema to identify and register all type definitions.
  * Performs three passes:
@@ -31,28 +48,71 @@ export interface ScanSchemaParams {
  * 3. Cleanup redundant aliases
  *
  * @param params - The scan parameters
+ * @returns The references collected while scanning
  */
 export const scanSchema = ({
   schema,
   registry,
   rootPointer = "#",
-}: ScanSchemaParams): void => {
+}: ScanSchemaParams): ScanSchemaResult =>
+  scanDocuments({
+    documents: [{ schema, pointer: rootPointer }],
+    rootSchema: schema,
+    registry,
+  });
+
+/**
+ * Parameters for scanning several documents embedded in one root document.
+ */
+export interface ScanDocumentsParams {
+  /** The documents to scan, with their pointers in `rootSchema` */
+  documents: { schema: JsonSchema; pointer: string }[];
+
+  /** The document the registered pointers resolve against */
+  rootSchema: JsonSchema;
+
+  /** The type name registry to populate */
+  registry: TypeNameRegistry;
+}
+
+/**
+ * Scans several documents like `scanSchema`, traversing all of them before
+ * registering missing references, so a reference into a later document gets
+ * the name that document gives it.
+ *
+ * @param params - The scan parameters
+ * @returns The references collected while scanning
+ */
+export const scanDocuments = ({
+  documents,
+  rootSchema,
+  registry,
+}: ScanDocumentsParams): ScanSchemaResult => {
   const references = new Set<string>();
 
   // Pass 1: Traverse and register explicit definitions
-  traverse({
-    schema,
-    registry,
-    references,
-    pointer: rootPointer,
-    suggestedName: "",
-  });
+  for (const { schema, pointer } of documents) {
+    traverse({
+      schema,
+      registry,
+      references,
+      pointer,
+      suggestedName: "",
+    });
+  }
+
+  // References to anchors name the schema declaring the anchor
+  const resolvedReferences = new Set(
+    Array.from(references, (ref) => resolveAnchorReference(ref, rootSchema)),
+  );
 
   // Pass 2: Register missing references
-  registerMissingReferences({ references, registry });
+  registerMissingReferences({ references: resolvedReferences, registry });
 
   // Pass 3: Cleanup redundant aliases
-  cleanupRedundantAliases({ schema, registry });
+  cleanupRedundantAliases({ schema: rootSchema, registry });
+
+  return { references: Array.from(resolvedReferences) };
 };
 
 /**
@@ -78,9 +138,7 @@ const registerMissingReferences = ({
     if (registry.get(ref)) return;
 
     // Derive name from the last part of the pointer
-    const parts = ref.split("/");
-    const lastPart = parts[parts.length - 1];
-    const name = toPascalCase(lastPart);
+    const name = toPascalCase(getLastReferenceToken(ref));
 
     registry.register(ref, name);
   });
@@ -107,11 +165,12 @@ const cleanupRedundantAliases = ({ schema, registry }: CleanupParams): void => {
   for (const pointer of allEntries) {
     const fragment = resolvePointer({ root: schema, pointer });
 
-    if (fragment && fragment.$ref) {
+    const ref = fragment ? getSchemaReference(fragment) : undefined;
+    if (ref) {
       // Only handle internal references
-      if (!fragment.$ref.startsWith("#")) continue;
+      if (!ref.startsWith("#")) continue;
 
-      const targetPointer = fragment.$ref;
+      const targetPointer = resolveAnchorReference(ref, schema);
       const targetName = registry.get(targetPointer);
 
       if (targetName) {
@@ -4,7 +4,9 @@
 
 import { JsonSchema } from "../types";
 import { TypeNameRegistry } from "../registry";
+import { appendPointer } from "../resolution";
 import { toPascalCase } from "../utils";
+import { getSchemaReference } from "./references";
 
 /**
  * Parameters for traversing a schema.
@@ -42,9 +44,10 @@ export const traverse = ({
     return;
   }
 
-  // Collect $ref references
-  if (schema.$ref) {
-    references.add(schema.$ref);
+  // Collect $ref, $dynamicRef and $recursiveRef references
+  const ref = getSchemaReference(schema);
+  if (ref) {
+    references.add(ref);
   }
 
   // Determine the best name for this location
@@ -135,7 +138,7 @@ const traverseDefinitions = ({
         schema: def as JsonSchema,
         registry,
         references,
-        pointer: `${pointer}/definitions/${key}`,
+        pointer: appendPointer(pointer, "definitions", key),
         suggestedName: subName,
       });
     }
@@ -148,7 +151,7 @@ const traverseDefinitions = ({
         schema: def as JsonSchema,
         registry,
         references,
-        pointer: `${pointer}/$defs/${key}`,
+        pointer: appendPointer(pointer, "$defs", key),
         suggestedName: subName,
       });
     }
@@ -173,7 +176,7 @@ const traverseProperties = ({
       schema: prop as JsonSchema,
       registry,
       references,
-      pointer: `${pointer}/properties/${key}`,
+      pointer: appendPointer(pointer, "properties", key),
       suggestedName: propName,
     });
   }
@@ -197,7 +200,7 @@ const traverseItems = ({
         schema: item as JsonSchema,
         registry,
         references,
-        pointer: `${pointer}/items/${index}`,
+        pointer: appendPointer(pointer, "items", index),
         suggestedName: `${parentName}Item${index}`,
       });
     });
@@ -206,7 +209,7 @@ const traverseItems = ({
       schema: schema.items as JsonSchema,
       registry,
       references,
-      pointer: `${pointer}/items`,
+      pointer: appendPointer(pointer, "items"),
       suggestedName: `${parentName}Item`,
     });
   }
@@ -230,7 +233,7 @@ const traverseAdditionalProperties = ({
       schema: schema.additionalProperties as JsonSchema,
       registry,
       references,
-      pointer: `${pointer}/additionalProperties`,
+      pointer: appendPointer(pointer, "additionalProperties"),
       suggestedName: `${parentName}Value`,
     });
   }
@@ -250,13 +253,13 @@ const traverseCombinators = ({
 }: SubTraverseParams): void => {
   if (schema.oneOf) {
     schema.oneOf.forEach((sub, index) => {
-      const isRef = !!sub.$ref;
+      const isRef = getSchemaReference(sub) !== undefined;
       const subName = isRef ? "" : `${parentName}Option${index}`;
       traverse({
         schema: sub as JsonSchema,
         registry,
         references,
-        pointer: `${pointer}/oneOf/${index}`,
+        pointer: appendPointer(pointer, "oneOf", index),
         suggestedName: subName,
       });
     });
@@ -264,13 +267,13 @@ const traverseCombinators = ({
 
   if (schema.anyOf) {
     schema.anyOf.forEach((sub, index) => {
-      const isRef = !!sub.$ref;
+      const isRef = getSchemaReference(sub) !== undefined;
       const subName = isRef ? "" : `${parentName}Option${index}`;
       traverse({
         schema: sub as JsonSchema,
         registry,
         references,
-        pointer: `${pointer}/anyOf/${index}`,
+        pointer: appendPointer(pointer, "anyOf", index),
         suggestedName: subName,
       });
     });
@@ -278,13 +281,13 @@ const traverseCombinators = ({
 
   if (schema.allOf) {
     schema.allOf.forEach((sub, index) => {
-      const isRef = !!sub.$ref;
+      const isRef = getSchemaReference(sub) !== undefined;
       const subName = isRef ? "" : `${parentName}Part${index}`;
       traverse({
         schema: sub as JsonSchema,
         registry,
         references,
-        pointer: `${pointer}/allOf/${index}`,
+        pointer: appendPointer(pointer, "allOf", index),
         suggestedName: subName,
       });
     });
@@ -2,6 +2,11 @@
  * Configuration types for the JSON Schema to TypeScript converter.
  */
 
+import { ToTypesEvents } from "./events";
+import { JsonSchema } from "./json-schema";
+import { Logger } from "./logger";
+import { WatchRegenerationResult } from "./result";
+
 /**
  * Options to customize the TypeScript type generation process.
  */
@@ -21,15 +26,255 @@ export interface TypeGenerationOptions {
 
 export type GeneratedTypesExportFormat = "UNIQUE_EXPORTS" | "ROOT_ONLY";
 
+/**
+ * How `toTypes` reacts to schema files that fail to convert.
+ * - 'warn': log a warning, continue, and resolve with the failures in the report
+ * - 'collect': process every file, then reject with a `GenerationFailedError` listing all failures
+ * - 'failFast': stop at the first failure and reject with a `GenerationFailedError`
+ */
+export type ErrorPolicy = "warn" | "collect" | "failFast";
+
+/**
+ * Verbosity of the messages printed while generating types.
+ * Each level includes all the levels before it.
+ */
+export type LogLevel = "silent" | "error" | "warn" | "info" | "debug";
+
+/**
+ * Options that can differ between schema files, through `overrides`.
+ */
+export interface FileGenerationOptions {
+  /** See `ToTypesConfig.generatedTypesExportsFormat` */
+  generatedTypesExportsFormat?: GeneratedTypesExportFormat;
+
+  /** See `ToTypesConfig.strict` */
+  strict?: boolean;
+
+  /** See `ToTypesConfig.lenientJson` */
+  lenientJson?: boolean;
+}
+
+/**
+ * Options applied to the schema files matching a set of glob patterns.
+ */
+export interface FileOverride extends FileGenerationOptions {
+  /**
+   * Glob patterns relative to the input directory, matched like `.gitignore`
+   * patterns (a pattern without a `/` matches at any depth).
+   */
+  files: string[];
+}
+
+/**
+ * A schema file, as seen when computing the path of its output file.
+ */
+export interface OutputPathInfo {
+  /** The schema path relative to its input directory, e.g. `api/user.schema.json` */
+  schemaPath: string;
+
+  /** The directory part of `schemaPath` (`api`), or '' at the root and when flattening */
+  dir: string;
+
+  /** The file name without its schema file extension (`.json`, `.yaml`, ...) and without a `.schema` segment (`user`) */
+  name: string;
+
+  /** The file name without its extension (`user.schema`) */
+  base: string;
+
+  /** The extension of the output target, with its leading dot (`.d.ts`) */
+  ext: string;
+}
+
+/**
+ * Computes the path of a schema's output file, relative to the output directory.
+ */
+export type OutputPathMapper = (file: OutputPathInfo) => string;
+
+/**
+ * What a loader is told about the run it loads a schema for.
+ */
+export interface SchemaLoaderContext {
+  /** True in check mode, where a loader must not write anything, e.g. to a cache */
+  readOnly: boolean;
+}
+
+/**
+ * Loads the schema at a URI that no schema file declares, e.g. an `https:`
+ * URL or a custom scheme such as `pkg:@org/schemas/user.json`. Returns null
+ * for URIs it does not handle, so the next loader is tried, and throws if it
+ * handles the URI but cannot load it.
+ */
+export type SchemaLoader = (
+  uri: string,
+  context: SchemaLoaderContext,
+) => JsonSchema | null | Promise<JsonSchema | null>;
+
+/**
+ * Casing applied to the `name` and `base` of output file names.
+ * - 'preserve': as in the schema file name
+ * - 'kebab': `user-profile`
+ * - 'snake': `user_profile`
+ * - 'camel': `userProfile`
+ * - 'pascal': `UserProfile`
+ */
+export type FileNameCase = "preserve" | "kebab" | "snake" | "camel" | "pascal";
+
+/**
+ * The kind of module written for each schema file.
+ * - 'd.ts': declaration files with the types only
+ * - 'ts': TypeScript modules with the types and their runtime values
+ * - 'js': JavaScript modules with the runtime values, each next to a `.d.ts` declaring them and the types
+ */
+export type OutputTarget = "d.ts" | "ts" | "js";
+
+/**
+ * Which runtime values `.ts` and `.js` modules export next to the types.
+ */
+export interface RuntimeValueOptions {
+  /**
+   * The values of each exported enum type, e.g. `StatusValues = ['active', 'closed'] as const`.
+   * @default true
+   */
+  enums?: boolean;
+
+  /**
+   * The value of each exported const type, e.g. `KindValue = 'user' as const`.
+   * @default true
+   */
+  consts?: boolean;
+
+  /**
+   * The schema document itself, e.g. `UserSchema = { ... } as const`, to pass to a validator.
+   * @default true
+   */
+  schema?: boolean;
+}
+
+/**
+ * Options for the comment written at the top of every generated file.
+ */
+export interface HeaderOptions {
+  /**
+   * Text following the `@generated` marker line; false leaves it out.
+   * @default 'DO NOT EDIT. Changes are overwritten when the file is regenerated; edit the source schema instead.'
+   */
+  banner?: string | false;
+
+  /**
+   * Name the source schema file and its `$id`.
+   * @default true
+   */
+  source?: boolean;
+
+  /**
+   * Name the generator version next to the marker.
+   * @default true
+   */
+  version?: boolean;
+
+  /**
+   * Add the SHA-256 hash of the source schema file's content.
+   * @default true
+   */
+  hash?: boolean;
+
+  /**
+   * Lines written above the comment as they are, e.g. `['/* eslint-disable *\/', '// @ts-nocheck']`.
+   * @default []
+   */
+  pragmas?: string[];
+
+  /**
+   * License text placed at the top of the comment.
+   */
+  license?: string;
+}
+
+/**
+ * How a barrel re-exports modules whose exported names clash.
+ * - 'namespace': `export * as V2Offer from './v2/offer'`
+ * - 'prefix': `export { Offer as V2OfferOffer } from './v2/offer'`, only for the clashing names
+ */
+export type BarrelCollisionStrategy = "namespace" | "prefix";
+
+/**
+ * Options for generating `index.d.ts` barrel files.
+ */
+export interface BarrelOptions {
+  /**
+   * Emit an `index.d.ts` in every output directory, re-exporting the modules in that directory.
+   * @default true
+   */
+  directories?: boolean;
+
+  /**
+   * Emit an `index.d.ts` at the output root re-exporting every module in the
+   * tree. It replaces the root directory's own barrel.
+   * @default false
+   */
+  root?: boolean;
+
+  /**
+   * How to re-export modules whose exported names clash with another module's.
+   * @default 'namespace'
+   */
+  collisions?: BarrelCollisionStrategy;
+}
+
+/**
+ * Options for writing every schema's types to a single file.
+ */
+export interface BundleOptions {
+  /**
+   * Path of the bundle, relative to the output directory.
+   * @default 'schemas.d.ts'
+   */
+  fileName?: string;
+
+  /**
+   * Declare the types of each schema file in a namespace named after its path
+   * (e.g. `V2Offer` for `v2/offer.schema.json`), so type names only have to be
+   * unique within a file. Every type of a namespace is exported.
+   * @default false
+   */
+  namespaces?: boolean;
+}
+
 /**
  * Configuration for the `toTypes` function.
  */
 export interface ToTypesConfig {
   /**
-   * The absolute or relative path to the directory containing `.json` schema files.
-   * The function will recursively find all JSON files in this directory.
+   * The absolute or relative path to the directory containing `.json`,
+   * `.jsonc`, `.json5`, `.yaml` and `.yml` schema files. The function will
+   * recursively find all schema files in this directory; JSONC, JSON5 and YAML
+   * schemas are parsed by bundled parsers.
+   *
+   * Several directories can be given. They are merged into one tree: each is
+   * mirrored into the output directory, and when the same relative path exists
+   * in more than one, the earlier directory wins.
    */
-  pathToJsonSchemas: string;
+  pathToJsonSchemas: string | string[];
+
+  /**
+   * Glob patterns of the schema files to pick up, relative to each input directory.
+   * @default ['**\/*.json', '**\/*.jsonc', '**\/*.json5', '**\/*.yaml', '**\/*.yml']
+   */
+  include?: string[];
+
+  /**
+   * Glob patterns of files to skip, relative to each input directory.
+   * @default []
+   */
+  exclude?: string[];
+
+  /**
+   * A `.gitignore`-style file listing files to skip, looked up relative to each
+   * input directory; its patterns are relative to that directory as well.
+   * Missing files are ignored. Set to false to disable.
+   * @default '.json-schema-to-dts-ignore'
+   */
+  ignoreFile?: string | false;
 
   /**
    * The absolute or relative path to the directory where the generated `.d.ts` files will be written.
@@ -37,10 +282,219 @@ export interface ToTypesConfig {
    */
   pathToOutputDirectory: string;
 
+  /**
+   * Where each schema's output file is written, relative to the output directory:
+   * a template using the `{dir}`, `{name}`, `{base}` and `{ext}` placeholders of
+   * `OutputPathInfo`, or a function receiving them.
+   * @default '{dir}/{name}{ext}'
+   *
+   * @example
+   * outputPath: '{dir}/{name}.types{ext}'
+   * outputPath: ({ dir, base, ext }) => `${dir}/generated/${base}${ext}`
+   */
+  outputPath?: string | OutputPathMapper;
+
+  /**
+   * Casing applied to the `name` and `base` placeholders of output file names.
+   * @default 'preserve'
+   */
+  fileNameCase?: FileNameCase;
+
+  /**
+   * If true, every output file is written directly in the output directory:
+   * the `dir` placeholder is always empty. Schema files that map to the same
+   * output file fail with an `OutputPathCollisionError`.
+   * @default false
+   */
+  flatten?: boolean;
+
+  /**
+   * The kind of module written for each schema file. `.ts` and `.js` modules
+   * also export runtime values derived from the schema, see `runtimeValues`;
+   * each `.js` module is written next to a `.d.ts` declaring it.
+   * Bundles only support the 'd.ts' target.
+   * @default 'd.ts'
+   */
+  target?: OutputTarget;
+
+  /**
+   * Which runtime values `.ts` and `.js` modules export next to the types;
+   * `true` enables all of them. Only values belonging to exported types are
+   * emitted, so the exports format applies to them too.
+   * @default true
+   *
+   * @example
+   * runtimeValues: { schema: false }
+   */
+  runtimeValues?: boolean | RuntimeValueOptions;
+
+  /**
+   * Start every generated file with a comment carrying the `@generated`
+   * marker, a do-not-edit banner, the source schema path and `$id`, the
+   * generator version and a hash of the schema file. With a header, check mode
+   * only reports extra files that carry the marker, and `clean` also removes
+   * marked files it does not own yet.
+   * @default false
+   *
+   * @example
+   * header: { pragmas: ['/* eslint-disable *\/'], license: 'SPDX-License-Identifier: MIT' }
+   */
+  header?: boolean | HeaderOptions;
+
   /**
    * Determines how generated types are exported in the output `.d.ts` files.
    * - 'UNIQUE_EXPORTS': Exports all generated types, including nested ones, with unique names.
    * - 'ROOT_ONLY': Only exports the root type corresponding to each input schema file.
    */
   generatedTypesExportsFormat: GeneratedTypesExportFormat;
+
+  /**
+   * Options for the schema files matching specific glob patterns. When several
+   * overrides match a file, later ones take precedence.
+   *
+   * @example
+   * overrides: [{ files: ['legacy/**'], generatedTypesExportsFormat: 'ROOT_ONLY' }]
+   */
+  overrides?: FileOverride[];
+
+  /**
+   * If true, skips schema files whose content, referenced files, generator version
+   * and options are unchanged since the previous run. The state is kept in a
+   * `.json-schema-to-dts-manifest.json` file in the output directory.
+   * Output files whose content would not change are never rewritten, with or without this option.
+   * Nothing is skipped when `outputPath` is a function, as its captured values cannot be hashed.
+   * @default false
+   */
+  incremental?: boolean;
+
+  /**
+   * Emit `index.d.ts` barrel files re-exporting the generated modules.
+   * `true` enables a barrel per output directory.
+   * @default false
+   *
+   * @example
+   * barrels: { root: true, directories: false, collisions: 'prefix' }
+   */
+  barrels?: boolean | BarrelOptions;
+
+  /**
+   * Write the types of every schema file to a single file instead of mirroring
+   * the input tree. A schema referenced from several files, through a relative
+   * `$ref` or its `$id`, is declared once, and type names are made unique
+   * across the whole bundle. `true` writes `schemas.d.ts` in the output directory.
+   * `incremental`, `concurrency` and `barrels` do not apply to bundles.
+   * @default false
+   *
+   * @example
+   * bundle: { fileName: 'api.d.ts', namespaces: true }
+   */
+  bundle?: boolean | BundleOptions;
+
+  /**
+   * If true, deletes generated files whose schema no longer exists (or no longer
+   * produces types), and the directories left empty, after the run. Files the
+   * generator owns are tracked in the `.json-schema-to-dts-manifest.json` file,
+   * so hand-written files and generated files edited by hand are never deleted.
+   * Outputs generated before `clean` was first enabled are not tracked.
+   * @default false
+   */
+  clean?: boolean;
+
+  /**
+   * If true, runs the full pipeline but writes nothing. Instead, the generated files
+   * are compared with the output directory and every missing, changed or extra
+   * output file of the `target` is reported with a unified diff in `result.check`.
+   * Intended for CI, to fail when committed types are stale.
+   * @default false
+   */
+  check?: boolean;
+
+  /**
+   * If true, a schema file with an unresolved `$ref` or a keyword the generator
+   * does not support fails with an `UnresolvedReferenceError` or
+   * `UnsupportedKeywordError` instead of producing a warning.
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * If true, `.json` schema files are read like `.jsonc` files, allowing
+   * comments and trailing commas. `.jsonc` and `.json5` files are always read
+   * in their own dialect.
+   * @default false
+   */
+  lenientJson?: boolean;
+
+  /**
+   * Loaders for `$ref`s to URIs that no schema file declares, tried in order.
+   * Each loaded schema is generated like a schema file, with an output path
+   * derived from its URI below `_external/`, and the referencing files import
+   * its types. Without loaders nothing is loaded and such references are
+   * reported as warnings, so generation stays offline unless it is enabled.
+   * @default []
+   *
+   * @example
+   * loaders: [
+   *   createNodeModulesLoader(),
+   *   createHttpLoader({ cacheDirectory: '.schema-cache', offline: !!process.env.CI }),
+   * ]
+   */
+  loaders?: SchemaLoader[];
+
+  /**
+   * Number of worker threads compiling schema files in parallel. Output, logs
+   * and events keep the same order as with a single thread. Runs with fewer
+   * than 10 files per worker are compiled in-process, since starting workers
+   * would cost more than it saves.
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * How to react to schema files that fail to convert. Watch mode always uses 'warn'
+   * and keeps running.
+   * @default 'warn'
+   */
+  errorPolicy?: ErrorPolicy;
+
+  /**
+   * The most verbose kind of message to print. Applies to `logger` as well.
+   * @default 'info'
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Receives every message instead of the console, e.g. to write JSON logs
+   * or to keep build output clean.
+   * @default console
+   */
+  logger?: Logger;
+
+  /**
+   * Handlers for progress events, e.g. to drive a progress bar.
+   */
+  events?: ToTypesEvents;
 }
+
+/**
+ * Configuration for the `watchTypes` function.
+ */
+export interface WatchTypesConfig extends ToTypesConfig {
+  /**
+   * Milliseconds to wait after the last file system event before regenerating,
+   * so a burst of editor saves triggers a single regeneration.
+   * @default 100
+   */
+  debounceMs?: number;
+
+  /**
+   * Called after every regeneration, including the initial one.
+   */
+  onRegenerate?: (result: WatchRegenerationResult) => void;
+}
+
+/**
+ * Configuration as written in a configuration file: every field is optional,
+ * and missing ones are supplied by the command line or the caller.
+ */
+export type UserConfig = Partial<WatchTypesConfig>;
@@ -0,0 +1,43 @@
+/**
+ * Diagnostics reported while compiling a schema.
+ */
+
+/**
+ * How serious a diagnostic is.
+ * - 'error': the generated code is likely invalid
+ * - 'warning': the generated code is valid but may not match the schema's intent
+ * - 'info': nothing is wrong, but the result may be surprising
+ */
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * Machine-readable identifiers for the diagnostics the compiler can report.
+ * - 'unresolved-ref': a `$ref` points at a location that does not exist in the document
+ * - 'external-ref': a `$ref` points outside the document at something that cannot be imported, and is emitted as `unknown`
+ * - 'unsupported-keyword': a keyword that constrains the type is ignored, so the type is looser than the schema
+ * - 'no-types': the schema produced no types (the root has no `title` and there are no definitions)
+ * - 'duplicate-id': another schema in the same bundle declares the same `$id`, so this one is left out
+ */
+export type DiagnosticCode =
+  | "unresolved-ref"
+  | "external-ref"
+  | "unsupported-keyword"
+  | "no-types"
+  | "duplicate-id";
+
+/**
+ * A problem or notice found while compiling a schema.
+ */
+export interface Diagnostic {
+  /** How serious the diagnostic is */
+  severity: DiagnosticSeverity;
+
+  /** Machine-readable identifier */
+  code: DiagnosticCode;
+
+  /** Human-readable description */
+  message: string;
+
+  /** JSON pointer to the schema location the diagnostic is about, when known */
+  pointer?: string;
+}
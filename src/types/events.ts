@@ -0,0 +1,75 @@
+/**
+ * Progress events emitted by `toTypes`.
+ */
+
+import { SchemaFileReport, ToTypesResult } from "./result";
+
+/**
+ * Emitted before a schema file is processed.
+ */
+export interface FileStartEvent {
+  /** Path of the schema file, relative to its directory in `pathToJsonSchemas` */
+  schemaPath: string;
+
+  /** Zero-based position of the file in the run */
+  index: number;
+
+  /** Number of schema files in the run */
+  total: number;
+}
+
+/**
+ * Emitted after a schema file was processed successfully.
+ */
+export interface FileGeneratedEvent {
+  /** Report for the file; its status tells whether the output was written */
+  file: SchemaFileReport;
+
+  /** Zero-based position of the file in the run */
+  index: number;
+
+  /** Number of schema files in the run */
+  total: number;
+}
+
+/**
+ * Emitted after a schema file failed to convert.
+ */
+export interface FileFailedEvent {
+  /** Report for the file */
+  file: SchemaFileReport;
+
+  /** The error raised while processing the file */
+  error: unknown;
+
+  /** Zero-based position of the file in the run */
+  index: number;
+
+  /** Number of schema files in the run */
+  total: number;
+}
+
+/**
+ * Emitted once, after every schema file was processed.
+ */
+export interface DoneEvent {
+  /** The report that `toTypes` resolves to */
+  result: ToTypesResult;
+}
+
+/**
+ * Handlers for progress events. Every handler is optional and called synchronously.
+ */
+export interface ToTypesEvents {
+  /** Called before each schema file is processed */
+  fileStart?: (event: FileStartEvent) => void;
+
+  /** Called after each schema file that was processed successfully, including cached and unchanged ones */
+  fileGenerated?: (event: FileGeneratedEvent) => void;
+
+  /** Called after each schema file that failed to convert */
+  fileFailed?: (event: FileFailedEvent) => void;
+
+  /** Called when the run is complete (not emitted in watch mode, which uses `onRegenerate`) */
+  done?: (event: DoneEvent) => void;
+}
@@ -6,5 +6,40 @@ export { JsonSchema } from "./json-schema";
 export {
   TypeGenerationOptions,
   ToTypesConfig,
+  WatchTypesConfig,
+  FileGenerationOptions,
+  FileOverride,
+  UserConfig,
+  BarrelOptions,
+  BundleOptions,
+  OutputPathInfo,
+  OutputPathMapper,
+  SchemaLoader,
+  SchemaLoaderContext,
+  FileNameCase,
+  OutputTarget,
+  RuntimeValueOptions,
+  HeaderOptions,
+  BarrelCollisionStrategy,
   GeneratedTypesExportFormat,
+  ErrorPolicy,
+  LogLevel,
 } from "./config";
+export { Diagnostic, DiagnosticCode, DiagnosticSeverity } from "./diagnostics";
+export {
+  ToTypesResult,
+  ToTypesTotals,
+  SchemaFileReport,
+  SchemaFileStatus,
+  FailedSchemaFile,
+  WatchRegenerationResult,
+  CheckResult,
+} from "./result";
+export { Logger } from "./logger";
+export {
+  ToTypesEvents,
+  FileStartEvent,
+  FileGeneratedEvent,
+  FileFailedEvent,
+  DoneEvent,
+} from "./events";
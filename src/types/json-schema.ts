@@ -57,6 +57,21 @@ export interface JsonSchema {
   /** Reference to another schema */
   $ref?: string;
 
+  /** Plain name fragment identifying this schema, referenced as `#name` (Draft 2019-09+) */
+  $anchor?: string;
+
+  /** Anchor a `$dynamicRef` can resolve to; also usable as a plain `$anchor` (Draft 2020-12) */
+  $dynamicAnchor?: string;
+
+  /** Reference resolved through the dynamic scope, e.g. to extend a recursive schema (Draft 2020-12) */
+  $dynamicRef?: string;
+
+  /** Marks this schema as a target of `$recursiveRef` (Draft 2019-09) */
+  $recursiveAnchor?: boolean;
+
+  /** Reference to the nearest `$recursiveAnchor`, usually `"#"` (Draft 2019-09) */
+  $recursiveRef?: string;
+
   /** Format hint (e.g., "email", "date-time") */
   format?: string;
 
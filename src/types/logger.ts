@@ -0,0 +1,14 @@
+/**
+ * Logger interface accepted by the converter.
+ */
+
+/**
+ * Receives progress and diagnostic messages from the generator.
+ * `console` satisfies this interface, as do most logging libraries.
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
@@ -0,0 +1,160 @@
+/**
+ * Result types returned by the JSON Schema to TypeScript converter.
+ */
+
+import { Diagnostic } from "./diagnostics";
+
+/**
+ * A schema file that could not be converted.
+ */
+export interface FailedSchemaFile {
+  /** Path of the schema file, relative to its directory in `pathToJsonSchemas` */
+  schemaPath: string;
+
+  /** The error raised while processing the file */
+  error: unknown;
+}
+
+/**
+ * What happened to a schema file during a run.
+ * - 'generated': the output file was written
+ * - 'unchanged': the schema was processed, but the output file already had identical content
+ * - 'cached': the schema was skipped because its inputs are unchanged (incremental mode)
+ * - 'stale': the output file is missing or differs (check mode, nothing is written)
+ * - 'empty': the schema produced no types, so no output file exists
+ * - 'failed': the schema could not be converted
+ */
+export type SchemaFileStatus =
+  | "generated"
+  | "unchanged"
+  | "cached"
+  | "stale"
+  | "empty"
+  | "failed";
+
+/**
+ * Report for a single input schema file.
+ */
+export interface SchemaFileReport {
+  /** Path of the schema file, relative to its directory in `pathToJsonSchemas` */
+  schemaPath: string;
+
+  /** Path of the output file, or null if there is none */
+  outputPath: string | null;
+
+  /** For the 'js' target, path of the declaration file next to the output file */
+  declarationPath?: string;
+
+  /** What happened to the file */
+  status: SchemaFileStatus;
+
+  /** Names of all generated types, root type first */
+  types: string[];
+
+  /** Names of the types exported from the output file */
+  exportedTypes: string[];
+
+  /** Names of the runtime values exported from the output file; empty for the 'd.ts' target */
+  exportedValues: string[];
+
+  /** Problems and notices found while compiling */
+  diagnostics: Diagnostic[];
+
+  /** The error raised while processing the file; only set when the status is 'failed' */
+  error?: unknown;
+
+  /** Time spent on this file, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Counts of schema files and types for a run.
+ */
+export interface ToTypesTotals {
+  /** Number of schema files found */
+  schemaFiles: number;
+
+  /** Number of schema files per status */
+  byStatus: Record<SchemaFileStatus, number>;
+
+  /** Number of generated types across all files */
+  types: number;
+
+  /** Number of diagnostics across all files */
+  diagnostics: number;
+}
+
+/**
+ * Report of a `toTypes` run.
+ */
+export interface ToTypesResult {
+  /** One report per schema file, in processing order */
+  files: SchemaFileReport[];
+
+  /** Counts across all files */
+  totals: ToTypesTotals;
+
+  /** Wall-clock time of the whole run, in milliseconds */
+  durationMs: number;
+
+  /** Paths of the `.d.ts` files that were written */
+  generatedFiles: string[];
+
+  /** Paths of the `.d.ts` files that were already up to date and left untouched */
+  unchangedFiles: string[];
+
+  /** Paths of the stale generated files removed by `clean` */
+  deletedFiles: string[];
+
+  /** Schema files that failed to convert */
+  failedFiles: FailedSchemaFile[];
+
+  /** Comparison with the output directory; only set in check mode */
+  check?: CheckResult;
+}
+
+/**
+ * Summary of a single regeneration in watch mode.
+ */
+export interface WatchRegenerationResult {
+  /** Schema files that were added or modified, relative to its directory in `pathToJsonSchemas` */
+  changedFiles: string[];
+
+  /** Schema files that were deleted */
+  removedFiles: string[];
+
+  /** Schema files that were regenerated: the changed files plus every file referencing them */
+  regeneratedFiles: string[];
+
+  /** Paths of the `.d.ts` files that were written */
+  generatedFiles: string[];
+
+  /** Paths of the `.d.ts` files deleted because their schema was removed */
+  deletedFiles: string[];
+
+  /** Schema files that failed to convert */
+  failedFiles: FailedSchemaFile[];
+
+  /** Wall-clock time spent on the regeneration, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Outcome of comparing generated files with the output directory in check mode.
+ */
+export interface CheckResult {
+  /** True if the output directory matches the generated files exactly */
+  isUpToDate: boolean;
+
+  /** Output files that would be generated but do not exist */
+  missingFiles: string[];
+
+  /** Output files whose content differs from what would be generated */
+  changedFiles: string[];
+
+  /** Output files of the target in the output directory that would not be generated */
+  extraFiles: string[];
+
+  /** Unified diff per missing, changed or extra file, keyed by output path */
+  diffs: Record<string, string>;
+}
@@ -0,0 +1,85 @@
+/**
+ * Source locations and code frames for pointing at a position in a file.
+ */
+
+/**
+ * A 1-based line and column in a text.
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * Converts a character offset into a 1-based line and column.
+ *
+ * @param source - The full text
+ * @param offset - Zero-based character offset (clamped to the text)
+ * @returns The line and column of the offset
+ *
+ * @example
+ * getSourceLocation('{\n  "a": }', 9) // => { line: 2, column: 8 }
+ */
+export const getSourceLocation = (
+  source: string,
+  offset: number,
+): SourceLocation => {
+  const clamped = Math.max(0, Math.min(offset, source.length));
+  const before = source.slice(0, clamped);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return {
+    line: before.split("\n").length,
+    column: clamped - lineStart + 1,
+  };
+};
+
+/**
+ * Parameters for rendering a code frame.
+ */
+export interface CreateCodeFrameParams {
+  /** The full text */
+  source: string;
+
+  /** The location to mark */
+  location: SourceLocation;
+
+  /** Number of lines to show before and after the marked line */
+  context?: number;
+}
+
+/**
+ * Renders the lines around a location with a `>` marker and a caret under the column.
+ *
+ * @param params - The code frame parameters
+ * @returns The code frame, without a trailing newline
+ *
+ * @example
+ * createCodeFrame({ source: '{\n  "a": }', location: { line: 2, column: 8 } })
+ * //   1 | {
+ * // > 2 |   "a": }
+ * //     |        ^
+ */
+export const createCodeFrame = ({
+  source,
+  location,
+  context = 2,
+}: CreateCodeFrameParams): string => {
+  const lines = source.split("\n");
+  const first = Math.max(1, location.line - context);
+  const last = Math.min(lines.length, location.line + context);
+  const gutterWidth = String(last).length;
+
+  const frame: string[] = [];
+  for (let line = first; line <= last; line++) {
+    const text = lines[line - 1].replace(/\r$/, "");
+    const marker = line === location.line ? ">" : " ";
+    const gutter = String(line).padStart(gutterWidth);
+    frame.push(`${marker} ${gutter} |${text ? ` ${text}` : ""}`);
+
+    if (line === location.line) {
+      const padding = text.slice(0, location.column - 1).replace(/[^\t]/g, " ");
+      frame.push(`  ${" ".repeat(gutterWidth)} | ${padding}^`);
+    }
+  }
+  return frame.join("\n");
+};
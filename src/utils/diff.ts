@@ -0,0 +1,172 @@
+/**
+ * Line-based unified diffs, used to show how generated files differ from what is on disk.
+ */
+
+/**
+ * A single line in an edit script.
+ */
+interface DiffLine {
+  /** ' ' for unchanged, '-' for removed, '+' for added */
+  type: " " | "-" | "+";
+  text: string;
+}
+
+/**
+ * Splits text into lines, ignoring the empty string after a trailing newline.
+ */
+const splitLines = (text: string): string[] => {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+};
+
+/**
+ * Computes a shortest edit script between two line arrays (Myers' O(ND) algorithm).
+ */
+const diffLines = (a: string[], b: string[]): DiffLine[] => {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+          ? v[k + 1 + offset]
+          : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= a.length && y >= b.length) break search;
+    }
+  }
+
+  // Walk the trace backwards to recover the edits
+  const edits: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const previousK =
+      k === -d ||
+      (k !== d && previous[k - 1 + offset] < previous[k + 1 + offset])
+        ? k + 1
+        : k - 1;
+    const previousX = previous[previousK + offset];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push({ type: " ", text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        edits.push({ type: "+", text: b[--y] });
+      } else {
+        edits.push({ type: "-", text: a[--x] });
+      }
+    }
+  }
+
+  return edits.reverse();
+};
+
+/**
+ * Parameters for creating a unified diff.
+ */
+export interface CreateUnifiedDiffParams {
+  /** The original text; use an empty string for a file that does not exist */
+  oldText: string;
+
+  /** The new text; use an empty string for a file that should not exist */
+  newText: string;
+
+  /** Label for the original file (e.g. "a/user.d.ts" or "/dev/null") */
+  oldLabel: string;
+
+  /** Label for the new file */
+  newLabel: string;
+
+  /** Number of unchanged lines shown around each change (defaults to 3) */
+  context?: number;
+}
+
+/**
+ * Creates a unified diff between two texts.
+ *
+ * @param params - The diff parameters
+ * @returns The diff, or an empty string if the texts are identical
+ *
+ * @example
+ * createUnifiedDiff({
+ *   oldText: 'a\nb\n',
+ *   newText: 'a\nc\n',
+ *   oldLabel: 'a/file',
+ *   newLabel: 'b/file',
+ * })
+ * // => '--- a/file\n+++ b/file\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n'
+ */
+export const createUnifiedDiff = ({
+  oldText,
+  newText,
+  oldLabel,
+  newLabel,
+  context = 3,
+}: CreateUnifiedDiffParams): string => {
+  if (oldText === newText) return "";
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  // Line numbers (0-based) in the old and new text before each edit
+  const oldPositions: number[] = [];
+  const newPositions: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const line of lines) {
+    oldPositions.push(oldLine);
+    newPositions.push(newLine);
+    if (line.type !== "+") oldLine++;
+    if (line.type !== "-") newLine++;
+  }
+
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change
+    while (index < lines.length && lines[index].type === " ") index++;
+    if (index >= lines.length) break;
+
+    // Extend the hunk while changes are within 2 * context of each other
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < lines.length && end - lastChange <= 2 * context) {
+      if (lines[end].type !== " ") lastChange = end;
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + context + 1);
+
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.type !== "+").length;
+    const newCount = hunk.filter((line) => line.type !== "-").length;
+    const oldStart =
+      oldCount === 0 ? oldPositions[start] : oldPositions[start] + 1;
+    const newStart =
+      newCount === 0 ? newPositions[start] : newPositions[start] + 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type}${line.text}`);
+    }
+    index = end;
+  }
+
+  return output.join("\n") + "\n";
+};
@@ -2,4 +2,14 @@
  * Utility functions for the JSON Schema to TypeScript converter.
  */
 
-export { toPascalCase } from "./naming";
+export { toPascalCase, splitWords, formatPropertyKey } from "./naming";
+export { createUnifiedDiff, CreateUnifiedDiffParams } from "./diff";
+export {
+  createCodeFrame,
+  getSourceLocation,
+  CreateCodeFrameParams,
+  SourceLocation,
+} from "./code-frame";
+export { findJsonSyntaxErrorOffset } from "./json-syntax";
+export { parseYaml, YamlSyntaxError } from "./yaml";
+export { parseJson5, Json5SyntaxError, JsonDialect } from "./json5";
@@ -0,0 +1,130 @@
+/**
+ * Locating syntax errors in JSON text.
+ * `JSON.parse` does not report a position for every error (and the format of
+ * its messages differs between Node.js versions), so invalid input is re-scanned
+ * here to find where it goes wrong.
+ */
+
+/**
+ * Thrown internally to stop scanning at the offending offset.
+ */
+class SyntaxErrorAt {
+  constructor(readonly offset: number) {}
+}
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const STRING_ESCAPE = /\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4})/y;
+
+/**
+ * Finds the offset of the first syntax error in a JSON text.
+ *
+ * @param source - The JSON text
+ * @returns Zero-based offset of the first invalid character, or -1 if the text is valid JSON
+ *
+ * @example
+ * findJsonSyntaxErrorOffset('{ "a": , }') // => 7
+ */
+export const findJsonSyntaxErrorOffset = (source: string): number => {
+  let index = 0;
+
+  const fail = (): never => {
+    throw new SyntaxErrorAt(index);
+  };
+
+  const skipWhitespace = (): void => {
+    while (index < source.length && " \t\n\r".includes(source[index])) {
+      index++;
+    }
+  };
+
+  const expect = (char: string): void => {
+    if (source[index] !== char) fail();
+    index++;
+  };
+
+  const scanString = (): void => {
+    expect('"');
+    while (source[index] !== '"') {
+      if (index >= source.length || source.charCodeAt(index) < 0x20) fail();
+      if (source[index] === "\\") {
+        STRING_ESCAPE.lastIndex = index;
+        if (!STRING_ESCAPE.test(source)) fail();
+        index = STRING_ESCAPE.lastIndex;
+      } else {
+        index++;
+      }
+    }
+    index++;
+  };
+
+  const scanValue = (): void => {
+    skipWhitespace();
+    const char = source[index];
+
+    if (char === "{") {
+      index++;
+      skipWhitespace();
+      if (source[index] === "}") {
+        index++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        scanString();
+        skipWhitespace();
+        expect(":");
+        scanValue();
+        skipWhitespace();
+        if (source[index] === "}") {
+          index++;
+          return;
+        }
+        expect(",");
+      }
+    }
+
+    if (char === "[") {
+      index++;
+      skipWhitespace();
+      if (source[index] === "]") {
+        index++;
+        return;
+      }
+      for (;;) {
+        scanValue();
+        skipWhitespace();
+        if (source[index] === "]") {
+          index++;
+          return;
+        }
+        expect(",");
+      }
+    }
+
+    if (char === '"') {
+      scanString();
+      return;
+    }
+
+    for (const literal of ["true", "false", "null"]) {
+      if (source.startsWith(literal, index)) {
+        index += literal.length;
+        return;
+      }
+    }
+
+    NUMBER.lastIndex = index;
+    if (!NUMBER.test(source)) fail();
+    index = NUMBER.lastIndex;
+  };
+
+  try {
+    scanValue();
+    skipWhitespace();
+    if (index < source.length) fail();
+    return -1;
+  } catch (error) {
+    if (error instanceof SyntaxErrorAt) return error.offset;
+    throw error;
+  }
+};
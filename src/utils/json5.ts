@@ -0,0 +1,265 @@
+/**
+ * A parser for JSON with comments (JSONC) and JSON5.
+ *
+ * JSONC is JSON with `//` and `/* *\/` comments and trailing commas, as
+ * written by editors. JSON5 also allows unquoted keys, single-quoted and
+ * multi-line strings, hexadecimal numbers, leading and trailing decimal
+ * points, `+` signs, `Infinity` and `NaN`. Either way the result is what
+ * `JSON.parse` returns for the equivalent JSON.
+ */
+
+import { getSourceLocation, SourceLocation } from "./code-frame";
+
+/**
+ * The JSON dialect a text is written in.
+ */
+export type JsonDialect = "jsonc" | "json5";
+
+/**
+ * A JSONC or JSON5 text could not be parsed.
+ */
+export class Json5SyntaxError extends SyntaxError {
+  /** Where the text goes wrong */
+  readonly location: SourceLocation;
+
+  constructor(reason: string, location: SourceLocation) {
+    super(reason);
+    this.name = "Json5SyntaxError";
+    this.location = location;
+  }
+}
+
+const JSON_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const JSON5_NUMBER =
+  /[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:(?:0|[1-9]\d*)(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const IDENTIFIER = /[$_\p{ID_Start}][$\u200c\u200d\p{ID_Continue}]*/uy;
+const WHITESPACE = /[\s\uFEFF]/;
+const LINE_TERMINATOR = /[\n\r\u2028\u2029]/;
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+const JSON5_ESCAPES: Record<string, string> = {
+  ...JSON_ESCAPES,
+  "'": "'",
+  v: "\v",
+  "0": "\0",
+};
+
+/**
+ * Parses a JSONC or JSON5 text.
+ *
+ * @param source - The text
+ * @param dialect - 'jsonc' for JSON with comments and trailing commas, 'json5' for full JSON5
+ * @returns The parsed value, as `JSON.parse` would return it for the equivalent JSON
+ * @throws Json5SyntaxError if the text is not valid in the dialect
+ *
+ * @example
+ * parseJson5('{ // the type\n  "type": "object", }', 'jsonc') // => { type: 'object' }
+ * parseJson5("{ type: 'object', minimum: .5 }", 'json5') // => { type: 'object', minimum: 0.5 }
+ */
+export const parseJson5 = (
+  source: string,
+  dialect: JsonDialect = "json5",
+): unknown => {
+  const isJson5 = dialect === "json5";
+  let index = 0;
+
+  const fail = (reason: string, offset = index): never => {
+    throw new Json5SyntaxError(reason, getSourceLocation(source, offset));
+  };
+
+  const failUnexpected = (): never =>
+    index >= source.length
+      ? fail("Unexpected end of input")
+      : fail(`Unexpected character ${JSON.stringify(source[index])}`);
+
+  const skipWhitespace = (): void => {
+    for (;;) {
+      const char = source[index];
+      if (char !== undefined && WHITESPACE.test(char)) {
+        index++;
+      } else if (source.startsWith("//", index)) {
+        while (index < source.length && !LINE_TERMINATOR.test(source[index])) {
+          index++;
+        }
+      } else if (source.startsWith("/*", index)) {
+        const end = source.indexOf("*/", index + 2);
+        if (end === -1) fail("Unterminated comment");
+        index = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const expect = (char: string): void => {
+    if (source[index] !== char) failUnexpected();
+    index++;
+  };
+
+  const readHex = (length: number): string => {
+    const hex = source.slice(index, index + length);
+    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+      fail("Invalid escape sequence");
+    }
+    index += length;
+    return String.fromCharCode(parseInt(hex, 16));
+  };
+
+  const parseString = (): string => {
+    const quote = source[index];
+    if (quote !== '"' && !(isJson5 && quote === "'")) failUnexpected();
+    const start = index;
+    index++;
+    let value = "";
+    for (;;) {
+      if (index >= source.length) fail("Unterminated string", start);
+      const char = source[index];
+      if (char === quote) {
+        index++;
+        return value;
+      }
+      if (
+        LINE_TERMINATOR.test(char) &&
+        !(isJson5 && (char === "\u2028" || char === "\u2029"))
+      ) {
+        fail("Unterminated string", start);
+      }
+      if (!isJson5 && char.charCodeAt(0) < 0x20) {
+        fail("Control characters must be escaped in strings");
+      }
+      if (char !== "\\") {
+        value += char;
+        index++;
+        continue;
+      }
+
+      const escape = source[index + 1];
+      index += 2;
+      if (escape === "u") {
+        value += readHex(4);
+      } else if (isJson5 && escape === "x") {
+        value += readHex(2);
+      } else if (
+        isJson5 &&
+        escape !== undefined &&
+        LINE_TERMINATOR.test(escape)
+      ) {
+        // A line continuation
+        if (escape === "\r" && source[index] === "\n") index++;
+      } else if (isJson5 && escape === "0" && /\d/.test(source[index] ?? "")) {
+        fail("Octal escape sequences are not allowed", index - 2);
+      } else {
+        const escapes = isJson5 ? JSON5_ESCAPES : JSON_ESCAPES;
+        if (Object.prototype.hasOwnProperty.call(escapes, escape)) {
+          value += escapes[escape];
+        } else if (isJson5 && escape !== undefined && !/[1-9]/.test(escape)) {
+          value += escape;
+        } else {
+          fail("Invalid escape sequence", index - 2);
+        }
+      }
+    }
+  };
+
+  const parseKey = (): string => {
+    if (source[index] === '"' || source[index] === "'") return parseString();
+    if (isJson5) {
+      IDENTIFIER.lastIndex = index;
+      const match = IDENTIFIER.exec(source);
+      if (match) {
+        index = IDENTIFIER.lastIndex;
+        return match[0];
+      }
+    }
+    return failUnexpected();
+  };
+
+  /**
+   * Parses the entries of an object or array up to its closing bracket,
+   * allowing a trailing comma.
+   */
+  const parseEntries = (close: string, parseEntry: () => void): void => {
+    index++;
+    skipWhitespace();
+    while (source[index] !== close) {
+      parseEntry();
+      skipWhitespace();
+      if (source[index] !== ",") break;
+      index++;
+      skipWhitespace();
+    }
+    expect(close);
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const char = source[index];
+
+    if (char === "{") {
+      const object: Record<string, unknown> = {};
+      parseEntries("}", () => {
+        const key = parseKey();
+        skipWhitespace();
+        expect(":");
+        // Defined rather than assigned, so a "__proto__" key stays a plain key
+        Object.defineProperty(object, key, {
+          value: parseValue(),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      });
+      return object;
+    }
+
+    if (char === "[") {
+      const array: unknown[] = [];
+      parseEntries("]", () => {
+        array.push(parseValue());
+      });
+      return array;
+    }
+
+    if (char === '"' || char === "'") return parseString();
+
+    for (const [literal, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      if (source.startsWith(literal, index)) {
+        index += literal.length;
+        return value;
+      }
+    }
+
+    const pattern = isJson5 ? JSON5_NUMBER : JSON_NUMBER;
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) return failUnexpected();
+    index = pattern.lastIndex;
+
+    const text = match[0];
+    const sign = text.startsWith("-") ? -1 : 1;
+    const unsigned = text.replace(/^[+-]/, "");
+    if (/^0x/i.test(unsigned)) return sign * parseInt(unsigned.slice(2), 16);
+    if (unsigned === "Infinity") return sign * Infinity;
+    if (unsigned === "NaN") return NaN;
+    return Number(text);
+  };
+
+  const value = parseValue();
+  skipWhitespace();
+  if (index < source.length) failUnexpected();
+  return value;
+};
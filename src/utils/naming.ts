@@ -21,3 +21,38 @@ export const toPascalCase = (str: string): string => {
     .replace(/(?:^|\s)(\w)/g, (_, char) => char.toUpperCase())
     .replace(/\s/g, "");
 };
+
+/**
+ * Splits a string into words at non-alphanumeric characters and at
+ * lowercase-to-uppercase boundaries.
+ *
+ * @param str - The input string to split
+ * @returns The words, in order
+ *
+ * @example
+ * splitWords('userProfile.v2') // => ['user', 'Profile', 'v2']
+ */
+export const splitWords = (str: string): string[] =>
+  str
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+
+/**
+ * Matches property names that need no quotes.
+ */
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Formats a property name for an object type, quoting it unless it is a
+ * valid identifier.
+ *
+ * @param key - The property name
+ * @returns The property name as it is written in TypeScript
+ *
+ * @example
+ * formatPropertyKey('userName') // => 'userName'
+ * formatPropertyKey('a/b') // => '"a/b"'
+ */
+export const formatPropertyKey = (key: string): string =>
+  IDENTIFIER_PATTERN.test(key) ? key : JSON.stringify(key);
@@ -0,0 +1,717 @@
+/**
+ * A small YAML parser for schema files.
+ *
+ * Supports the parts of YAML 1.2 that schemas are written in: block mappings
+ * and sequences, flow collections (so any JSON document parses), plain,
+ * quoted and block (`|`, `>`) scalars, and comments. Plain scalars are
+ * resolved with the core schema, so `true`, `null`, `12` and `1.5e3` become
+ * the same values `JSON.parse` would produce. Anchors, aliases, tags,
+ * complex keys and multiple documents are rejected with a syntax error.
+ */
+
+import { getSourceLocation, SourceLocation } from "./code-frame";
+
+/**
+ * A YAML text could not be parsed.
+ */
+export class YamlSyntaxError extends SyntaxError {
+  /** Where the text goes wrong */
+  readonly location: SourceLocation;
+
+  constructor(reason: string, location: SourceLocation) {
+    super(reason);
+    this.name = "YamlSyntaxError";
+    this.location = location;
+  }
+}
+
+const INTEGER = /^[-+]?[0-9]+$/;
+const OCTAL = /^0o[0-7]+$/;
+const HEXADECIMAL = /^0x[0-9a-fA-F]+$/;
+const FLOAT = /^[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/;
+
+const DOUBLE_QUOTED_ESCAPES: Record<string, string> = {
+  "0": "\0",
+  a: "\x07",
+  b: "\b",
+  t: "\t",
+  "\t": "\t",
+  n: "\n",
+  v: "\v",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  " ": " ",
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+  N: "\x85",
+  _: "\xa0",
+  L: "\u2028",
+  P: "\u2029",
+};
+
+const HEX_ESCAPE_LENGTHS: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+/**
+ * Resolves a plain scalar with the YAML 1.2 core schema.
+ */
+const resolvePlainScalar = (text: string): unknown => {
+  if (/^(?:~|null|Null|NULL)$/.test(text)) return null;
+  if (/^(?:true|True|TRUE)$/.test(text)) return true;
+  if (/^(?:false|False|FALSE)$/.test(text)) return false;
+  if (INTEGER.test(text) || FLOAT.test(text)) return Number(text);
+  if (OCTAL.test(text)) return parseInt(text.slice(2), 8);
+  if (HEXADECIMAL.test(text)) return parseInt(text.slice(2), 16);
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(text)) {
+    return text.startsWith("-") ? -Infinity : Infinity;
+  }
+  if (/^\.(?:nan|NaN|NAN)$/.test(text)) return NaN;
+  return text;
+};
+
+/**
+ * Parses a YAML text holding a single document.
+ *
+ * @param source - The YAML text
+ * @returns The document, as `JSON.parse` would return its JSON equivalent; null for an empty document
+ * @throws YamlSyntaxError if the text is not valid YAML or uses an unsupported feature
+ *
+ * @example
+ * parseYaml('title: User\ntype: object\nrequired: [id]')
+ * // => { title: 'User', type: 'object', required: ['id'] }
+ */
+export const parseYaml = (source: string): unknown => {
+  const text = source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  let index = 0;
+
+  const fail = (reason: string, offset = index): never => {
+    throw new YamlSyntaxError(reason, getSourceLocation(text, offset));
+  };
+
+  const isLineEnd = (offset = index): boolean =>
+    offset >= text.length || text[offset] === "\n";
+
+  const isBlank = (offset = index): boolean =>
+    isLineEnd(offset) || text[offset] === " " || text[offset] === "\t";
+
+  const getLineStart = (offset = index): number =>
+    text.lastIndexOf("\n", offset - 1) + 1;
+
+  const getColumn = (offset = index): number => offset - getLineStart(offset);
+
+  /**
+   * Moves back to the start of the current line, so the caller sees it again.
+   */
+  const rewindLine = (): void => {
+    if (index < text.length) index = getLineStart();
+  };
+
+  const skipSpaces = (): void => {
+    while (text[index] === " " || text[index] === "\t") index++;
+  };
+
+  const isCommentStart = (): boolean =>
+    text[index] === "#" && (index === 0 || isBlank(index - 1));
+
+  /**
+   * Skips trailing spaces and a comment, then the line break.
+   */
+  const finishLine = (): void => {
+    skipSpaces();
+    if (isCommentStart()) {
+      while (!isLineEnd()) index++;
+    }
+    if (!isLineEnd()) fail("Unexpected content after the value");
+    if (index < text.length) index++;
+  };
+
+  /**
+   * Moves from the start of a line to the first line with content, skipping
+   * blank and comment lines.
+   *
+   * @returns The column of the content, or -1 at the end of the text
+   */
+  const findContentLine = (): number => {
+    while (index < text.length) {
+      const lineStart = index;
+      while (text[index] === " ") index++;
+      if (text[index] === "\t") {
+        skipSpaces();
+        if (!isLineEnd() && text[index] !== "#") {
+          fail("Tabs cannot be used for indentation");
+        }
+      }
+      if (text[index] === "#") {
+        while (!isLineEnd()) index++;
+      }
+      if (!isLineEnd()) return index - lineStart;
+      index++;
+    }
+    return -1;
+  };
+
+  const isDocumentMarker = (marker: "---" | "..."): boolean =>
+    getColumn() === 0 &&
+    text.startsWith(marker, index) &&
+    isBlank(index + marker.length);
+
+  const isSequenceEntry = (): boolean =>
+    text[index] === "-" && isBlank(index + 1);
+
+  const rejectUnsupported = (): void => {
+    const char = text[index];
+    if (char === "&" || char === "*") {
+      fail("Anchors and aliases are not supported");
+    }
+    if (char === "!") fail("Tags are not supported");
+    if (char === "?" && isBlank(index + 1)) {
+      fail("Complex mapping keys are not supported");
+    }
+    if (char === "@" || char === "`") {
+      fail(`"${char}" cannot start a plain scalar`);
+    }
+  };
+
+  /**
+   * Folds the line breaks of a multi-line flow scalar: a single break becomes
+   * a space, and each empty line a newline.
+   */
+  const foldLines = (lines: string[]): string => {
+    let folded = lines[0];
+    let emptyLines = 0;
+    for (const line of lines.slice(1)) {
+      if (line === "") {
+        emptyLines++;
+        continue;
+      }
+      folded += (emptyLines > 0 ? "\n".repeat(emptyLines) : " ") + line;
+      emptyLines = 0;
+    }
+    return folded + "\n".repeat(emptyLines);
+  };
+
+  const parseDoubleQuoted = (): string => {
+    const start = index;
+    index++;
+    const lines: string[] = [];
+    let line = "";
+    for (;;) {
+      if (index >= text.length)
+        fail("Unterminated double-quoted string", start);
+      const char = text[index];
+      if (char === '"') {
+        index++;
+        break;
+      }
+      if (char === "\n") {
+        lines.push(line.replace(/[ \t]+$/, ""));
+        line = "";
+        index++;
+        skipSpaces();
+        continue;
+      }
+      if (char !== "\\") {
+        line += char;
+        index++;
+        continue;
+      }
+
+      const escape = text[index + 1];
+      if (escape === "\n") {
+        // An escaped line break joins the lines without a space
+        index += 2;
+        skipSpaces();
+        continue;
+      }
+      const hexLength = HEX_ESCAPE_LENGTHS[escape];
+      if (hexLength) {
+        const hex = text.slice(index + 2, index + 2 + hexLength);
+        if (!new RegExp(`^[0-9a-fA-F]{${hexLength}}$`).test(hex)) {
+          fail(`Invalid escape sequence "\\${escape}${hex}"`);
+        }
+        line += String.fromCodePoint(parseInt(hex, 16));
+        index += 2 + hexLength;
+        continue;
+      }
+      if (
+        !Object.prototype.hasOwnProperty.call(DOUBLE_QUOTED_ESCAPES, escape)
+      ) {
+        fail(`Invalid escape sequence "\\${escape ?? ""}"`);
+      }
+      line += DOUBLE_QUOTED_ESCAPES[escape];
+      index += 2;
+    }
+    return foldLines([...lines, line]);
+  };
+
+  const parseSingleQuoted = (): string => {
+    const start = index;
+    index++;
+    const lines: string[] = [];
+    let line = "";
+    for (;;) {
+      if (index >= text.length)
+        fail("Unterminated single-quoted string", start);
+      const char = text[index];
+      if (char === "'") {
+        if (text[index + 1] !== "'") {
+          index++;
+          break;
+        }
+        line += "'";
+        index += 2;
+      } else if (char === "\n") {
+        lines.push(line.replace(/[ \t]+$/, ""));
+        line = "";
+        index++;
+        skipSpaces();
+      } else {
+        line += char;
+        index++;
+      }
+    }
+    return foldLines([...lines, line]);
+  };
+
+  /**
+   * Reads a plain scalar up to the end of the line, a comment, a `: `
+   * separator or, in flow context, a flow indicator.
+   */
+  const readPlainLine = (isFlow: boolean): string => {
+    const start = index;
+    while (!isLineEnd()) {
+      const char = text[index];
+      if (char === "#" && isBlank(index - 1)) break;
+      if (
+        char === ":" &&
+        (isBlank(index + 1) || (isFlow && ",[]{}".includes(text[index + 1])))
+      ) {
+        break;
+      }
+      if (isFlow && ",[]{}".includes(char)) break;
+      index++;
+    }
+    const value = text.slice(start, index).replace(/[ \t]+$/, "");
+    index = start + value.length;
+    return value;
+  };
+
+  /**
+   * Finds the key of a block mapping entry starting at the current position.
+   *
+   * @returns The key and the offset after its `:`, or null if the line holds no mapping entry
+   */
+  const peekMappingKey = (): { key: string; end: number } | null => {
+    if (isSequenceEntry()) return null;
+    rejectUnsupported();
+    const start = index;
+    try {
+      let key: string;
+      if (text[index] === '"' || text[index] === "'") {
+        const quoteLine = getLineStart();
+        key = text[index] === '"' ? parseDoubleQuoted() : parseSingleQuoted();
+        if (getLineStart() !== quoteLine) return null;
+        skipSpaces();
+      } else {
+        if ("[{".includes(text[index])) return null;
+        key = readPlainLine(false);
+        if (!key) return null;
+      }
+      if (text[index] !== ":" || !isBlank(index + 1)) return null;
+      return { key, end: index + 1 };
+    } catch (error) {
+      if (error instanceof YamlSyntaxError) return null;
+      throw error;
+    } finally {
+      index = start;
+    }
+  };
+
+  const parseFlowCollection = (): unknown => {
+    const isMapping = text[index] === "{";
+    const close = isMapping ? "}" : "]";
+    const start = index;
+    index++;
+    const sequence: unknown[] = [];
+    const mapping: Record<string, unknown> = {};
+
+    const skipFlowSpace = (): void => {
+      for (;;) {
+        skipSpaces();
+        if (isCommentStart()) {
+          while (!isLineEnd()) index++;
+        }
+        if (index >= text.length) fail("Unterminated flow collection", start);
+        if (text[index] !== "\n") return;
+        index++;
+      }
+    };
+
+    for (;;) {
+      skipFlowSpace();
+      if (text[index] === close) {
+        index++;
+        break;
+      }
+
+      const entryStart = index;
+      const node = parseFlowNode();
+      const nodeEnd = index;
+      skipFlowSpace();
+      if (isMapping) {
+        if (node !== null && typeof node === "object") {
+          fail("Flow mapping keys must be scalars", entryStart);
+        }
+        // Plain keys stay text, as in block mappings
+        const key =
+          typeof node === "string" ? node : text.slice(entryStart, nodeEnd);
+        let value: unknown = null;
+        if (text[index] === ":") {
+          index++;
+          skipFlowSpace();
+          if (text[index] !== "," && text[index] !== close) {
+            value = parseFlowNode();
+            skipFlowSpace();
+          }
+        }
+        setEntry(mapping, key, value, entryStart);
+      } else {
+        if (text[index] === ":") {
+          fail("Mappings in flow sequences must be enclosed in braces");
+        }
+        sequence.push(node);
+      }
+
+      if (text[index] === ",") {
+        index++;
+      } else if (text[index] !== close) {
+        fail(`Expected "," or "${close}"`);
+      }
+    }
+    return isMapping ? mapping : sequence;
+  };
+
+  const parseFlowNode = (): unknown => {
+    rejectUnsupported();
+    const char = text[index];
+    if (char === "[" || char === "{") return parseFlowCollection();
+    if (char === '"') return parseDoubleQuoted();
+    if (char === "'") return parseSingleQuoted();
+    if (",]}".includes(char)) fail(`Unexpected "${char}"`);
+
+    // A plain scalar in flow context may continue on the next lines
+    const start = index;
+    const lines = [readPlainLine(true)];
+    for (;;) {
+      const lineEnd = index;
+      skipSpaces();
+      if (!isLineEnd() || index >= text.length) {
+        index = lineEnd;
+        break;
+      }
+      index++;
+      skipSpaces();
+      if (isLineEnd() && index < text.length) {
+        lines.push("");
+        continue;
+      }
+      if (isLineEnd() || isCommentStart() || ",[]{}:".includes(text[index])) {
+        index = lineEnd;
+        break;
+      }
+      lines.push(readPlainLine(true));
+    }
+    const value = foldLines(lines).replace(/\n+$/, "");
+    if (!value) fail("Expected a value", start);
+    return lines.length === 1 ? resolvePlainScalar(value) : value;
+  };
+
+  /**
+   * Reads a plain scalar in block context, continuing on the following lines
+   * indented past the parent node.
+   */
+  const parsePlainScalar = (parentIndent: number): unknown => {
+    const lines = [readPlainLine(false)];
+    for (;;) {
+      const lineEnd = index;
+      skipSpaces();
+      if (isCommentStart() || !isLineEnd() || index >= text.length) {
+        index = lineEnd;
+        break;
+      }
+      index++;
+      const lineStart = index;
+      const column = findContentLine();
+      const skipped = text.slice(lineStart, getLineStart()).split("\n");
+      if (
+        column <= parentIndent ||
+        text[index] === "#" ||
+        isDocumentMarker("---") ||
+        isDocumentMarker("...") ||
+        skipped.some((line) => line.trim().startsWith("#"))
+      ) {
+        index = lineEnd;
+        break;
+      }
+      lines.push(...skipped.slice(0, -1).map(() => ""));
+      const line = readPlainLine(false);
+      if (text[index] === ":") {
+        fail("Mapping values are not allowed in a multi-line plain scalar");
+      }
+      lines.push(line);
+    }
+    return lines.length === 1
+      ? resolvePlainScalar(lines[0])
+      : foldLines(lines).replace(/\n+$/, "");
+  };
+
+  /**
+   * Reads a literal (`|`) or folded (`>`) block scalar.
+   */
+  const parseBlockScalar = (parentIndent: number): string => {
+    const isFolded = text[index] === ">";
+    index++;
+    let chomping: "clip" | "strip" | "keep" = "clip";
+    let explicitIndent = 0;
+    for (let i = 0; i < 2; i++) {
+      if (text[index] === "-" || text[index] === "+") {
+        chomping = text[index] === "-" ? "strip" : "keep";
+        index++;
+      } else if (/[1-9]/.test(text[index] ?? "")) {
+        explicitIndent = Number(text[index]);
+        index++;
+      }
+    }
+    finishLine();
+
+    let blockIndent = explicitIndent
+      ? Math.max(parentIndent, 0) + explicitIndent
+      : -1;
+    const lines: string[] = [];
+    while (index < text.length) {
+      const lineStart = index;
+      let lineEnd = text.indexOf("\n", index);
+      if (lineEnd === -1) lineEnd = text.length;
+      const line = text.slice(lineStart, lineEnd);
+      const indent = line.length - line.replace(/^ +/, "").length;
+      const isEmpty = line.trim() === "";
+
+      if (blockIndent === -1 && !isEmpty) {
+        if (indent <= parentIndent) break;
+        blockIndent = indent;
+      }
+      if (!isEmpty && indent < blockIndent) break;
+      if (isEmpty && blockIndent !== -1 && indent > blockIndent) {
+        lines.push(line.slice(blockIndent));
+      } else {
+        lines.push(isEmpty ? "" : line.slice(blockIndent));
+      }
+      index = Math.min(lineEnd + 1, text.length);
+    }
+    let lastContent = lines.length - 1;
+    while (lastContent >= 0 && lines[lastContent] === "") lastContent--;
+    const contentLines = lines.slice(0, lastContent + 1);
+    const trailingBreaks = lines.length - contentLines.length;
+
+    let content = "";
+    if (isFolded) {
+      let emptyLines = 0;
+      let isPreviousMoreIndented = false;
+      let hasText = false;
+      for (const line of contentLines) {
+        if (line === "") {
+          emptyLines++;
+          continue;
+        }
+        const isMoreIndented = line[0] === " " || line[0] === "\t";
+        if (!hasText) {
+          content += "\n".repeat(emptyLines);
+        } else if (isMoreIndented || isPreviousMoreIndented) {
+          content += "\n".repeat(emptyLines + 1);
+        } else {
+          content += emptyLines > 0 ? "\n".repeat(emptyLines) : " ";
+        }
+        content += line;
+        hasText = true;
+        isPreviousMoreIndented = isMoreIndented;
+        emptyLines = 0;
+      }
+    } else {
+      content = contentLines.join("\n");
+    }
+
+    if (contentLines.length === 0) {
+      return chomping === "keep" ? "\n".repeat(trailingBreaks) : "";
+    }
+    if (chomping === "strip") return content;
+    return content + "\n".repeat(chomping === "keep" ? trailingBreaks + 1 : 1);
+  };
+
+  /**
+   * Parses the node following a `key:` or `- ` indicator.
+   *
+   * @param parentIndent - The column of the key or the sequence entry
+   * @param isMappingValue - True after a mapping key, where a sequence may start at the key's column
+   */
+  const parseIndicatorValue = (
+    parentIndent: number,
+    isMappingValue: boolean,
+  ): unknown => {
+    skipSpaces();
+    if (isLineEnd() || isCommentStart()) {
+      finishLine();
+      const column = findContentLine();
+      if (
+        column > parentIndent ||
+        (isMappingValue && column === parentIndent && isSequenceEntry())
+      ) {
+        if (isDocumentMarker("---") || isDocumentMarker("...")) {
+          rewindLine();
+          return null;
+        }
+        return parseBlockNode(parentIndent);
+      }
+      rewindLine();
+      return null;
+    }
+
+    if (isSequenceEntry()) {
+      if (isMappingValue) {
+        fail("A sequence cannot start on the line of its key");
+      }
+      return parseBlockSequence(getColumn());
+    }
+    if (peekMappingKey()) {
+      if (isMappingValue) {
+        fail("A mapping cannot start on the line of its key");
+      }
+      return parseBlockMapping(getColumn());
+    }
+    return parseInlineNode(parentIndent);
+  };
+
+  /**
+   * Parses a scalar or flow collection starting on the current line, then
+   * finishes its last line.
+   */
+  const parseInlineNode = (parentIndent: number): unknown => {
+    rejectUnsupported();
+    const char = text[index];
+    if (char === "|" || char === ">") return parseBlockScalar(parentIndent);
+
+    let value: unknown;
+    if (char === "[" || char === "{") {
+      value = parseFlowCollection();
+    } else if (char === '"') {
+      value = parseDoubleQuoted();
+    } else if (char === "'") {
+      value = parseSingleQuoted();
+    } else {
+      if ("]},".includes(char)) fail(`Unexpected "${char}"`);
+      value = parsePlainScalar(parentIndent);
+    }
+    finishLine();
+    return value;
+  };
+
+  const setEntry = (
+    mapping: Record<string, unknown>,
+    key: string,
+    value: unknown,
+    keyOffset: number,
+  ): void => {
+    if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+      fail(`Duplicate key "${key}"`, keyOffset);
+    }
+    // Defined rather than assigned, so a "__proto__" key stays a plain key
+    Object.defineProperty(mapping, key, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  };
+
+  const parseBlockMapping = (indent: number): Record<string, unknown> => {
+    const mapping: Record<string, unknown> = {};
+    for (;;) {
+      const keyOffset = index;
+      const entry = peekMappingKey();
+      if (!entry) fail("Expected a mapping key");
+      index = entry!.end;
+      setEntry(
+        mapping,
+        entry!.key,
+        parseIndicatorValue(indent, true),
+        keyOffset,
+      );
+
+      const column = findContentLine();
+      if (
+        column < indent ||
+        isDocumentMarker("---") ||
+        isDocumentMarker("...")
+      ) {
+        rewindLine();
+        return mapping;
+      }
+      if (column > indent) fail("Unexpected indentation");
+    }
+  };
+
+  const parseBlockSequence = (indent: number): unknown[] => {
+    const sequence: unknown[] = [];
+    for (;;) {
+      index++;
+      sequence.push(parseIndicatorValue(indent, false));
+
+      const column = findContentLine();
+      if (
+        column < indent ||
+        isDocumentMarker("---") ||
+        isDocumentMarker("...")
+      ) {
+        rewindLine();
+        return sequence;
+      }
+      if (column > indent) fail("Unexpected indentation");
+      if (!isSequenceEntry()) {
+        // A sequence under a mapping key may share the key's column
+        rewindLine();
+        return sequence;
+      }
+    }
+  };
+
+  /**
+   * Parses the node at the current position, which starts a line's content.
+   */
+  const parseBlockNode = (parentIndent: number): unknown => {
+    if (isSequenceEntry()) return parseBlockSequence(getColumn());
+    if (peekMappingKey()) return parseBlockMapping(getColumn());
+    return parseInlineNode(parentIndent);
+  };
+
+  if (findContentLine() === -1) return null;
+  if (text[index] === "%") fail("Directives are not supported");
+
+  let document: unknown = null;
+  if (isDocumentMarker("---")) {
+    index += 3;
+    document = parseIndicatorValue(-1, false);
+  } else if (!isDocumentMarker("...")) {
+    document = parseBlockNode(-1);
+  }
+
+  if (findContentLine() !== -1) {
+    if (isDocumentMarker("...")) {
+      index += 3;
+      finishLine();
+      if (findContentLine() === -1) return document;
+    }
+    if (isDocumentMarker("---")) fail("Multiple documents are not supported");
+    fail("Unexpected content");
+  }
+  return document;
+};
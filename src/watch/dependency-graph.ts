@@ -0,0 +1,78 @@
+/**
+ * Tracks which schema files reference which other schema files,
+ * so a change can be propagated to every file that depends on it.
+ */
+
+/**
+ * Interface for the dependency graph between schema files.
+ */
+export interface DependencyGraph {
+  /**
+   * Replace the recorded dependencies of a file.
+   *
+   * @param file - The referring schema path
+   * @param dependencies - The schema paths it references, and the URIs it references that no file declares
+   */
+  setDependencies(file: string, dependencies: string[]): void;
+
+  /**
+   * Forget a file and its outgoing dependencies.
+   *
+   * @param file - The schema path to remove
+   */
+  remove(file: string): void;
+
+  /**
+   * Get every file that directly or transitively references any of the given files.
+   *
+   * @param files - The changed schema paths, and the URIs they declare
+   * @returns The dependent schema paths, excluding the given files
+   */
+  getDependents(files: Iterable<string>): Set<string>;
+}
+
+/**
+ * Creates a new, empty DependencyGraph.
+ *
+ * @returns A new dependency graph
+ *
+ * @example
+ * const graph = createDependencyGraph();
+ * graph.setDependencies('user.json', ['address.json']);
+ * graph.getDependents(['address.json']); // => Set { 'user.json' }
+ */
+export const createDependencyGraph = (): DependencyGraph => {
+  const dependenciesByFile = new Map<string, string[]>();
+
+  return {
+    setDependencies(file, dependencies) {
+      dependenciesByFile.set(file, dependencies);
+    },
+
+    remove(file) {
+      dependenciesByFile.delete(file);
+    },
+
+    getDependents(files) {
+      const changed = new Set(files);
+      const dependents = new Set<string>();
+      const queue = Array.from(changed);
+
+      while (queue.length > 0) {
+        const target = queue.shift()!;
+        for (const [file, dependencies] of dependenciesByFile) {
+          if (
+            dependencies.includes(target) &&
+            !dependents.has(file) &&
+            !changed.has(file)
+          ) {
+            dependents.add(file);
+            queue.push(file);
+          }
+        }
+      }
+
+      return dependents;
+    },
+  };
+};
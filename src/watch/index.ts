@@ -0,0 +1,6 @@
+/**
+ * Watch mode for incremental regeneration.
+ */
+
+export { watchTypes, TypesWatcher } from "./watcher";
+export { createDependencyGraph, DependencyGraph } from "./dependency-graph";
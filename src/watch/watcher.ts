@@ -0,0 +1,518 @@
+/**
+ * Watch mode: keeps generated types in sync with a schema directory.
+ *
+ * Directories are watched individually (recursive `fs.watch` is not available
+ * on every supported platform). Any event schedules a debounced rescan that
+ * compares file stats against the previous snapshot, so editors that save via
+ * rename-and-replace are handled the same way as in-place writes.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  FailedSchemaFile,
+  SchemaFileReport,
+  WatchRegenerationResult,
+  WatchTypesConfig,
+} from "../types";
+import { resolveLogger } from "../logging";
+import {
+  BarrelModule,
+  bundleSchemaFiles,
+  createBarrelFiles,
+  createFailedFileReport,
+  createFileOptionsResolver,
+  createSchemaModules,
+  getDeclaredUris,
+  createFileWriter,
+  createProcessedFileReport,
+  emitFileEvent,
+  findSchemaFiles,
+  getInputRoots,
+  getLoadedSchemaPath,
+  loadExternalSchemas,
+  LoadedSchema,
+  createOutputPathResolver,
+  findOutputPathCollisions,
+  listOutputFiles,
+  resolveOutputTarget,
+  resolveHeaderOptions,
+  renderHeader,
+  processSchemaFile,
+  DiscoveredSchemaFile,
+} from "../pipeline";
+import { createDependencyGraph } from "./dependency-graph";
+
+/**
+ * Handle returned by `watchTypes`.
+ */
+export interface TypesWatcher {
+  /**
+   * Stop watching. Pending regenerations are discarded.
+   */
+  close(): void;
+}
+
+/**
+ * Returns a cheap signature of a file's state, or null if it no longer exists.
+ */
+const getFileSignature = (filePath: string): string | null => {
+  try {
+    const stats = fs.statSync(filePath);
+    return `${stats.mtimeMs}:${stats.ctimeMs}:${stats.size}`;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Lists a directory and all of its subdirectories.
+ */
+const listDirectories = (root: string): string[] => {
+  const directories = [root];
+  for (let index = 0; index < directories.length; index++) {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directories[index], { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        directories.push(path.join(directories[index], entry.name));
+      }
+    }
+  }
+  return directories;
+};
+
+/**
+ * Generates types for a schema directory, then watches it and regenerates
+ * only the schema files that changed or that reference a changed file.
+ * Output files of deleted schemas are removed.
+ *
+ * @param config - Configuration specifying input and output paths and watch options
+ * @returns A watcher handle, once the initial generation has finished
+ *
+ * @example
+ * const watcher = await watchTypes({
+ *   pathToJsonSchemas: './schemas',
+ *   pathToOutputDirectory: './types',
+ *   generatedTypesExportsFormat: 'UNIQUE_EXPORTS',
+ * });
+ * // later
+ * watcher.close();
+ */
+export const watchTypes = async (
+  config: WatchTypesConfig,
+): Promise<TypesWatcher> => {
+  const {
+    pathToJsonSchemas,
+    pathToOutputDirectory,
+    include,
+    exclude,
+    ignoreFile,
+    debounceMs = 100,
+    onRegenerate,
+    barrels = false,
+    bundle = false,
+    loaders = [],
+    events,
+  } = config;
+  const logger = resolveLogger(config);
+  const bundleOptions = bundle === true ? {} : bundle || null;
+  const roots = getInputRoots(pathToJsonSchemas);
+  const getFileOptions = createFileOptionsResolver(config);
+  const resolveOutputFilePath = createOutputPathResolver(config);
+  const outputTarget = resolveOutputTarget(config);
+  const { target } = outputTarget;
+  const header = resolveHeaderOptions(config) ?? undefined;
+  const writer = createFileWriter(logger);
+  const graph = createDependencyGraph();
+  const directoryWatchers = new Map<string, fs.FSWatcher>();
+  const barrelModules = new Map<string, BarrelModule>();
+  let barrelPaths: string[] = [];
+
+  let snapshot = new Map<string, string | null>();
+  let rootsByFile = new Map<string, string>();
+  let loadedSchemas = new Map<string, LoadedSchema>();
+  let debounceTimer: NodeJS.Timeout | null = null;
+  let isRegenerating = false;
+  let hasPendingChanges = false;
+  let isClosed = false;
+
+  /**
+   * Maps a schema file, or a loaded schema by its URI, to its output file.
+   */
+  const getOutputFilePath = (relativeSchemaPath: string): string =>
+    resolveOutputFilePath(
+      loadedSchemas.has(relativeSchemaPath)
+        ? getLoadedSchemaPath(relativeSchemaPath)
+        : relativeSchemaPath,
+    );
+
+  /**
+   * Lists every known schema file, then every loaded schema, with its input root.
+   */
+  const getSchemaFiles = (): DiscoveredSchemaFile[] => [
+    ...Array.from(rootsByFile, ([relativePath, root]) => ({
+      root,
+      relativePath,
+    })),
+    ...Array.from(loadedSchemas.keys(), (uri) => ({
+      root: "",
+      relativePath: uri,
+    })),
+  ];
+
+  /**
+   * Maps every known schema file to its output file, in discovery order.
+   */
+  const getOutputFilePaths = (): Map<string, string> =>
+    new Map(
+      getSchemaFiles().map(({ relativePath }) => [
+        relativePath,
+        getOutputFilePath(relativePath),
+      ]),
+    );
+
+  /**
+   * Runs the pipeline for the given files, recording their dependencies.
+   */
+  const regenerateFiles = async (
+    files: string[],
+  ): Promise<
+    Pick<WatchRegenerationResult, "generatedFiles" | "failedFiles">
+  > => {
+    const generatedFiles: string[] = [];
+    const failedFiles: FailedSchemaFile[] = [];
+    const schemaBundle = bundleOptions
+      ? bundleSchemaFiles({
+          schemaFiles: files.map((relativePath) => ({
+            root: rootsByFile.get(relativePath) ?? "",
+            relativePath,
+          })),
+          pathToOutputDirectory,
+          options: bundleOptions,
+          getFileOptions,
+          writer,
+          logger,
+          header,
+          loadedSchemas,
+        })
+      : null;
+    const collisions = bundleOptions
+      ? new Map<string, Error>()
+      : findOutputPathCollisions(getOutputFilePaths());
+    const modules = bundleOptions
+      ? {}
+      : createSchemaModules({
+          schemaFiles: getSchemaFiles(),
+          getOutputFilePath,
+          getFileOptions,
+          collisions,
+          loadedSchemas,
+        });
+
+    for (const [index, relativeSchemaPath] of files.entries()) {
+      const fileStartTime = Date.now();
+      events?.fileStart?.({
+        schemaPath: relativeSchemaPath,
+        index,
+        total: files.length,
+      });
+
+      let file: SchemaFileReport;
+      try {
+        const collision = collisions.get(relativeSchemaPath);
+        if (collision) throw collision;
+        const processed = schemaBundle
+          ? schemaBundle.getProcessedFile(relativeSchemaPath)
+          : await processSchemaFile({
+              relativeSchemaPath,
+              pathToJsonSchemas: rootsByFile.get(relativeSchemaPath) ?? "",
+              outputFilePath: getOutputFilePath(relativeSchemaPath),
+              ...getFileOptions(relativeSchemaPath),
+              ...outputTarget,
+              modules,
+              header,
+              writer,
+              logger,
+            });
+        graph.setDependencies(relativeSchemaPath, processed.dependencies);
+        if (processed.outputFilePath && processed.isOutputChanged) {
+          for (const outputFilePath of [
+            processed.outputFilePath,
+            processed.declarationFilePath,
+          ]) {
+            if (outputFilePath && !generatedFiles.includes(outputFilePath)) {
+              generatedFiles.push(outputFilePath);
+            }
+          }
+        }
+        if (processed.outputFilePath) {
+          barrelModules.set(relativeSchemaPath, {
+            outputPath: processed.outputFilePath,
+            exportedTypes: processed.exportedTypes,
+            exportedValues: processed.exportedValues,
+          });
+        } else {
+          barrelModules.delete(relativeSchemaPath);
+        }
+        file = createProcessedFileReport({
+          schemaPath: relativeSchemaPath,
+          processed,
+          check: false,
+          durationMs: Date.now() - fileStartTime,
+        });
+      } catch (error) {
+        logger.error(
+          `Failed to process schema file ${relativeSchemaPath}:`,
+          error,
+        );
+        failedFiles.push({ schemaPath: relativeSchemaPath, error });
+        file = createFailedFileReport(
+          relativeSchemaPath,
+          error,
+          Date.now() - fileStartTime,
+        );
+      }
+
+      emitFileEvent(events, { file, index, total: files.length });
+    }
+
+    return { generatedFiles, failedFiles };
+  };
+
+  /**
+   * Removes the output of deleted schema files, unless a remaining schema file
+   * maps to the same output file.
+   */
+  const deleteOutputs = (files: string[]): string[] => {
+    const deletedFiles: string[] = [];
+    const remainingOutputs = new Set(
+      Array.from(getOutputFilePaths().values(), (outputFilePath) =>
+        outputFilePath.toLowerCase(),
+      ),
+    );
+    for (const relativeSchemaPath of files) {
+      graph.remove(relativeSchemaPath);
+      barrelModules.delete(relativeSchemaPath);
+      const outputFilePath = getOutputFilePath(relativeSchemaPath);
+      if (remainingOutputs.has(outputFilePath.toLowerCase())) continue;
+      for (const writtenFilePath of listOutputFiles(outputFilePath, target)) {
+        if (fs.existsSync(writtenFilePath)) {
+          fs.unlinkSync(writtenFilePath);
+          deletedFiles.push(writtenFilePath);
+          logger.info(`Removed: ${writtenFilePath}`);
+        }
+      }
+    }
+    return deletedFiles;
+  };
+
+  /**
+   * Rewrites the barrel files from the current modules, removing barrels of
+   * directories that no longer contain generated modules.
+   *
+   * @returns The written and removed barrel files
+   */
+  const updateBarrels = (): { written: string[]; removed: string[] } => {
+    if (!barrels || bundleOptions) return { written: [], removed: [] };
+
+    const barrelFiles = createBarrelFiles({
+      pathToOutputDirectory,
+      modules: Array.from(barrelModules.values()),
+      options: barrels === true ? {} : barrels,
+      target,
+      header: header && renderHeader(header),
+      logger,
+    });
+    const written = Array.from(barrelFiles).flatMap(([barrelPath, content]) =>
+      writer.write(barrelPath, content) ? [barrelPath] : [],
+    );
+    const removed = barrelPaths.filter(
+      (barrelPath) => !barrelFiles.has(barrelPath) && fs.existsSync(barrelPath),
+    );
+    for (const barrelPath of removed) {
+      fs.unlinkSync(barrelPath);
+      logger.info(`Removed: ${barrelPath}`);
+    }
+    barrelPaths = Array.from(barrelFiles.keys());
+    return { written, removed };
+  };
+
+  /**
+   * Starts watching new directories and stops watching deleted ones.
+   */
+  const syncDirectoryWatchers = (): void => {
+    const directories = new Set(roots.flatMap(listDirectories));
+
+    for (const [directory, watcher] of directoryWatchers) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        directoryWatchers.delete(directory);
+      }
+    }
+
+    for (const directory of directories) {
+      if (directoryWatchers.has(directory)) continue;
+      try {
+        const watcher = fs.watch(directory, scheduleRegeneration);
+        watcher.on("error", () => {
+          watcher.close();
+          directoryWatchers.delete(directory);
+        });
+        directoryWatchers.set(directory, watcher);
+      } catch (error) {
+        logger.debug(`Unable to watch ${directory}:`, error);
+      }
+    }
+  };
+
+  /**
+   * Rescans the schema directory and regenerates whatever changed since the last scan.
+   */
+  const regenerate = async (): Promise<void> => {
+    if (isRegenerating) {
+      hasPendingChanges = true;
+      return;
+    }
+    isRegenerating = true;
+    const startTime = Date.now();
+
+    try {
+      const discovered = await findSchemaFiles({
+        roots,
+        include,
+        exclude,
+        ignoreFile,
+        logger,
+      });
+      const files = discovered.map(({ relativePath }) => relativePath);
+      rootsByFile = new Map(
+        discovered.map(({ root, relativePath }) => [relativePath, root]),
+      );
+      // The root is part of the signature, so a file moving between roots counts as a change
+      const nextSnapshot = new Map(
+        discovered.map(({ root, relativePath }) => [
+          relativePath,
+          `${root}:${getFileSignature(path.join(root, relativePath))}`,
+        ]),
+      );
+
+      const changedFiles = files.filter(
+        (file) => snapshot.get(file) !== nextSnapshot.get(file),
+      );
+      const removedFiles = Array.from(snapshot.keys()).filter(
+        (file) => !nextSnapshot.has(file),
+      );
+      snapshot = nextSnapshot;
+
+      if (changedFiles.length > 0 || removedFiles.length > 0) {
+        const deletedFiles = deleteOutputs(removedFiles);
+
+        const affected = new Set(changedFiles);
+        // Files referencing a URI the changed files now declare depend on them too
+        const declaredUris = Object.keys(
+          getDeclaredUris(
+            createSchemaModules({
+              schemaFiles: discovered.filter(({ relativePath }) =>
+                changedFiles.includes(relativePath),
+              ),
+              getOutputFilePath,
+              getFileOptions,
+            }),
+          ),
+        );
+        graph
+          .getDependents([...changedFiles, ...removedFiles, ...declaredUris])
+          .forEach((file) => affected.add(file));
+        // Loaded schemas are loaded again and regenerated with every change
+        loadedSchemas = await loadExternalSchemas({
+          schemaFiles: discovered,
+          getFileOptions,
+          loaders,
+          logger,
+        });
+        // A bundle is always rebuilt from every schema file
+        const regeneratedFiles = [
+          ...(bundleOptions
+            ? files
+            : files.filter((file) => affected.has(file))),
+          ...loadedSchemas.keys(),
+        ];
+
+        const { generatedFiles, failedFiles } =
+          await regenerateFiles(regeneratedFiles);
+        const updatedBarrels = updateBarrels();
+        generatedFiles.push(...updatedBarrels.written);
+        deletedFiles.push(...updatedBarrels.removed);
+        const durationMs = Date.now() - startTime;
+
+        logger.info(
+          `Regenerated ${regeneratedFiles.length} schema file(s) in ${durationMs}ms` +
+            (failedFiles.length > 0 ? ` (${failedFiles.length} failed)` : ""),
+        );
+
+        onRegenerate?.({
+          changedFiles,
+          removedFiles,
+          regeneratedFiles,
+          generatedFiles,
+          deletedFiles,
+          failedFiles,
+          durationMs,
+        });
+      }
+
+      if (!isClosed) {
+        syncDirectoryWatchers();
+      }
+    } catch (error) {
+      logger.error("Failed to regenerate types:", error);
+    } finally {
+      isRegenerating = false;
+    }
+
+    if (hasPendingChanges && !isClosed) {
+      hasPendingChanges = false;
+      scheduleRegeneration();
+    }
+  };
+
+  /**
+   * Debounces file system events into a single regeneration.
+   */
+  const scheduleRegeneration = (): void => {
+    if (isClosed) return;
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      void regenerate();
+    }, debounceMs);
+  };
+
+  if (!fs.existsSync(pathToOutputDirectory)) {
+    fs.mkdirSync(pathToOutputDirectory, { recursive: true });
+  }
+
+  await regenerate();
+  logger.info(`Watching ${roots.join(", ")} for changes...`);
+
+  return {
+    close() {
+      isClosed = true;
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+        debounceTimer = null;
+      }
+      for (const watcher of directoryWatchers.values()) {
+        watcher.close();
+      }
+      directoryWatchers.clear();
+    },
+  };
+};